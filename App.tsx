@@ -1,9 +1,37 @@
-import React, { useState } from 'react';
-import { GeneratedSlide, Slide } from './types';
-import { generatePresentationScript, generateImageForSlide, generateNarrationAudio } from './services/geminiService';
-import { decode, decodeAudioData } from './utils/audioUtils';
+import React, { useState, useRef } from 'react';
+import { GeneratedSlide, GenerationOptions, MusicBed, PresentationProject, SourceDocument, Theme, UsageRecord } from './types';
+import { DEFAULT_GENERATION_OPTIONS, DEFAULT_SPEAKERS, DEFAULT_THEME } from './constants';
+import { getGeneratorInfo } from './services/geminiService';
+import {
+  createPipelineSlides,
+  generateScriptWithRetry,
+  isPipelineComplete,
+  PipelineSlide,
+  runAssetPipeline,
+  toGeneratedSlides,
+} from './services/generationPipeline';
+import { saveProject, loadProject } from './services/projectStore';
+import { createBundle, readBundle, BUNDLE_EXTENSION } from './services/bundleService';
+import { createPptx } from './services/pptxExporter';
+import { loadPriceTable } from './services/priceTable';
+import { renderVideo, VIDEO_RESOLUTIONS, VideoFormat, VideoResolution } from './services/videoRenderer';
+import { getMusicName, mixPresentationAudio } from './services/audioMixer';
+import { float32ToWav, NARRATION_SAMPLE_RATE } from './utils/audioUtils';
+import { downloadBlob, toFileBaseName } from './utils/fileUtils';
+import { buildCaptionCues, toSRT, toWebVTT, toWebVTTChapters } from './utils/captions';
+import { getChapters } from './utils/chapters';
+import { toUsageMetadata } from './utils/usage';
 import PresentationViewer from './components/PresentationViewer';
-import { LoadingSpinner, SparklesIcon, DownloadIcon } from './components/icons';
+import SlideEditor from './components/SlideEditor';
+import GenerationOptionsForm from './components/GenerationOptionsForm';
+import ProjectLibrary from './components/ProjectLibrary';
+import GenerationProgress from './components/GenerationProgress';
+import CacheManager from './components/CacheManager';
+import UsageSummary from './components/UsageSummary';
+import SourceDocumentsInput from './components/SourceDocumentsInput';
+import ThemePicker from './components/ThemePicker';
+import MusicBedPicker from './components/MusicBedPicker';
+import { LoadingSpinner, SparklesIcon, DownloadIcon, PencilIcon } from './components/icons';
 
 const App: React.FC = () => {
   const [topic, setTopic] = useState<string>('');
@@ -13,233 +41,340 @@ const App: React.FC = () => {
   const [generatedSlides, setGeneratedSlides] = useState<GeneratedSlide[]>([]);
   const [audioUrl, setAudioUrl] = useState<string>('');
   const [isDownloading, setIsDownloading] = useState<boolean>(false);
+  const [downloadProgress, setDownloadProgress] = useState<number>(0);
+  const [videoFormat, setVideoFormat] = useState<VideoFormat>('mp4');
+  const [videoResolution, setVideoResolution] = useState<VideoResolution>('720p');
+  const [burnInCaptions, setBurnInCaptions] = useState<boolean>(false);
+  const downloadControllerRef = useRef<AbortController | null>(null);
+  const [isEditing, setIsEditing] = useState<boolean>(false);
+  const [options, setOptions] = useState<GenerationOptions>(DEFAULT_GENERATION_OPTIONS);
+  const [sources, setSources] = useState<SourceDocument[]>([]);
+  const [embedPptxAudio, setEmbedPptxAudio] = useState<boolean>(true);
+  const [project, setProject] = useState<Omit<PresentationProject, 'slides'> | null>(null);
+  const [pipelineSlides, setPipelineSlides] = useState<PipelineSlide[]>([]);
+  const [pipelineRun, setPipelineRun] = useState<{ topic: string; options: GenerationOptions } | null>(null);
+  const [isGeneratingAssets, setIsGeneratingAssets] = useState<boolean>(false);
+  const generationControllerRef = useRef<AbortController | null>(null);
+  // Requests of the generation in progress, retries of failed slides included
+  const runUsageRef = useRef<UsageRecord[]>([]);
+  // Requests made from the slide editor, added to the project when editing ends
+  const editUsageRef = useRef<UsageRecord[]>([]);
+  const [isNewlyGenerated, setIsNewlyGenerated] = useState<boolean>(false);
+  const themeSaveTimerRef = useRef<number | null>(null);
+  const theme = project?.theme ?? DEFAULT_THEME;
+
+  // Saving is best-effort: a full or unavailable IndexedDB must not take the presentation down with it
+  const persistProject = async (details: Omit<PresentationProject, 'slides'>, slides: GeneratedSlide[]) => {
+    // A full save supersedes any theme change still waiting to be written
+    if (themeSaveTimerRef.current !== null) {
+      clearTimeout(themeSaveTimerRef.current);
+      themeSaveTimerRef.current = null;
+    }
+    const updated = { ...details, updatedAt: Date.now() };
+    setProject(updated);
+    try {
+      await saveProject({ ...updated, slides });
+    } catch (err) {
+      console.error('Failed to save project', err);
+    }
+  };
+
+  // Colour pickers fire on every drag step, so the theme is shown at once but saved once it settles
+  const handleThemeChange = (updated: Theme) => {
+    if (!project) return;
+    const details = { ...project, theme: updated };
+    setProject(details);
+    if (themeSaveTimerRef.current !== null) clearTimeout(themeSaveTimerRef.current);
+    themeSaveTimerRef.current = window.setTimeout(() => {
+      themeSaveTimerRef.current = null;
+      saveProject({ ...details, updatedAt: Date.now(), slides: generatedSlides }).catch(err => console.error('Failed to save project', err));
+    }, 500);
+  };
 
   const handleGenerate = async () => {
     if (!topic.trim()) {
       setError('Please enter a topic.');
       return;
     }
+    // Names label the dialogue's lines, so they must be present, colon-free and distinct
+    const speakers = options.speakers?.map((speaker, index) => ({
+      ...speaker,
+      name: speaker.name.replace(/:/g, '').trim() || DEFAULT_SPEAKERS[index].name,
+    }));
+    if (speakers && new Set(speakers.map(speaker => speaker.name.toLowerCase())).size < speakers.length) {
+      setError('Each speaker needs a different name.');
+      return;
+    }
 
+    const controller = new AbortController();
+    generationControllerRef.current = controller;
     setIsLoading(true);
     setError(null);
     setGeneratedSlides([]);
     setAudioUrl('');
+    runUsageRef.current = [];
+
+    // Blank free-text fields fall back to the defaults rather than producing an odd prompt
+    const generationOptions: GenerationOptions = {
+      ...options,
+      audience: options.audience.trim() || DEFAULT_GENERATION_OPTIONS.audience,
+      language: options.language.trim() || DEFAULT_GENERATION_OPTIONS.language,
+      ...(speakers && { speakers }),
+    };
 
     try {
       // 1. Generate script
       setLoadingMessage('Crafting the presentation script...');
-      const scriptSlides = await generatePresentationScript(topic);
-
-      // 2. Generate images in parallel
-      setLoadingMessage('Generating visuals for each slide...');
-      const imagePromises = scriptSlides.map(slide => generateImageForSlide(slide.imagePrompt));
-      const base64Images = await Promise.all(imagePromises);
-
-      const slidesWithImages: GeneratedSlide[] = scriptSlides.map((slide, index) => ({
-        ...slide,
-        imageUrl: `data:image/png;base64,${base64Images[index]}`,
-      }));
-      setGeneratedSlides(slidesWithImages);
-
-      // 3. Generate narration
-      setLoadingMessage('Recording the voice narration...');
-      const fullNarrationScript = slidesWithImages.map(s => s.narration).join(' ');
-      const base64Audio = await generateNarrationAudio(fullNarrationScript);
-
-      // 4. Decode and create audio URL
-      setLoadingMessage('Finalizing audio...');
-      const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
-      const audioBytes = decode(base64Audio);
-      const audioBuffer = await decodeAudioData(audioBytes, audioContext, 24000, 1);
-      
-      // Convert AudioBuffer to a playable format like WAV blob
-      const wavBlob = bufferToWav(audioBuffer);
-      const url = URL.createObjectURL(wavBlob);
-      setAudioUrl(url);
-
+      const scriptSlides = await generateScriptWithRetry(topic, generationOptions, sources, {
+        signal: controller.signal,
+        onUsage: record => runUsageRef.current.push(record),
+      });
+
+      // 2. Generate images and narration, showing each slide as its assets arrive
+      const run = { topic: topic.trim(), options: generationOptions };
+      setPipelineRun(run);
+      setIsLoading(false);
+      await runGenerationPipeline(createPipelineSlides(scriptSlides, generationOptions), run, controller);
     } catch (err) {
+      if (controller.signal.aborted) return;
       console.error(err);
       setError(err instanceof Error ? err.message : 'An unknown error occurred.');
     } finally {
+      if (generationControllerRef.current === controller) generationControllerRef.current = null;
       setIsLoading(false);
       setLoadingMessage('');
     }
   };
-  
-    // Utility to convert AudioBuffer to a WAV Blob
-  const bufferToWav = (buffer: AudioBuffer): Blob => {
-    const numOfChan = buffer.numberOfChannels;
-    const length = buffer.length * numOfChan * 2 + 44;
-    const bufferArr = new ArrayBuffer(length);
-    const view = new DataView(bufferArr);
-    const channels = [];
-    let i, sample;
-    let offset = 0;
-    let pos = 0;
-
-    // write WAVE header
-    setUint32(0x46464952); // "RIFF"
-    setUint32(length - 8); // file length - 8
-    setUint32(0x45564157); // "WAVE"
-
-    setUint32(0x20746d66); // "fmt " chunk
-    setUint32(16); // length = 16
-    setUint16(1); // PCM (uncompressed)
-    setUint16(numOfChan);
-    setUint32(buffer.sampleRate);
-    setUint32(buffer.sampleRate * 2 * numOfChan); // avg. bytes/sec
-    setUint16(numOfChan * 2); // block-align
-    setUint16(16); // 16-bit
-
-    setUint32(0x61746164); // "data" - chunk
-    setUint32(length - pos - 4); // chunk length
-
-    for (i = 0; i < buffer.numberOfChannels; i++)
-      channels.push(buffer.getChannelData(i));
-
-    while (pos < length) {
-      for (i = 0; i < numOfChan; i++) {
-        sample = Math.max(-1, Math.min(1, channels[i][offset]));
-        sample = (0.5 + sample < 0 ? sample * 32768 : sample * 32767) | 0;
-        view.setInt16(pos, sample, true);
-        pos += 2;
+
+  // Only steps that are not done yet are run, so this both starts a run and retries a partial one
+  const runGenerationPipeline = async (
+    initial: PipelineSlide[],
+    run: { topic: string; options: GenerationOptions },
+    controller: AbortController,
+  ) => {
+    generationControllerRef.current = controller;
+    setPipelineSlides(initial);
+    setIsGeneratingAssets(true);
+    try {
+      const result = await runAssetPipeline(initial, run.options, {
+        signal: controller.signal,
+        onUpdate: (index, slide) => setPipelineSlides(prev => prev.map((current, i) => (i === index ? slide : current))),
+        onUsage: record => runUsageRef.current.push(record),
+      });
+      if (!isPipelineComplete(result)) return;
+
+      // 3. Join the slide clips into one playable track
+      const slides = toGeneratedSlides(result);
+      const url = await createNarrationTrackUrl(slides);
+      setGeneratedSlides(slides);
+      setAudioUrl(url);
+      setPipelineSlides([]);
+      setPipelineRun(null);
+      setIsNewlyGenerated(true);
+
+      const now = Date.now();
+      await persistProject(
+        {
+          id: crypto.randomUUID(),
+          name: run.topic,
+          topic: run.topic,
+          options: run.options,
+          generator: getGeneratorInfo(),
+          theme: DEFAULT_THEME,
+          usage: [...runUsageRef.current],
+          createdAt: now,
+          updatedAt: now,
+        },
+        slides,
+      );
+    } catch (err) {
+      if (controller.signal.aborted) return;
+      console.error(err);
+      setError(err instanceof Error ? err.message : 'An unknown error occurred.');
+    } finally {
+      if (generationControllerRef.current === controller) generationControllerRef.current = null;
+      setIsGeneratingAssets(false);
+    }
+  };
+
+  const handleRetryGeneration = () => {
+    if (!pipelineRun) return;
+    setError(null);
+    runGenerationPipeline(pipelineSlides, pipelineRun, new AbortController());
+  };
+
+  const handleDiscardGeneration = () => {
+    setPipelineSlides([]);
+    setPipelineRun(null);
+    setError(null);
+  };
+
+  // Concatenates every slide's PCM clip, in slide order, over any music bed into a single WAV object URL
+  const createNarrationTrackUrl = async (slides: GeneratedSlide[], music?: MusicBed): Promise<string> => {
+    const samples = await mixPresentationAudio(slides, music);
+    return URL.createObjectURL(new Blob([float32ToWav(samples, NARRATION_SAMPLE_RATE)], { type: 'audio/wav' }));
+  };
+
+  // Remixing takes a moment, so the picker only calls this when a change is applied
+  const handleMusicChange = async (music: MusicBed | undefined) => {
+    if (!project) return;
+    const url = await createNarrationTrackUrl(generatedSlides, music);
+    URL.revokeObjectURL(audioUrl);
+    setAudioUrl(url);
+    await persistProject({ ...project, music }, generatedSlides);
+  };
+
+  const takeEditUsage = (details: Omit<PresentationProject, 'slides'>) => {
+    const usage = editUsageRef.current;
+    editUsageRef.current = [];
+    return { ...details, usage: [...(details.usage ?? []), ...usage] };
+  };
+
+  const handleStartEditing = () => {
+    setError(null);
+    editUsageRef.current = [];
+    setIsEditing(true);
+  };
+
+  const handleSaveEdits = async (slides: GeneratedSlide[]) => {
+    try {
+      // Slides keep their own clips, so only the joined track has to be rebuilt
+      const url = await createNarrationTrackUrl(slides, project?.music);
+      URL.revokeObjectURL(audioUrl);
+      setGeneratedSlides(slides);
+      setAudioUrl(url);
+      setIsEditing(false);
+      if (project) {
+        await persistProject(takeEditUsage(project), slides);
       }
-      offset++;
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : 'Failed to rebuild the narration track.');
+    }
+  };
+
+  // Regenerated assets are thrown away, but what they cost is still kept
+  const handleCancelEdits = async () => {
+    setIsEditing(false);
+    if (project && editUsageRef.current.length > 0) {
+      await persistProject(takeEditUsage(project), generatedSlides);
+    }
+  };
+
+  // Shows a stored or imported project; everything needed is local, so this never calls the API
+  const showProject = async ({ slides, ...details }: PresentationProject) => {
+    const url = await createNarrationTrackUrl(slides, details.music);
+    setTopic(details.topic);
+    setOptions(details.options);
+    setProject(details);
+    setGeneratedSlides(slides);
+    setAudioUrl(url);
+    setIsNewlyGenerated(false);
+  };
+
+  const handleOpenProject = async (id: string) => {
+    setIsLoading(true);
+    setLoadingMessage('Opening saved presentation...');
+    setError(null);
+    try {
+      await showProject(await loadProject(id));
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : 'Failed to open the project.');
+    } finally {
+      setIsLoading(false);
+      setLoadingMessage('');
     }
+  };
 
-    return new Blob([view], { type: 'audio/wav' });
+  const handleImportBundle = async (file: File) => {
+    setIsLoading(true);
+    setLoadingMessage('Importing presentation bundle...');
+    setError(null);
+    try {
+      const imported = await readBundle(new Uint8Array(await file.arrayBuffer()));
+      await showProject(imported);
+      const { slides, ...details } = imported;
+      await persistProject(details, slides);
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : 'Failed to import the bundle.');
+    } finally {
+      setIsLoading(false);
+      setLoadingMessage('');
+    }
+  };
 
-    function setUint16(data: number) {
-      view.setUint16(pos, data, true);
-      pos += 2;
+  const handleExportBundle = () => {
+    if (!project) return;
+    setError(null);
+    try {
+      const bundle = createBundle({ ...project, slides: generatedSlides });
+      downloadBlob(new Blob([bundle], { type: 'application/zip' }), `${toFileBaseName(project.name)}${BUNDLE_EXTENSION}`);
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : 'Failed to export the bundle.');
     }
+  };
 
-    function setUint32(data: number) {
-      view.setUint32(pos, data, true);
-      pos += 4;
+  const handleExportPptx = () => {
+    setError(null);
+    try {
+      const title = project?.name || topic;
+      const pptx = createPptx(generatedSlides, {
+        title,
+        embedAudio: embedPptxAudio,
+        ...(project?.usage && { usage: toUsageMetadata(project.usage, loadPriceTable()) }),
+      });
+      downloadBlob(
+        new Blob([pptx], { type: 'application/vnd.openxmlformats-officedocument.presentationml.presentation' }),
+        `${toFileBaseName(title)}.pptx`,
+      );
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : 'Failed to export PowerPoint file.');
     }
   };
 
+  const handleDownloadCaptions = (format: 'vtt' | 'srt') => {
+    const cues = buildCaptionCues(generatedSlides);
+    // SRT has no way to mark chapters, so only WebVTT carries them
+    const text = format === 'vtt' ? toWebVTT(cues, getChapters(generatedSlides)) : toSRT(cues);
+    const type = format === 'vtt' ? 'text/vtt' : 'application/x-subrip';
+    downloadBlob(new Blob([text], { type }), `${toFileBaseName(project?.name || topic)}.${format}`);
+  };
+
+  const handleDownloadChapters = () => {
+    const text = toWebVTTChapters(getChapters(generatedSlides));
+    downloadBlob(new Blob([text], { type: 'text/vtt' }), `${toFileBaseName(project?.name || topic)}.chapters.vtt`);
+  };
+
   const handleDownload = async () => {
-    if (generatedSlides.length === 0 || !audioUrl) return;
+    if (generatedSlides.length === 0) return;
 
     setIsDownloading(true);
+    setDownloadProgress(0);
     setError(null);
+    const controller = new AbortController();
+    downloadControllerRef.current = controller;
 
     try {
-        const canvas = document.createElement('canvas');
-        canvas.width = 1280;
-        canvas.height = 720; // 16:9 aspect ratio
-        const ctx = canvas.getContext('2d');
-        if (!ctx) throw new Error('Could not get canvas context');
-
-        const videoStream = canvas.captureStream(30); // 30 FPS
-
-        const audioContext = new AudioContext();
-        const response = await fetch(audioUrl);
-        const arrayBuffer = await response.arrayBuffer();
-        const audioBuffer = await audioContext.decodeAudioData(arrayBuffer);
-        const audioDestination = audioContext.createMediaStreamDestination();
-        const audioSource = audioContext.createBufferSource();
-        audioSource.buffer = audioBuffer;
-        audioSource.connect(audioDestination);
-        const audioStream = audioDestination.stream;
-
-        const combinedStream = new MediaStream([
-            ...videoStream.getVideoTracks(),
-            ...audioStream.getAudioTracks()
-        ]);
-
-        const recorder = new MediaRecorder(combinedStream, { mimeType: 'video/webm; codecs=vp9,opus' });
-        const chunks: Blob[] = [];
-        recorder.ondataavailable = (event) => {
-            if (event.data.size > 0) chunks.push(event.data);
-        };
-        recorder.onstop = () => {
-            const blob = new Blob(chunks, { type: 'video/webm' });
-            const url = URL.createObjectURL(blob);
-            const a = document.createElement('a');
-            a.href = url;
-            a.download = `${topic.replace(/\s+/g, '_') || 'presentation'}.webm`;
-            document.body.appendChild(a);
-            a.click();
-            document.body.removeChild(a);
-            URL.revokeObjectURL(url);
-        };
-
-        recorder.start();
-        audioSource.start();
-
-        const averageWPM = 180;
-        const slideDurations = generatedSlides.map(slide => (slide.narration.split(/\s+/).length / averageWPM) * 60 * 1000);
-        
-        const images = await Promise.all(
-            generatedSlides.map(slide => new Promise<HTMLImageElement>((resolve, reject) => {
-                const img = new Image();
-                img.crossOrigin = "anonymous";
-                img.src = slide.imageUrl;
-                img.onload = () => resolve(img);
-                img.onerror = reject;
-            }))
-        );
-
-        let currentSlideIndex = 0;
-        let slideTimeoutId: number;
-
-        const renderLoop = () => {
-            if (recorder.state !== 'recording' || !ctx) return;
-            
-            const img = images[currentSlideIndex];
-            ctx.fillStyle = 'black';
-            ctx.fillRect(0, 0, canvas.width, canvas.height);
-            
-            const canvasAspect = canvas.width / canvas.height;
-            const imgAspect = img.width / img.height;
-            let drawWidth, drawHeight, dx, dy;
-
-            if (canvasAspect > imgAspect) {
-                drawHeight = canvas.height;
-                drawWidth = drawHeight * imgAspect;
-            } else {
-                drawWidth = canvas.width;
-                drawHeight = drawWidth / imgAspect;
-            }
-            dx = (canvas.width - drawWidth) / 2;
-            dy = (canvas.height - drawHeight) / 2;
-            
-            ctx.drawImage(img, dx, dy, drawWidth, drawHeight);
-            
-            requestAnimationFrame(renderLoop);
-        };
-
-        const startSlideShow = () => {
-            let slideIndex = 0;
-            function nextSlide() {
-                if (slideIndex >= generatedSlides.length) return;
-                currentSlideIndex = slideIndex;
-                slideTimeoutId = setTimeout(() => {
-                    slideIndex++;
-                    nextSlide();
-                }, slideDurations[slideIndex]);
-            }
-            nextSlide();
-        };
-
-        requestAnimationFrame(renderLoop);
-        startSlideShow();
-        
-        await new Promise(resolve => {
-            audioSource.onended = () => {
-                clearTimeout(slideTimeoutId);
-                resolve(null);
-            };
+        const blob = await renderVideo(generatedSlides, {
+            format: videoFormat,
+            resolution: videoResolution,
+            burnInCaptions,
+            theme,
+            music: project?.music,
+            signal: controller.signal,
+            onProgress: setDownloadProgress,
         });
-
-        recorder.stop();
+        downloadBlob(blob, `${toFileBaseName(project?.name || topic)}.${videoFormat}`);
     } catch (err) {
+        if (controller.signal.aborted) return;
         console.error(err);
         setError(err instanceof Error ? err.message : 'Failed to generate video.');
     } finally {
+        downloadControllerRef.current = null;
         setIsDownloading(false);
     }
   };
@@ -257,7 +392,18 @@ const App: React.FC = () => {
         </header>
 
         <main>
-          {generatedSlides.length === 0 ? (
+          {pipelineRun && generatedSlides.length === 0 ? (
+            <div>
+                <GenerationProgress
+                  slides={pipelineSlides}
+                  isRunning={isGeneratingAssets}
+                  onCancel={() => generationControllerRef.current?.abort()}
+                  onRetry={handleRetryGeneration}
+                  onDiscard={handleDiscardGeneration}
+                />
+                {error && <p className="text-red-400 mt-4 text-center">{error}</p>}
+            </div>
+          ) : generatedSlides.length === 0 ? (
             <div className="bg-gray-800/50 backdrop-blur-sm p-8 rounded-2xl shadow-lg border border-gray-700">
               <div className="flex flex-col sm:flex-row gap-4">
                 <input
@@ -285,37 +431,195 @@ const App: React.FC = () => {
                     </>
                   )}
                 </button>
+                {isLoading && generationControllerRef.current && (
+                  <button
+                    onClick={() => generationControllerRef.current?.abort()}
+                    className="px-4 py-3 text-sm text-gray-400 hover:text-white transition-colors"
+                  >
+                    Cancel
+                  </button>
+                )}
+              </div>
+              <details className="mt-6 group">
+                <summary className="cursor-pointer text-sm text-gray-400 hover:text-gray-200 select-none">
+                  Presentation options
+                </summary>
+                <div className="mt-4">
+                  <GenerationOptionsForm options={options} onChange={setOptions} disabled={isLoading} />
+                </div>
+              </details>
+              <details className="mt-4 group">
+                <summary className="cursor-pointer text-sm text-gray-400 hover:text-gray-200 select-none">
+                  Source documents{sources.length > 0 && ` (${sources.length})`}
+                </summary>
+                <div className="mt-4">
+                  <SourceDocumentsInput sources={sources} onChange={setSources} disabled={isLoading} />
+                </div>
+              </details>
+              <div className="mt-4 text-center">
+                <label className={`inline-block text-sm text-gray-400 underline-offset-4 ${isLoading ? 'opacity-50 cursor-not-allowed' : 'hover:text-gray-200 hover:underline cursor-pointer'}`}>
+                  Import a presentation bundle
+                  <input
+                    type="file"
+                    accept={`${BUNDLE_EXTENSION},.zip,application/zip`}
+                    className="hidden"
+                    disabled={isLoading}
+                    onChange={(e) => {
+                      const file = e.target.files?.[0];
+                      e.target.value = '';
+                      if (file) handleImportBundle(file);
+                    }}
+                  />
+                </label>
               </div>
               {error && <p className="text-red-400 mt-4 text-center">{error}</p>}
+              <ProjectLibrary onOpen={handleOpenProject} disabled={isLoading} />
+              <CacheManager disabled={isLoading} />
+            </div>
+          ) : isEditing ? (
+            <div>
+                <SlideEditor
+                  slides={generatedSlides}
+                  options={project?.options ?? options}
+                  onUsage={record => editUsageRef.current.push(record)}
+                  onSave={handleSaveEdits}
+                  onCancel={handleCancelEdits}
+                />
+                {error && <p className="text-red-400 mt-4 text-center">{error}</p>}
             </div>
           ) : (
             <div>
-                <PresentationViewer slides={generatedSlides} audioUrl={audioUrl} />
+                <PresentationViewer key={audioUrl} slides={generatedSlides} audioUrl={audioUrl} theme={theme} />
                 <div className="text-center mt-6 flex flex-wrap justify-center gap-4">
                     <button
-                        onClick={() => { setGeneratedSlides([]); setTopic(''); setAudioUrl(''); }}
+                        onClick={() => { setGeneratedSlides([]); setTopic(''); setAudioUrl(''); setProject(null); setIsNewlyGenerated(false); }}
                         className="px-6 py-2 bg-gray-700 text-gray-300 font-semibold rounded-lg hover:bg-gray-600 transition-colors"
                     >
                         Create a New Presentation
                     </button>
                     <button
-                        onClick={handleDownload}
+                        onClick={handleStartEditing}
                         disabled={isDownloading}
-                        className="inline-flex items-center justify-center px-6 py-3 bg-indigo-600 text-white font-semibold rounded-lg shadow-md hover:bg-indigo-500 disabled:bg-indigo-400/50 disabled:cursor-not-allowed transition-colors focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-900 focus:ring-indigo-500"
-                      >
-                        {isDownloading ? (
-                          <>
-                            <LoadingSpinner />
-                            <span>Preparing Video...</span>
-                          </>
-                        ) : (
-                          <>
-                            <DownloadIcon className="w-5 h-5 mr-2" />
-                            <span>Download Presentation</span>
-                          </>
-                        )}
+                        className="inline-flex items-center justify-center px-6 py-2 bg-gray-700 text-gray-300 font-semibold rounded-lg hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                    >
+                        <PencilIcon className="w-5 h-5 mr-2" />
+                        <span>Edit Slides</span>
+                    </button>
+                    <button
+                        onClick={handleExportBundle}
+                        disabled={!project}
+                        className="inline-flex items-center justify-center px-6 py-2 bg-gray-700 text-gray-300 font-semibold rounded-lg hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                    >
+                        <span>Export Bundle</span>
                     </button>
+                    <div className="inline-flex items-center rounded-lg bg-gray-700">
+                        <button
+                            onClick={handleExportPptx}
+                            className="px-6 py-2 text-gray-300 font-semibold rounded-l-lg hover:bg-gray-600 transition-colors"
+                        >
+                            Export PPTX
+                        </button>
+                        <label className="flex items-center gap-2 px-3 py-2 text-sm text-gray-400 border-l border-gray-600 cursor-pointer" title="Embed each slide's narration in the PowerPoint file">
+                            <input
+                                type="checkbox"
+                                checked={embedPptxAudio}
+                                onChange={(e) => setEmbedPptxAudio(e.target.checked)}
+                                className="accent-indigo-500"
+                            />
+                            Audio
+                        </label>
+                    </div>
+                    <div className="inline-flex items-center gap-2">
+                        <select
+                            value={videoResolution}
+                            onChange={(e) => setVideoResolution(e.target.value as VideoResolution)}
+                            disabled={isDownloading}
+                            className="bg-gray-700 border border-gray-600 text-gray-200 text-sm rounded-lg px-3 py-3 focus:ring-2 focus:ring-indigo-500 focus:outline-none disabled:opacity-50"
+                        >
+                            {(Object.keys(VIDEO_RESOLUTIONS) as VideoResolution[]).map(key => (
+                                <option key={key} value={key}>{VIDEO_RESOLUTIONS[key].label}</option>
+                            ))}
+                        </select>
+                        <select
+                            value={videoFormat}
+                            onChange={(e) => setVideoFormat(e.target.value as VideoFormat)}
+                            disabled={isDownloading}
+                            className="bg-gray-700 border border-gray-600 text-gray-200 text-sm rounded-lg px-3 py-3 focus:ring-2 focus:ring-indigo-500 focus:outline-none disabled:opacity-50"
+                        >
+                            <option value="mp4">MP4</option>
+                            <option value="webm">WebM</option>
+                        </select>
+                        <label className="flex items-center gap-2 px-2 text-sm text-gray-400 cursor-pointer" title="Draw captions into the video frames">
+                            <input
+                                type="checkbox"
+                                checked={burnInCaptions}
+                                onChange={(e) => setBurnInCaptions(e.target.checked)}
+                                disabled={isDownloading}
+                                className="accent-indigo-500"
+                            />
+                            Captions
+                        </label>
+                        <button
+                            onClick={handleDownload}
+                            disabled={isDownloading}
+                            className="inline-flex items-center justify-center px-6 py-3 bg-indigo-600 text-white font-semibold rounded-lg shadow-md hover:bg-indigo-500 disabled:bg-indigo-400/50 disabled:cursor-not-allowed transition-colors focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-900 focus:ring-indigo-500"
+                          >
+                            {isDownloading ? (
+                              <>
+                                <LoadingSpinner />
+                                <span>Rendering Video... {Math.round(downloadProgress * 100)}%</span>
+                              </>
+                            ) : (
+                              <>
+                                <DownloadIcon className="w-5 h-5 mr-2" />
+                                <span>Download Presentation</span>
+                              </>
+                            )}
+                        </button>
+                        {isDownloading && (
+                            <button
+                                onClick={() => downloadControllerRef.current?.abort()}
+                                className="px-4 py-3 text-sm text-gray-400 hover:text-white transition-colors"
+                            >
+                                Cancel
+                            </button>
+                        )}
+                    </div>
                 </div>
+                <p className="mt-4 text-center text-sm text-gray-400">
+                    Download captions:{' '}
+                    <button onClick={() => handleDownloadCaptions('vtt')} className="underline underline-offset-4 hover:text-gray-200">WebVTT</button>
+                    {' · '}
+                    <button onClick={() => handleDownloadCaptions('srt')} className="underline underline-offset-4 hover:text-gray-200">SRT</button>
+                    {getChapters(generatedSlides).length > 0 && (
+                        <>
+                            {' · '}
+                            <button onClick={handleDownloadChapters} className="underline underline-offset-4 hover:text-gray-200">Chapters</button>
+                        </>
+                    )}
+                </p>
+                {project && <UsageSummary key={project.id} records={project.usage ?? []} defaultOpen={isNewlyGenerated} />}
+                {project && (
+                    <details className="mt-4 bg-gray-800/50 p-4 rounded-2xl border border-gray-700">
+                        <summary className="cursor-pointer text-sm text-gray-400 hover:text-gray-200 select-none">
+                            Theme: {theme.name}
+                        </summary>
+                        <div className="mt-4">
+                            <ThemePicker theme={theme} onChange={handleThemeChange} />
+                        </div>
+                    </details>
+                )}
+                {project && (
+                    <details className="mt-4 bg-gray-800/50 p-4 rounded-2xl border border-gray-700">
+                        <summary className="cursor-pointer text-sm text-gray-400 hover:text-gray-200 select-none">
+                            Background music: {project.music ? getMusicName(project.music.source) : 'None'}
+                        </summary>
+                        <div className="mt-4">
+                            <MusicBedPicker key={project.id} music={project.music} onApply={handleMusicChange} />
+                        </div>
+                    </details>
+                )}
+                {error && <p className="text-red-400 mt-4 text-center">{error}</p>}
             </div>
           )}
         </main>
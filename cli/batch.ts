@@ -0,0 +1,112 @@
+import { existsSync } from 'node:fs';
+import { resolve } from 'node:path';
+import { parseArgs } from 'node:util';
+import { getProvider, setProvider } from '../services/geminiService';
+import { createLimiter, DEFAULT_PIPELINE_OPTIONS } from '../services/generationPipeline';
+import { createMockProvider } from '../services/providers/mockProvider';
+import { formatCost } from '../utils/usage';
+import { generateDeck } from './deck';
+import { BatchJob, createJobs, loadJobFile } from './jobs';
+
+const USAGE = `Generates a presentation for every topic, each into its own directory.
+
+Usage:
+  npm run batch -- <jobs.yaml | jobs.json | topics.txt> [options]
+  npm run batch -- --topic "Photosynthesis" --topic "Plate tectonics" [options]
+
+Options:
+  -t, --topic <topic>        A topic to generate; may be repeated.
+  -o, --out <dir>            Where decks are written (default: decks).
+  -c, --concurrency <n>      Decks generated at the same time (default: 2).
+      --asset-concurrency <n>
+                             Image and speech requests in flight per deck (default: ${DEFAULT_PIPELINE_OPTIONS.concurrency}).
+      --force                Regenerate decks that are already complete.
+      --dry-run              Use the offline mock provider: no API key, no cost.
+  -h, --help                 Show this help.
+
+Running the same command again resumes: finished decks are skipped and
+unfinished ones only generate what is missing.`;
+
+const readCount = (value: string | undefined, name: string, fallback: number): number => {
+  if (value === undefined) return fallback;
+  const count = Number(value);
+  if (!Number.isInteger(count) || count < 1) throw new Error(`--${name} must be a whole number of at least 1.`);
+  return count;
+};
+
+const formatDuration = (seconds: number) => `${Math.floor(seconds / 60)}:${String(Math.round(seconds % 60)).padStart(2, '0')}`;
+
+async function main(): Promise<number> {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      topic: { type: 'string', short: 't', multiple: true },
+      out: { type: 'string', short: 'o', default: 'decks' },
+      concurrency: { type: 'string', short: 'c' },
+      'asset-concurrency': { type: 'string' },
+      force: { type: 'boolean', default: false },
+      'dry-run': { type: 'boolean', default: false },
+      help: { type: 'boolean', short: 'h', default: false },
+    },
+  });
+  if (values.help || (positionals.length === 0 && !values.topic)) {
+    console.log(USAGE);
+    return values.help ? 0 : 1;
+  }
+  if (positionals.length > 1) throw new Error('Pass one job file at a time.');
+
+  const concurrency = readCount(values.concurrency, 'concurrency', 2);
+  const assetConcurrency = readCount(values['asset-concurrency'], 'asset-concurrency', DEFAULT_PIPELINE_OPTIONS.concurrency);
+  const jobs: BatchJob[] = [
+    ...(positionals.length > 0 ? await loadJobFile(positionals[0]) : []),
+    ...(values.topic ? createJobs(values.topic, {}, process.cwd()) : []),
+  ];
+  if (new Set(jobs.map(job => job.name)).size !== jobs.length) {
+    throw new Error('A --topic would be written to the same directory as a job from the file.');
+  }
+
+  // Same files Vite and the generation server read
+  for (const file of ['.env.local', '.env']) {
+    if (existsSync(file)) process.loadEnvFile(file);
+  }
+  if (values['dry-run']) setProvider(createMockProvider());
+  const provider = getProvider();
+  if (provider.name === 'mock' && !values['dry-run']) {
+    console.warn('No GEMINI_API_KEY is set, so the offline mock provider is used.');
+  }
+
+  const outDir = resolve(values.out!);
+  console.log(`Generating ${jobs.length} deck(s) with the ${provider.name} provider into ${outDir}`);
+  const limit = createLimiter(concurrency);
+  const results = await Promise.all(jobs.map(job => limit(async () => {
+    const log = (message: string) => console.log(`[${job.name}] ${message}`);
+    const result = await generateDeck(job, resolve(outDir, job.name), { concurrency: assetConcurrency, force: values.force!, log });
+    if (result.status === 'failed') {
+      log(`Failed: ${result.error}`);
+    } else {
+      log(`${result.status === 'skipped' ? 'Already complete' : 'Done'}: ${result.slideCount} slides, ${formatDuration(result.duration)}, ${formatCost(result.usage.cost, result.usage.currency)}`);
+    }
+    return result;
+  })));
+
+  const failed = results.filter(result => result.status === 'failed').length;
+  console.log(`${results.length - failed} of ${results.length} deck(s) complete.`);
+  const complete = results.flatMap(result => (result.status === 'failed' ? [] : [result.usage]));
+  if (complete.length > 0) {
+    const cost = complete.reduce((sum, usage) => sum + usage.cost, 0);
+    console.log(`Estimated cost of the complete decks: ${formatCost(cost, complete[0].currency)}`);
+  }
+  if (failed > 0) {
+    console.log('Run the same command again to resume the failed decks.');
+    return 1;
+  }
+  return 0;
+}
+
+main().then(
+  code => { process.exitCode = code; },
+  err => {
+    console.error(err instanceof Error ? err.message : err);
+    process.exitCode = 1;
+  },
+);
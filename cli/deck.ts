@@ -0,0 +1,194 @@
+import { existsSync } from 'node:fs';
+import { mkdir, readFile, rename, rm, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { GeneratorInfo, Slide, UsageRecord } from '../types';
+import { concatBytes, decode, encode, getPcmDuration, NARRATION_SAMPLE_RATE, pcmToWav, wavToPcm } from '../utils/audioUtils';
+import { buildCaptionCues, toSRT, toWebVTT, toWebVTTChapters } from '../utils/captions';
+import { getChapters } from '../utils/chapters';
+import { toUsageMetadata, UsageMetadata } from '../utils/usage';
+import { getGeneratorInfo } from '../services/geminiService';
+import { loadPriceTable } from '../services/priceTable';
+import {
+  createPipelineSlides,
+  generateScriptWithRetry,
+  isPipelineComplete,
+  PipelineSlide,
+  runAssetPipeline,
+  toGeneratedSlides,
+} from '../services/generationPipeline';
+import { BatchJob, readJobSources } from './jobs';
+
+// Written first, and compared on later runs to tell whether earlier output still matches the job.
+export interface DeckScript {
+  topic: string;
+  options: BatchJob['options'];
+  sources: string[];
+  generator: GeneratorInfo;
+  slides: Slide[];
+  // Every request made for this deck, over all the runs it took.
+  usage?: UsageRecord[];
+  usageSummary?: UsageMetadata;
+}
+
+export type DeckResult =
+  | { status: 'done' | 'skipped'; slideCount: number; duration: number; usage: UsageMetadata }
+  | { status: 'failed'; error: string };
+
+export interface GenerateDeckOptions {
+  // Maximum number of image and speech requests in flight for this deck.
+  concurrency: number;
+  // Starts over even when earlier output matches the job.
+  force: boolean;
+  log: (message: string) => void;
+}
+
+const SCRIPT_FILE = 'script.json';
+const NARRATION_FILE = 'narration.wav';
+const SUBTITLE_FILES = { vtt: 'subtitles.vtt', srt: 'subtitles.srt' };
+const CHAPTERS_FILE = 'chapters.vtt';
+
+const slideFileName = (index: number) => `slide-${String(index + 1).padStart(2, '0')}`;
+const imagePath = (dir: string, index: number) => join(dir, 'images', `${slideFileName(index)}.png`);
+const audioPath = (dir: string, index: number) => join(dir, 'audio', `${slideFileName(index)}.wav`);
+
+// Writes to a temporary file first, so an interrupted run never leaves a truncated asset
+// behind for the next run to pick up.
+async function writeFileAtomic(path: string, data: Uint8Array | string): Promise<void> {
+  const temporary = `${path}.partial`;
+  await writeFile(temporary, data);
+  await rename(temporary, path);
+}
+
+async function readScript(dir: string): Promise<DeckScript | null> {
+  try {
+    return JSON.parse(await readFile(join(dir, SCRIPT_FILE), 'utf8'));
+  } catch {
+    return null;
+  }
+}
+
+const matchesJob = (script: DeckScript, job: BatchJob) =>
+  script.topic === job.topic
+  && JSON.stringify(script.options) === JSON.stringify(job.options)
+  && JSON.stringify(script.sources) === JSON.stringify(job.sources);
+
+// Picks up the images and narration an earlier run of the same script already wrote.
+async function restoreAssets(dir: string, slides: PipelineSlide[]): Promise<PipelineSlide[]> {
+  return Promise.all(slides.map(async (slide, index) => {
+    let restored = slide;
+    if (slide.status.image !== 'done' && existsSync(imagePath(dir, index))) {
+      const image = await readFile(imagePath(dir, index));
+      restored = { ...restored, imageUrl: `data:image/png;base64,${image.toString('base64')}`, status: { ...restored.status, image: 'done' } };
+    }
+    if (existsSync(audioPath(dir, index))) {
+      const { pcm, sampleRate, numChannels } = wavToPcm(await readFile(audioPath(dir, index)));
+      if (sampleRate === NARRATION_SAMPLE_RATE && numChannels === 1) {
+        restored = {
+          ...restored,
+          audioData: encode(pcm),
+          duration: getPcmDuration(pcm, sampleRate, numChannels),
+          status: { ...restored.status, narration: 'done' },
+        };
+      }
+    }
+    return restored;
+  }));
+}
+
+// Generates one deck into dir: script.json, images/, audio/ with each slide's narration,
+// narration.wav for the whole deck, subtitles, and chapters.vtt when the script has chapters.
+// Every asset is written as soon as it is ready, so running the same job again only generates
+// what is still missing.
+export async function generateDeck(job: BatchJob, dir: string, options: GenerateDeckOptions): Promise<DeckResult> {
+  const { concurrency, force, log } = options;
+  const finalFiles = [NARRATION_FILE, SUBTITLE_FILES.vtt, SUBTITLE_FILES.srt].map(file => join(dir, file));
+  const chaptersPath = join(dir, CHAPTERS_FILE);
+  const prices = loadPriceTable();
+  let usage: UsageRecord[] = [];
+  const onUsage = (record: UsageRecord) => usage.push(record);
+  try {
+    let script = force ? null : await readScript(dir);
+    if (script && !matchesJob(script, job)) {
+      log('The job changed since the last run, so it starts over.');
+      script = null;
+    }
+    // Written again after each stage so the usage stays current even if the run is interrupted
+    const writeScript = (deckScript: DeckScript) =>
+      writeFileAtomic(join(dir, SCRIPT_FILE), JSON.stringify({ ...deckScript, usage, usageSummary: toUsageMetadata(usage, prices) }, null, 2));
+    if (script) {
+      usage = [...(script.usage ?? [])];
+    } else {
+      for (const path of [join(dir, 'images'), join(dir, 'audio'), ...finalFiles, chaptersPath]) {
+        await rm(path, { recursive: true, force: true });
+      }
+      await mkdir(dir, { recursive: true });
+      log('Writing the script...');
+      const sources = await readJobSources(job);
+      const slides = await generateScriptWithRetry(job.topic, job.options, sources, { onUsage });
+      script = { topic: job.topic, options: job.options, sources: job.sources, generator: getGeneratorInfo(), slides };
+      await writeScript(script);
+    }
+
+    let pipeline = await restoreAssets(dir, createPipelineSlides(script.slides, job.options));
+    if (isPipelineComplete(pipeline)) {
+      const hasChapters = getChapters(toGeneratedSlides(pipeline)).length > 0;
+      if ([...finalFiles, ...(hasChapters ? [chaptersPath] : [])].every(file => existsSync(file))) {
+        return {
+          status: 'skipped',
+          slideCount: pipeline.length,
+          duration: pipeline.reduce((sum, slide) => sum + slide.duration!, 0),
+          usage: toUsageMetadata(usage, prices),
+        };
+      }
+    }
+
+    if (job.options.imageMode !== 'background') await mkdir(join(dir, 'images'), { recursive: true });
+    await mkdir(join(dir, 'audio'), { recursive: true });
+    const writes: Promise<void>[] = [];
+    const previous = [...pipeline];
+    const missing = pipeline.filter(slide => slide.status.image !== 'done' || slide.status.narration !== 'done').length;
+    if (missing > 0) log(`Generating images and narration for ${missing} slide(s)...`);
+    pipeline = await runAssetPipeline(pipeline, job.options, {
+      concurrency,
+      onUsage,
+      onUpdate: (index, slide) => {
+        if (slide.status.image === 'done' && slide.imageUrl && previous[index].status.image !== 'done') {
+          writes.push(writeFileAtomic(imagePath(dir, index), decode(slide.imageUrl.split(',')[1])));
+        }
+        if (slide.status.narration === 'done' && slide.audioData && previous[index].status.narration !== 'done') {
+          writes.push(writeFileAtomic(audioPath(dir, index), pcmToWav(decode(slide.audioData), NARRATION_SAMPLE_RATE, 1)));
+        }
+        previous[index] = slide;
+      },
+    });
+    await Promise.all(writes);
+    await writeScript(script);
+
+    if (!isPipelineComplete(pipeline)) {
+      const failures = pipeline.flatMap((slide, index) =>
+        Object.entries(slide.errors).map(([step, error]) => `slide ${index + 1} ${step}: ${error}`));
+      return { status: 'failed', error: failures.join('; ') || 'Some slides are missing assets.' };
+    }
+
+    const slides = toGeneratedSlides(pipeline);
+    const narration = concatBytes(slides.map(slide => decode(slide.audioData)));
+    const cues = buildCaptionCues(slides);
+    const chapters = getChapters(slides);
+    await writeFileAtomic(join(dir, SUBTITLE_FILES.vtt), toWebVTT(cues, chapters));
+    if (chapters.length > 0) {
+      await writeFileAtomic(chaptersPath, toWebVTTChapters(chapters));
+    } else {
+      await rm(chaptersPath, { force: true });
+    }
+    await writeFileAtomic(join(dir, SUBTITLE_FILES.srt), toSRT(cues));
+    await writeFileAtomic(join(dir, NARRATION_FILE), pcmToWav(narration, NARRATION_SAMPLE_RATE, 1));
+    return {
+      status: 'done',
+      slideCount: slides.length,
+      duration: slides.reduce((sum, slide) => sum + slide.duration, 0),
+      usage: toUsageMetadata(usage, prices),
+    };
+  } catch (err) {
+    return { status: 'failed', error: err instanceof Error ? err.message : String(err) };
+  }
+}
@@ -0,0 +1,146 @@
+import { readFile } from 'node:fs/promises';
+import { basename, dirname, extname, resolve } from 'node:path';
+import { parse as parseYaml } from 'yaml';
+import { DEFAULT_GENERATION_OPTIONS, MAX_QUIZ_QUESTIONS, MAX_SLIDE_COUNT } from '../constants';
+import { GenerationOptions, SourceDocument } from '../types';
+import { readSourceFile } from '../utils/sourceDocuments';
+
+// One presentation to generate, with its options already merged over the file's defaults.
+export interface BatchJob {
+  topic: string;
+  // Name of the deck's output directory.
+  name: string;
+  options: GenerationOptions;
+  // Paths of text, Markdown or PDF files the script should be based on.
+  sources: string[];
+}
+
+// A job file is a list of jobs, or an object with `defaults` applied to every job and a `jobs`
+// list. A job is either a topic string or an object with `topic` and optional `name`, `options`
+// and `sources`. Plain text files hold one topic per line, with # starting a comment.
+export async function loadJobFile(path: string): Promise<BatchJob[]> {
+  const text = await readFile(path, 'utf8');
+  const extension = extname(path).toLowerCase();
+  if (extension === '.txt') {
+    const topics = text.split(/\r?\n/).map(line => line.replace(/#.*/, '').trim()).filter(Boolean);
+    return createJobs(topics, {}, dirname(path));
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = extension === '.json' ? JSON.parse(text) : parseYaml(text);
+  } catch (err) {
+    throw new Error(`${path} could not be parsed: ${err instanceof Error ? err.message : String(err)}`);
+  }
+  if (Array.isArray(parsed)) return createJobs(parsed, {}, dirname(path));
+  if (isRecord(parsed) && Array.isArray(parsed.jobs)) {
+    if (parsed.defaults !== undefined && !isRecord(parsed.defaults)) {
+      throw new Error(`${path}: defaults must be an object of generation options.`);
+    }
+    return createJobs(parsed.jobs, (parsed.defaults ?? {}) as Record<string, unknown>, dirname(path));
+  }
+  throw new Error(`${path} must contain a list of jobs, or an object with a "jobs" list.`);
+}
+
+// Validates entries and merges their options. Relative source paths are resolved against
+// baseDir, which is the job file's directory.
+export function createJobs(entries: unknown[], defaults: Record<string, unknown>, baseDir: string): BatchJob[] {
+  const issues: string[] = [];
+  const jobs: BatchJob[] = [];
+  const names = new Set<string>();
+
+  entries.forEach((entry, index) => {
+    const path = `jobs[${index}]`;
+    const job = typeof entry === 'string' ? { topic: entry } : entry;
+    if (!isRecord(job) || typeof job.topic !== 'string' || !job.topic.trim()) {
+      issues.push(`${path} must be a topic or an object with a non-empty "topic".`);
+      return;
+    }
+    if (job.options !== undefined && !isRecord(job.options)) {
+      issues.push(`${path}.options must be an object.`);
+      return;
+    }
+    if (job.sources !== undefined && (!Array.isArray(job.sources) || job.sources.some(source => typeof source !== 'string'))) {
+      issues.push(`${path}.sources must be a list of file paths.`);
+      return;
+    }
+    if (job.name !== undefined && (typeof job.name !== 'string' || !toDirectoryName(job.name))) {
+      issues.push(`${path}.name must be a non-empty string.`);
+      return;
+    }
+
+    const topic = job.topic.trim();
+    const name = toDirectoryName(typeof job.name === 'string' ? job.name : topic) || `deck-${index + 1}`;
+    if (names.has(name)) {
+      issues.push(`${path} would be written to "${name}", which another job already uses. Give one of them a different "name".`);
+      return;
+    }
+    names.add(name);
+
+    const options = { ...DEFAULT_GENERATION_OPTIONS, ...defaults, ...((job.options ?? {}) as Record<string, unknown>) } as GenerationOptions;
+    issues.push(...validateOptions(options, `${path}.options`));
+    const sources = ((job.sources ?? []) as string[]).map(source => resolve(baseDir, source));
+    jobs.push({ topic, name, options, sources });
+  });
+
+  if (issues.length > 0) {
+    throw new Error(`The job list has problems:\n- ${issues.join('\n- ')}`);
+  }
+  return jobs;
+}
+
+export async function readJobSources(job: BatchJob): Promise<SourceDocument[]> {
+  return Promise.all(job.sources.map(async path => {
+    const data = await readFile(path);
+    return readSourceFile(new File([data], basename(path)));
+  }));
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Lower-case words joined by dashes, safe as a directory name on every platform.
+function toDirectoryName(name: string): string {
+  return name
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 80);
+}
+
+function validateOptions(options: GenerationOptions, path: string): string[] {
+  const issues: string[] = [];
+  const { slideCount, minWordsPerSlide, maxWordsPerSlide, speakers, imageMode, quizQuestions, chapters } = options;
+  if (!Number.isInteger(slideCount) || slideCount < 1 || slideCount > MAX_SLIDE_COUNT) {
+    issues.push(`${path}.slideCount must be a whole number from 1 to ${MAX_SLIDE_COUNT}.`);
+  }
+  if (!Number.isInteger(minWordsPerSlide) || !Number.isInteger(maxWordsPerSlide) || minWordsPerSlide < 1 || minWordsPerSlide > maxWordsPerSlide) {
+    issues.push(`${path}.minWordsPerSlide and maxWordsPerSlide must be whole numbers, with the minimum no larger than the maximum.`);
+  }
+  for (const field of ['audience', 'tone', 'language', 'voiceName'] as const) {
+    if (typeof options[field] !== 'string' || !options[field].trim()) {
+      issues.push(`${path}.${field} must be a non-empty string.`);
+    }
+  }
+  if (speakers !== undefined) {
+    const valid = Array.isArray(speakers) && speakers.every(speaker =>
+      isRecord(speaker) && typeof speaker.name === 'string' && speaker.name.trim() && !speaker.name.includes(':') && typeof speaker.voiceName === 'string');
+    if (!valid) {
+      issues.push(`${path}.speakers must be a list of { name, voiceName }, with names that contain no colon.`);
+    } else if (new Set(speakers.map(speaker => speaker.name.trim().toLowerCase())).size !== speakers.length) {
+      issues.push(`${path}.speakers must have different names.`);
+    }
+  }
+  if (imageMode !== undefined && imageMode !== 'generate' && imageMode !== 'background') {
+    issues.push(`${path}.imageMode must be "generate" or "background".`);
+  }
+  if (quizQuestions !== undefined && (!Number.isInteger(quizQuestions) || quizQuestions < 0 || quizQuestions > MAX_QUIZ_QUESTIONS)) {
+    issues.push(`${path}.quizQuestions must be a whole number from 0 to ${MAX_QUIZ_QUESTIONS}.`);
+  }
+  if (chapters !== undefined && typeof chapters !== 'boolean') {
+    issues.push(`${path}.chapters must be true or false.`);
+  }
+  return issues;
+}
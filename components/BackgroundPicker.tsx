@@ -0,0 +1,86 @@
+import React from 'react';
+import { SlideBackground } from '../types';
+import { toCssBackground } from '../utils/slideImages';
+
+interface BackgroundPickerProps {
+  background: SlideBackground;
+  onChange: (background: SlideBackground) => void;
+  disabled?: boolean;
+}
+
+const GRADIENT_DIRECTIONS = [
+  { angle: 180, label: 'Top to bottom' },
+  { angle: 90, label: 'Left to right' },
+  { angle: 135, label: 'Diagonal' },
+  { angle: 45, label: 'Diagonal, rising' },
+];
+
+const colorInputClassName = "w-8 h-8 bg-transparent border border-gray-600 rounded cursor-pointer disabled:cursor-not-allowed";
+const selectClassName = "bg-gray-700 border border-gray-600 text-white rounded-lg px-2 py-1 focus:ring-2 focus:ring-indigo-500 focus:outline-none";
+
+const BackgroundPicker: React.FC<BackgroundPickerProps> = ({ background, onChange, disabled }) => {
+  // Switching type keeps the colours already chosen
+  const handleTypeChange = (type: SlideBackground['type']) => {
+    if (type === background.type) return;
+    onChange(background.type === 'solid'
+      ? { type: 'gradient', from: background.color, to: '#0f172a', angle: 180 }
+      : { type: 'solid', color: background.from });
+  };
+
+  return (
+    <fieldset disabled={disabled} className="flex flex-wrap items-center gap-3 text-sm text-gray-300">
+      <span
+        className="w-16 h-9 rounded border border-gray-600"
+        style={{ background: toCssBackground(background) }}
+      />
+      <select
+        value={background.type}
+        onChange={(e) => handleTypeChange(e.target.value as SlideBackground['type'])}
+        className={selectClassName}
+      >
+        <option value="solid">Solid colour</option>
+        <option value="gradient">Gradient</option>
+      </select>
+      {background.type === 'solid' ? (
+        <input
+          type="color"
+          title="Colour"
+          value={background.color}
+          onChange={(e) => onChange({ ...background, color: e.target.value })}
+          className={colorInputClassName}
+        />
+      ) : (
+        <>
+          <input
+            type="color"
+            title="Start colour"
+            value={background.from}
+            onChange={(e) => onChange({ ...background, from: e.target.value })}
+            className={colorInputClassName}
+          />
+          <input
+            type="color"
+            title="End colour"
+            value={background.to}
+            onChange={(e) => onChange({ ...background, to: e.target.value })}
+            className={colorInputClassName}
+          />
+          <select
+            value={background.angle}
+            onChange={(e) => onChange({ ...background, angle: Number(e.target.value) })}
+            className={selectClassName}
+          >
+            {!GRADIENT_DIRECTIONS.some(direction => direction.angle === background.angle) && (
+              <option value={background.angle}>{background.angle}°</option>
+            )}
+            {GRADIENT_DIRECTIONS.map(direction => (
+              <option key={direction.angle} value={direction.angle}>{direction.label}</option>
+            ))}
+          </select>
+        </>
+      )}
+    </fieldset>
+  );
+};
+
+export default BackgroundPicker;
@@ -0,0 +1,106 @@
+import React, { useState, useCallback } from 'react';
+import { CACHE_LIMIT_BYTES, CacheEntrySummary, CacheKind, clearCache, deleteCacheEntry, listCacheEntries } from '../services/assetCache';
+import { TrashIcon } from './icons';
+
+const KIND_LABELS: Record<CacheKind, string> = { script: 'Scripts', image: 'Images', speech: 'Narration' };
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+const formatDate = (timestamp: number) => new Date(timestamp).toLocaleString();
+
+// Collapsed by default; entries are only read from IndexedDB once the panel is opened.
+const CacheManager: React.FC<{ disabled?: boolean }> = ({ disabled }) => {
+  const [entries, setEntries] = useState<CacheEntrySummary[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      setEntries(await listCacheEntries());
+      setError(null);
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : 'Could not read the cache.');
+    }
+  }, []);
+
+  const handleDelete = async (key: string) => {
+    try {
+      await deleteCacheEntry(key);
+      await refresh();
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : 'Could not delete the cache entry.');
+    }
+  };
+
+  const handleClear = async () => {
+    if (!window.confirm('Clear all cached scripts, images and narration?')) return;
+    try {
+      await clearCache();
+      await refresh();
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : 'Could not clear the cache.');
+    }
+  };
+
+  const totalBytes = entries?.reduce((sum, entry) => sum + entry.size, 0) ?? 0;
+
+  return (
+    <details className="mt-4" onToggle={(e) => { if ((e.target as HTMLDetailsElement).open) refresh(); }}>
+      <summary className="cursor-pointer text-sm text-gray-400 hover:text-gray-200 select-none">
+        Generation cache
+      </summary>
+      <div className="mt-4 space-y-3">
+        {error && <p className="text-red-400 text-center">{error}</p>}
+        {entries && (
+          <>
+            <div className="flex flex-wrap items-center gap-4 text-sm text-gray-400">
+              <span>
+                {entries.length} entries · {formatBytes(totalBytes)} of {formatBytes(CACHE_LIMIT_BYTES)}
+              </span>
+              {(Object.keys(KIND_LABELS) as CacheKind[]).map(kind => (
+                <span key={kind}>
+                  {KIND_LABELS[kind]}: {entries.filter(entry => entry.kind === kind).length}
+                </span>
+              ))}
+              <button
+                onClick={handleClear}
+                disabled={disabled || entries.length === 0}
+                className="ml-auto px-3 py-1.5 text-sm bg-gray-700 text-gray-200 rounded-lg hover:bg-red-900/50 hover:text-red-300 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                Clear cache
+              </button>
+            </div>
+            <ul className="divide-y divide-gray-700 max-h-64 overflow-y-auto">
+              {entries.map(entry => (
+                <li key={entry.key} className="py-2 flex items-center gap-4">
+                  <div className="flex-grow min-w-0">
+                    <p className="text-sm text-gray-200 truncate">{entry.label || '(empty prompt)'}</p>
+                    <p className="text-xs text-gray-500">
+                      {KIND_LABELS[entry.kind]} · {entry.model} · {formatBytes(entry.size)} · used {formatDate(entry.lastUsed)}
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => handleDelete(entry.key)}
+                    disabled={disabled}
+                    title="Remove from cache"
+                    className="p-2 rounded-lg text-gray-400 hover:bg-red-900/50 hover:text-red-300 disabled:opacity-30 transition-colors"
+                  >
+                    <TrashIcon className="w-4 h-4" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </>
+        )}
+      </div>
+    </details>
+  );
+};
+
+export default CacheManager;
@@ -0,0 +1,238 @@
+import React from 'react';
+import { GenerationOptions, Speaker } from '../types';
+import { DEFAULT_GENERATION_OPTIONS, DEFAULT_SPEAKERS, MAX_QUIZ_QUESTIONS, MAX_SLIDE_COUNT, TONES, VOICES } from '../constants';
+import { isDialogue } from '../utils/speakers';
+import BackgroundPicker from './BackgroundPicker';
+import VoicePreviewButton from './VoicePreviewButton';
+
+interface GenerationOptionsFormProps {
+  options: GenerationOptions;
+  onChange: (options: GenerationOptions) => void;
+  disabled?: boolean;
+}
+
+const inputClassName = "w-full bg-gray-700 border border-gray-600 text-white rounded-lg px-3 py-2 focus:ring-2 focus:ring-indigo-500 focus:outline-none transition";
+
+const voiceOptions = VOICES.map(voice => (
+  <option key={voice.name} value={voice.name}>{voice.name} ({voice.style})</option>
+));
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+const GenerationOptionsForm: React.FC<GenerationOptionsFormProps> = ({ options, onChange, disabled }) => {
+  const update = <K extends keyof GenerationOptions>(field: K, value: GenerationOptions[K]) => {
+    onChange({ ...options, [field]: value });
+  };
+
+  const updateNumber = (field: 'slideCount' | 'minWordsPerSlide' | 'maxWordsPerSlide', raw: string, min: number, max: number) => {
+    const value = parseInt(raw, 10);
+    if (Number.isNaN(value)) return;
+    const next = { ...options, [field]: clamp(value, min, max) };
+    // Keep the word range ordered whichever end was edited
+    if (field === 'minWordsPerSlide' && next.maxWordsPerSlide < next.minWordsPerSlide) {
+      next.maxWordsPerSlide = next.minWordsPerSlide;
+    }
+    if (field === 'maxWordsPerSlide' && next.minWordsPerSlide > next.maxWordsPerSlide) {
+      next.minWordsPerSlide = next.maxWordsPerSlide;
+    }
+    onChange(next);
+  };
+
+  const updateSpeaker = (index: number, changes: Partial<Speaker>) => {
+    update('speakers', options.speakers!.map((speaker, i) => (i === index ? { ...speaker, ...changes } : speaker)));
+  };
+
+  // Turned-off extras are left out rather than stored as 0 or false, so they do not change cache keys
+  const updateQuizQuestions = (raw: string) => {
+    const value = parseInt(raw, 10);
+    if (Number.isNaN(value)) return;
+    const quizQuestions = clamp(value, 0, MAX_QUIZ_QUESTIONS);
+    update('quizQuestions', quizQuestions > 0 ? quizQuestions : undefined);
+  };
+
+  const dialogue = isDialogue(options);
+
+  return (
+    <fieldset disabled={disabled} className="grid grid-cols-1 sm:grid-cols-3 gap-4 text-sm text-gray-300">
+      <label className="flex flex-col gap-1">
+        <span>Slides</span>
+        <input
+          type="number"
+          min={1}
+          max={MAX_SLIDE_COUNT}
+          value={options.slideCount}
+          onChange={(e) => updateNumber('slideCount', e.target.value, 1, MAX_SLIDE_COUNT)}
+          className={inputClassName}
+        />
+      </label>
+      <label className="flex flex-col gap-1">
+        <span>Min words per slide</span>
+        <input
+          type="number"
+          min={5}
+          max={300}
+          value={options.minWordsPerSlide}
+          onChange={(e) => updateNumber('minWordsPerSlide', e.target.value, 5, 300)}
+          className={inputClassName}
+        />
+      </label>
+      <label className="flex flex-col gap-1">
+        <span>Max words per slide</span>
+        <input
+          type="number"
+          min={5}
+          max={300}
+          value={options.maxWordsPerSlide}
+          onChange={(e) => updateNumber('maxWordsPerSlide', e.target.value, 5, 300)}
+          className={inputClassName}
+        />
+      </label>
+      <label className="flex flex-col gap-1">
+        <span>Target audience</span>
+        <input
+          type="text"
+          value={options.audience}
+          onChange={(e) => update('audience', e.target.value)}
+          placeholder="e.g., new employees"
+          className={inputClassName}
+        />
+      </label>
+      <label className="flex flex-col gap-1">
+        <span>Tone</span>
+        <select
+          value={options.tone}
+          onChange={(e) => update('tone', e.target.value)}
+          className={inputClassName}
+        >
+          {TONES.map(tone => (
+            <option key={tone} value={tone}>{tone.charAt(0).toUpperCase() + tone.slice(1)}</option>
+          ))}
+        </select>
+      </label>
+      <label className="flex flex-col gap-1">
+        <span>Language</span>
+        <input
+          type="text"
+          value={options.language}
+          onChange={(e) => update('language', e.target.value)}
+          placeholder="e.g., Spanish"
+          className={inputClassName}
+        />
+      </label>
+      <div className="flex flex-col gap-2 sm:col-span-3">
+        <span>Narration</span>
+        <div className="flex flex-wrap gap-4">
+          <label className="flex items-center gap-2 cursor-pointer">
+            <input
+              type="radio"
+              checked={!dialogue}
+              onChange={() => update('speakers', undefined)}
+              className="accent-indigo-500"
+            />
+            One narrator
+          </label>
+          <label className="flex items-center gap-2 cursor-pointer">
+            <input
+              type="radio"
+              checked={dialogue}
+              onChange={() => update('speakers', DEFAULT_SPEAKERS)}
+              className="accent-indigo-500"
+            />
+            Dialogue between two speakers
+          </label>
+        </div>
+        {dialogue ? (
+          options.speakers!.map((speaker, index) => (
+            <div key={index} className="flex gap-2">
+              <input
+                type="text"
+                value={speaker.name}
+                onChange={(e) => updateSpeaker(index, { name: e.target.value })}
+                placeholder={DEFAULT_SPEAKERS[index].name}
+                aria-label={`Speaker ${index + 1} name`}
+                className={`${inputClassName} sm:w-48`}
+              />
+              <select
+                value={speaker.voiceName}
+                onChange={(e) => updateSpeaker(index, { voiceName: e.target.value })}
+                aria-label={`Speaker ${index + 1} voice`}
+                className={inputClassName}
+              >
+                {voiceOptions}
+              </select>
+              <VoicePreviewButton voiceName={speaker.voiceName} options={options} disabled={disabled} />
+            </div>
+          ))
+        ) : (
+          <div className="flex gap-2">
+            <select
+              value={options.voiceName}
+              onChange={(e) => update('voiceName', e.target.value)}
+              aria-label="Voice"
+              className={inputClassName}
+            >
+              {voiceOptions}
+            </select>
+            <VoicePreviewButton voiceName={options.voiceName} options={options} disabled={disabled} />
+          </div>
+        )}
+      </div>
+      <div className="flex flex-col gap-2 sm:col-span-3">
+        <span>Knowledge checks</span>
+        <div className="flex flex-wrap items-center gap-4">
+          <label className="flex items-center gap-2">
+            <input
+              type="number"
+              min={0}
+              max={MAX_QUIZ_QUESTIONS}
+              value={options.quizQuestions ?? 0}
+              onChange={(e) => updateQuizQuestions(e.target.value)}
+              className={`${inputClassName} w-20`}
+            />
+            Quiz questions, asked during playback
+          </label>
+          <label className="flex items-center gap-2 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={!!options.chapters}
+              onChange={(e) => update('chapters', e.target.checked || undefined)}
+              className="accent-indigo-500"
+            />
+            Group slides into chapters
+          </label>
+        </div>
+      </div>
+      <div className="flex flex-col gap-2 sm:col-span-3">
+        <span>Slide images</span>
+        <div className="flex flex-wrap gap-4">
+          <label className="flex items-center gap-2 cursor-pointer">
+            <input
+              type="radio"
+              checked={options.imageMode !== 'background'}
+              onChange={() => update('imageMode', 'generate')}
+              className="accent-indigo-500"
+            />
+            Generate with AI
+          </label>
+          <label className="flex items-center gap-2 cursor-pointer">
+            <input
+              type="radio"
+              checked={options.imageMode === 'background'}
+              onChange={() => update('imageMode', 'background')}
+              className="accent-indigo-500"
+            />
+            Plain background, no AI images
+          </label>
+        </div>
+        {options.imageMode === 'background' && (
+          <BackgroundPicker
+            background={options.background ?? DEFAULT_GENERATION_OPTIONS.background!}
+            onChange={(background) => update('background', background)}
+          />
+        )}
+      </div>
+    </fieldset>
+  );
+};
+
+export default GenerationOptionsForm;
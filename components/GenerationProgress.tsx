@@ -0,0 +1,98 @@
+import React from 'react';
+import { ASSET_STEPS, AssetStep, PipelineSlide, StepStatus } from '../services/generationPipeline';
+import { toCssBackground } from '../utils/slideImages';
+import { LoadingSpinner, ArrowPathIcon } from './icons';
+
+interface GenerationProgressProps {
+  slides: PipelineSlide[];
+  isRunning: boolean;
+  onCancel: () => void;
+  onRetry: () => void;
+  onDiscard: () => void;
+}
+
+const STEP_LABELS: Record<AssetStep, string> = { image: 'Image', narration: 'Narration' };
+
+const STATUS_STYLES: Record<StepStatus, string> = {
+  pending: 'bg-gray-700 text-gray-400',
+  generating: 'bg-indigo-900/60 text-indigo-300',
+  done: 'bg-emerald-900/50 text-emerald-300',
+  failed: 'bg-red-900/50 text-red-300',
+};
+
+const GenerationProgress: React.FC<GenerationProgressProps> = ({ slides, isRunning, onCancel, onRetry, onDiscard }) => {
+  const totalSteps = slides.length * ASSET_STEPS.length;
+  const doneSteps = slides.reduce((sum, slide) => sum + ASSET_STEPS.filter(step => slide.status[step] === 'done').length, 0);
+  const failedSteps = slides.reduce((sum, slide) => sum + ASSET_STEPS.filter(step => slide.status[step] === 'failed').length, 0);
+
+  return (
+    <div className="w-full max-w-4xl mx-auto space-y-4">
+      <div className="bg-gray-800 rounded-2xl shadow-lg border border-gray-700 p-4 flex flex-wrap items-center gap-4">
+        <div className="flex-grow">
+          <p className="font-semibold text-white">
+            {isRunning ? 'Generating slides...' : failedSteps > 0 ? `${failedSteps} step(s) failed` : 'Generation paused'}
+          </p>
+          <p className="text-sm text-gray-400">{doneSteps} of {totalSteps} assets ready</p>
+        </div>
+        {isRunning ? (
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 bg-gray-700 text-gray-300 font-semibold rounded-lg hover:bg-gray-600 transition-colors"
+          >
+            Cancel
+          </button>
+        ) : (
+          <>
+            <button
+              onClick={onDiscard}
+              className="px-4 py-2 text-gray-400 font-semibold rounded-lg hover:text-white transition-colors"
+            >
+              Start Over
+            </button>
+            <button
+              onClick={onRetry}
+              className="inline-flex items-center px-4 py-2 bg-indigo-600 text-white font-semibold rounded-lg hover:bg-indigo-500 transition-colors"
+            >
+              <ArrowPathIcon className="w-5 h-5 mr-2" />
+              <span>{failedSteps > 0 ? 'Retry Failed' : 'Resume'}</span>
+            </button>
+          </>
+        )}
+      </div>
+
+      <ul className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        {slides.map((slide, index) => (
+          <li key={index} className="bg-gray-800 rounded-2xl border border-gray-700 overflow-hidden">
+            <div className="relative aspect-video bg-black">
+              {slide.imageUrl ? (
+                <img src={slide.imageUrl} alt={slide.slide.title} className="w-full h-full object-cover" />
+              ) : slide.background ? (
+                <div className="w-full h-full" style={{ background: toCssBackground(slide.background) }} />
+              ) : (
+                <div className="w-full h-full flex items-center justify-center text-sm text-gray-500">
+                  {slide.status.image === 'generating' ? <LoadingSpinner /> : 'No image yet'}
+                </div>
+              )}
+              <span className="absolute top-2 left-2 text-xs font-mono bg-black/60 px-2 py-0.5 rounded">{index + 1}</span>
+            </div>
+            <div className="p-3 space-y-2">
+              <p className="font-semibold text-white truncate">{slide.slide.title}</p>
+              <div className="flex gap-2">
+                {ASSET_STEPS.map(step => (
+                  <span key={step} className={`text-xs px-2 py-0.5 rounded ${STATUS_STYLES[slide.status[step]]}`}>
+                    {STEP_LABELS[step]}: {slide.status[step]}
+                  </span>
+                ))}
+              </div>
+              {ASSET_STEPS.map(step => slide.errors[step] && (
+                <p key={step} className="text-xs text-red-400 break-words">{STEP_LABELS[step]}: {slide.errors[step]}</p>
+              ))}
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default GenerationProgress;
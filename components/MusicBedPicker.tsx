@@ -0,0 +1,180 @@
+import React, { useState } from 'react';
+import { MusicBed, MusicSource } from '../types';
+import { DEFAULT_MUSIC_BED, MUSIC_LOOPS } from '../constants';
+import { MUSIC_FILE_ACCEPT, readMusicFile } from '../services/audioMixer';
+import { LoadingSpinner } from './icons';
+
+interface MusicBedPickerProps {
+  music?: MusicBed;
+  // Resolves once the narration track has been remixed and saved; rejects if mixing fails.
+  onApply: (music: MusicBed | undefined) => Promise<void>;
+}
+
+type MusicSettings = Omit<MusicBed, 'source'>;
+
+const buttonClassName = "inline-flex items-center px-3 py-1.5 text-sm bg-gray-700 text-gray-200 rounded-lg hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors";
+const selectClassName = "bg-gray-700 border border-gray-600 text-white rounded-lg px-2 py-1 focus:ring-2 focus:ring-indigo-500 focus:outline-none";
+
+const toPercent = (value: number) => `${Math.round(value * 100)}%`;
+
+// Changes are collected here and mixed only on Apply, since every mix re-renders the whole track.
+const MusicBedPicker: React.FC<MusicBedPickerProps> = ({ music, onApply }) => {
+  const initialSource = music?.source ?? null;
+  const [source, setSource] = useState<MusicSource | null>(initialSource);
+  // Kept while a loop is selected so switching back does not need another upload
+  const [upload, setUpload] = useState<MusicSource | null>(initialSource?.type === 'upload' ? initialSource : null);
+  const [settings, setSettings] = useState<MusicSettings>(() => {
+    const { source: _, ...rest } = music ?? DEFAULT_MUSIC_BED;
+    return rest;
+  });
+  const [isDirty, setIsDirty] = useState(false);
+  const [isReading, setIsReading] = useState(false);
+  const [isApplying, setIsApplying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const changeSource = (next: MusicSource | null) => {
+    setSource(next);
+    setIsDirty(true);
+  };
+
+  const updateSettings = (changes: Partial<MusicSettings>) => {
+    setSettings(prev => ({ ...prev, ...changes }));
+    setIsDirty(true);
+  };
+
+  const handleTrackChange = (value: string) => {
+    if (value === 'none') changeSource(null);
+    else if (value === 'upload') changeSource(upload);
+    else changeSource({ type: 'loop', loopId: value });
+  };
+
+  const handleFile = async (file: File) => {
+    setIsReading(true);
+    setError(null);
+    try {
+      const uploaded: MusicSource = { type: 'upload', name: file.name, dataUrl: await readMusicFile(file) };
+      setUpload(uploaded);
+      changeSource(uploaded);
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : 'Could not read the music file.');
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  const handleApply = async () => {
+    setIsApplying(true);
+    setError(null);
+    try {
+      await onApply(source ? { source, ...settings } : undefined);
+      setIsDirty(false);
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : 'Failed to mix the background music.');
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  const trackValue = !source ? 'none' : source.type === 'upload' ? 'upload' : source.loopId;
+
+  return (
+    <fieldset disabled={isReading || isApplying} className="space-y-3 text-sm text-gray-300">
+      <div className="flex flex-wrap items-center gap-2">
+        <select value={trackValue} onChange={(e) => handleTrackChange(e.target.value)} className={selectClassName}>
+          <option value="none">No music</option>
+          {MUSIC_LOOPS.map(loop => (
+            <option key={loop.id} value={loop.id}>{loop.name}</option>
+          ))}
+          {upload?.type === 'upload' && <option value="upload">{upload.name}</option>}
+        </select>
+        <label className={`${buttonClassName} cursor-pointer`}>
+          {isReading ? 'Reading music...' : 'Upload Music'}
+          <input
+            type="file"
+            accept={MUSIC_FILE_ACCEPT}
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              e.target.value = '';
+              if (file) handleFile(file);
+            }}
+          />
+        </label>
+      </div>
+
+      {source && (
+        <div className="flex flex-wrap items-center gap-4">
+          <label className="flex items-center gap-2">
+            Volume
+            <input
+              type="range"
+              min={0}
+              max={1}
+              step={0.05}
+              value={settings.volume}
+              onChange={(e) => updateSettings({ volume: Number(e.target.value) })}
+              className="w-24 accent-indigo-500"
+            />
+            <span className="font-mono w-10">{toPercent(settings.volume)}</span>
+          </label>
+          <label className="flex items-center gap-2" title="Share of the volume kept while narration is speaking">
+            Under narration
+            <input
+              type="range"
+              min={0}
+              max={1}
+              step={0.05}
+              value={settings.duckLevel}
+              onChange={(e) => updateSettings({ duckLevel: Number(e.target.value) })}
+              className="w-24 accent-indigo-500"
+            />
+            <span className="font-mono w-10">{toPercent(settings.duckLevel)}</span>
+          </label>
+          <label className="flex items-center gap-2">
+            Fade in
+            <input
+              type="number"
+              min={0}
+              max={30}
+              step={0.5}
+              value={settings.fadeIn}
+              onChange={(e) => updateSettings({ fadeIn: Math.max(0, Number(e.target.value) || 0) })}
+              className="w-16 bg-gray-700 border border-gray-600 text-white rounded-lg px-2 py-1"
+            />
+            s
+          </label>
+          <label className="flex items-center gap-2">
+            Fade out
+            <input
+              type="number"
+              min={0}
+              max={30}
+              step={0.5}
+              value={settings.fadeOut}
+              onChange={(e) => updateSettings({ fadeOut: Math.max(0, Number(e.target.value) || 0) })}
+              className="w-16 bg-gray-700 border border-gray-600 text-white rounded-lg px-2 py-1"
+            />
+            s
+          </label>
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-3">
+        <button
+          onClick={handleApply}
+          disabled={!isDirty}
+          className="inline-flex items-center px-3 py-1.5 text-sm bg-indigo-600 text-white rounded-lg hover:bg-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          {isApplying && <LoadingSpinner />}
+          <span>{isApplying ? 'Mixing...' : 'Apply'}</span>
+        </button>
+        <span className="text-gray-500">The music dips automatically while the narration is speaking.</span>
+      </div>
+      {error && <p className="text-red-400">{error}</p>}
+    </fieldset>
+  );
+};
+
+export default MusicBedPicker;
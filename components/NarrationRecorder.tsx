@@ -0,0 +1,297 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  decodeAudioFile,
+  encode,
+  float32ToPcm16,
+  getPcmDuration,
+  getRms,
+  NARRATION_SAMPLE_RATE,
+  normalizePeak,
+  trimSamples,
+} from '../utils/audioUtils';
+import { LoadingSpinner, MicrophoneIcon, PauseIcon, PlayIcon } from './icons';
+
+interface NarrationRecorderProps {
+  // Shown while recording so the presenter can read from it.
+  script: string;
+  onUse: (audioData: string, duration: number) => void;
+  onCancel: () => void;
+}
+
+type Phase = 'idle' | 'recording' | 'processing' | 'review';
+
+// Recordings are stored exactly like TTS clips, so the viewer and exporters need no changes.
+const SAMPLE_RATE = NARRATION_SAMPLE_RATE;
+const MIN_CLIP_SECONDS = 0.2;
+const WAVEFORM_WIDTH = 600;
+const WAVEFORM_HEIGHT = 80;
+
+const buttonClassName = "inline-flex items-center px-3 py-1.5 text-sm bg-gray-700 text-gray-200 rounded-lg hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors";
+
+// Maps an RMS level onto a -60..0 dBFS scale for the meter.
+const meterFraction = (rms: number) => (rms > 0 ? Math.min(1, Math.max(0, (20 * Math.log10(rms) + 60) / 60)) : 0);
+
+const formatSeconds = (seconds: number) => `${seconds.toFixed(1)}s`;
+
+const NarrationRecorder: React.FC<NarrationRecorderProps> = ({ script, onUse, onCancel }) => {
+  const [phase, setPhase] = useState<Phase>('idle');
+  const [error, setError] = useState<string | null>(null);
+  const [elapsed, setElapsed] = useState(0);
+  const [samples, setSamples] = useState<Float32Array | null>(null);
+  const [trim, setTrim] = useState({ start: 0, end: 0 });
+  const [normalize, setNormalize] = useState(true);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const streamRef = useRef<MediaStream | null>(null);
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const meterContextRef = useRef<AudioContext | null>(null);
+  const meterFrameRef = useRef<number | null>(null);
+  const meterBarRef = useRef<HTMLDivElement>(null);
+  const previewRef = useRef<{ context: AudioContext; source: AudioBufferSourceNode } | null>(null);
+  const waveformRef = useRef<HTMLCanvasElement>(null);
+
+  const stopInput = () => {
+    if (meterFrameRef.current !== null) cancelAnimationFrame(meterFrameRef.current);
+    meterFrameRef.current = null;
+    streamRef.current?.getTracks().forEach(track => track.stop());
+    streamRef.current = null;
+    meterContextRef.current?.close();
+    meterContextRef.current = null;
+  };
+
+  const stopPreview = () => {
+    const preview = previewRef.current;
+    previewRef.current = null;
+    if (preview) {
+      preview.source.onended = null;
+      preview.source.stop();
+      preview.context.close();
+    }
+    setIsPreviewing(false);
+  };
+
+  // Leaving the editor mid-recording must release the microphone
+  useEffect(() => () => {
+    const recorder = recorderRef.current;
+    if (recorder && recorder.state !== 'inactive') {
+      recorder.onstop = null;
+      recorder.stop();
+    }
+    stopInput();
+    stopPreview();
+  }, []);
+
+  const startRecording = async () => {
+    setError(null);
+    if (typeof MediaRecorder === 'undefined' || !navigator.mediaDevices?.getUserMedia) {
+      setError('This browser cannot record audio.');
+      return;
+    }
+    let stream: MediaStream;
+    try {
+      stream = await navigator.mediaDevices.getUserMedia({ audio: { echoCancellation: true, noiseSuppression: true } });
+    } catch (err) {
+      console.error(err);
+      setError('Could not use the microphone. Check that one is connected and that this page may use it.');
+      return;
+    }
+    streamRef.current = stream;
+
+    const meterContext = new (window.AudioContext || (window as any).webkitAudioContext)();
+    meterContextRef.current = meterContext;
+    const analyser = meterContext.createAnalyser();
+    analyser.fftSize = 2048;
+    meterContext.createMediaStreamSource(stream).connect(analyser);
+    const frame = new Float32Array(analyser.fftSize);
+    const startedAt = performance.now();
+    const updateMeter = () => {
+      analyser.getFloatTimeDomainData(frame);
+      if (meterBarRef.current) meterBarRef.current.style.width = `${meterFraction(getRms(frame)) * 100}%`;
+      setElapsed(Math.floor((performance.now() - startedAt) / 100) / 10);
+      meterFrameRef.current = requestAnimationFrame(updateMeter);
+    };
+    meterFrameRef.current = requestAnimationFrame(updateMeter);
+
+    const chunks: Blob[] = [];
+    const recorder = new MediaRecorder(stream);
+    recorderRef.current = recorder;
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) chunks.push(event.data);
+    };
+    recorder.onstop = async () => {
+      stopInput();
+      setPhase('processing');
+      try {
+        const decoded = await decodeAudioFile(new Blob(chunks, { type: recorder.mimeType }), SAMPLE_RATE);
+        if (decoded.length < MIN_CLIP_SECONDS * SAMPLE_RATE) throw new Error('The recording is empty.');
+        setSamples(decoded);
+        setTrim({ start: 0, end: decoded.length / SAMPLE_RATE });
+        setPhase('review');
+      } catch (err) {
+        console.error(err);
+        setError(err instanceof Error ? err.message : 'Could not read the recording.');
+        setPhase('idle');
+      }
+    };
+    recorder.start();
+    setElapsed(0);
+    setPhase('recording');
+  };
+
+  const handleRetake = () => {
+    stopPreview();
+    setSamples(null);
+    startRecording();
+  };
+
+  const processed = useMemo(() => {
+    if (!samples) return null;
+    const trimmed = trimSamples(samples, SAMPLE_RATE, trim.start, trim.end);
+    return normalize ? normalizePeak(trimmed) : trimmed;
+  }, [samples, trim, normalize]);
+
+  const handlePreview = () => {
+    if (isPreviewing) {
+      stopPreview();
+      return;
+    }
+    if (!processed || processed.length === 0) return;
+    const context = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: SAMPLE_RATE });
+    const buffer = context.createBuffer(1, processed.length, SAMPLE_RATE);
+    buffer.copyToChannel(processed, 0);
+    const source = context.createBufferSource();
+    source.buffer = buffer;
+    source.connect(context.destination);
+    source.onended = stopPreview;
+    source.start();
+    previewRef.current = { context, source };
+    setIsPreviewing(true);
+  };
+
+  const handleUse = () => {
+    if (!processed || processed.length === 0) return;
+    stopPreview();
+    const pcm = float32ToPcm16(processed);
+    onUse(encode(pcm), getPcmDuration(pcm, SAMPLE_RATE, 1));
+  };
+
+  // Min/max per pixel column, with the trimmed-off ends dimmed
+  useEffect(() => {
+    const ctx = waveformRef.current?.getContext('2d');
+    if (!ctx || !samples) return;
+    ctx.clearRect(0, 0, WAVEFORM_WIDTH, WAVEFORM_HEIGHT);
+    const perColumn = samples.length / WAVEFORM_WIDTH;
+    const duration = samples.length / SAMPLE_RATE;
+    const middle = WAVEFORM_HEIGHT / 2;
+    for (let x = 0; x < WAVEFORM_WIDTH; x++) {
+      let min = 0;
+      let max = 0;
+      const end = Math.min(samples.length, Math.floor((x + 1) * perColumn));
+      for (let i = Math.floor(x * perColumn); i < end; i++) {
+        min = Math.min(min, samples[i]);
+        max = Math.max(max, samples[i]);
+      }
+      const time = (x / WAVEFORM_WIDTH) * duration;
+      ctx.fillStyle = time >= trim.start && time <= trim.end ? '#818cf8' : '#4b5563';
+      ctx.fillRect(x, middle - max * middle, 1, Math.max(1, (max - min) * middle));
+    }
+  }, [samples, trim]);
+
+  const duration = samples ? samples.length / SAMPLE_RATE : 0;
+
+  return (
+    <div className="border border-gray-600 rounded-lg p-3 space-y-3 text-sm text-gray-300">
+      {phase !== 'review' && (
+        <p className="text-gray-400 whitespace-pre-line max-h-32 overflow-y-auto">{script || 'This slide has no narration text yet.'}</p>
+      )}
+
+      {phase === 'idle' && (
+        <div className="flex flex-wrap gap-2">
+          <button onClick={startRecording} className={buttonClassName}>
+            <MicrophoneIcon className="w-4 h-4 mr-2" />
+            <span>Start Recording</span>
+          </button>
+          <button onClick={onCancel} className={buttonClassName}>Cancel</button>
+        </div>
+      )}
+
+      {phase === 'recording' && (
+        <div className="space-y-2">
+          <div className="flex items-center gap-3">
+            <span className="w-2.5 h-2.5 rounded-full bg-red-500 animate-pulse" />
+            <span className="font-mono">{formatSeconds(elapsed)}</span>
+            <div className="flex-grow h-2 bg-gray-700 rounded overflow-hidden" title="Input level">
+              <div ref={meterBarRef} className="h-full bg-gradient-to-r from-green-500 via-yellow-400 to-red-500" style={{ width: '0%' }} />
+            </div>
+          </div>
+          <button onClick={() => recorderRef.current?.stop()} className={buttonClassName}>Stop</button>
+        </div>
+      )}
+
+      {phase === 'processing' && (
+        <div className="flex items-center gap-2 text-gray-400">
+          <LoadingSpinner />
+          <span>Processing recording...</span>
+        </div>
+      )}
+
+      {phase === 'review' && samples && (
+        <div className="space-y-2">
+          <canvas ref={waveformRef} width={WAVEFORM_WIDTH} height={WAVEFORM_HEIGHT} className="w-full h-16 bg-gray-900 rounded" />
+          <div className="flex flex-wrap items-center gap-4">
+            <label className="flex items-center gap-2">
+              Start
+              <input
+                type="range"
+                min={0}
+                max={duration}
+                step={0.05}
+                value={trim.start}
+                onChange={(e) => setTrim(prev => ({ ...prev, start: Math.min(Number(e.target.value), prev.end - MIN_CLIP_SECONDS) }))}
+                className="w-28 accent-indigo-500"
+              />
+              <span className="font-mono w-12">{formatSeconds(trim.start)}</span>
+            </label>
+            <label className="flex items-center gap-2">
+              End
+              <input
+                type="range"
+                min={0}
+                max={duration}
+                step={0.05}
+                value={trim.end}
+                onChange={(e) => setTrim(prev => ({ ...prev, end: Math.max(Number(e.target.value), prev.start + MIN_CLIP_SECONDS) }))}
+                className="w-28 accent-indigo-500"
+              />
+              <span className="font-mono w-12">{formatSeconds(trim.end)}</span>
+            </label>
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input type="checkbox" checked={normalize} onChange={(e) => setNormalize(e.target.checked)} className="accent-indigo-500" />
+              Normalize volume
+            </label>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <button onClick={handlePreview} className={buttonClassName}>
+              {isPreviewing ? <PauseIcon className="w-4 h-4 mr-2" /> : <PlayIcon className="w-4 h-4 mr-2" />}
+              <span>{isPreviewing ? 'Stop' : 'Preview'}</span>
+            </button>
+            <button onClick={handleRetake} className={buttonClassName}>
+              <MicrophoneIcon className="w-4 h-4 mr-2" />
+              <span>Retake</span>
+            </button>
+            <button
+              onClick={handleUse}
+              className="inline-flex items-center px-3 py-1.5 text-sm bg-indigo-600 text-white rounded-lg hover:bg-indigo-500 transition-colors"
+            >
+              Use Recording ({formatSeconds(trim.end - trim.start)})
+            </button>
+            <button onClick={() => { stopPreview(); onCancel(); }} className={buttonClassName}>Cancel</button>
+          </div>
+        </div>
+      )}
+
+      {error && <p className="text-red-400">{error}</p>}
+    </div>
+  );
+};
+
+export default NarrationRecorder;
@@ -1,130 +1,507 @@
-
-import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { GeneratedSlide } from '../types';
-import { PlayIcon, PauseIcon } from './icons';
+import React, { useState, useEffect, useRef, useMemo, useCallback } from 'react';
+import { GeneratedSlide, Theme } from '../types';
+import { buildCaptionCues, toWebVTT } from '../utils/captions';
+import { findChapterAt, getChapters } from '../utils/chapters';
+import { getQuizPoints, isQuizAnswered, QuizAnswers, scoreQuiz } from '../utils/quiz';
+import { getFrameLayers, getSlideIndexAt, getSlideStarts } from '../utils/slideMotion';
+import { drawSlideFrame, loadSlideImage } from '../utils/slideRenderer';
+import { toCssBackground } from '../utils/slideImages';
+import {
+  PlayIcon,
+  PauseIcon,
+  ChevronLeftIcon,
+  ChevronRightIcon,
+  ArrowsPointingOutIcon,
+  ArrowsPointingInIcon,
+} from './icons';
+import QuizOverlay from './QuizOverlay';
 
 interface PresentationViewerProps {
   slides: GeneratedSlide[];
   audioUrl: string;
+  theme: Theme;
 }
 
-const PresentationViewer: React.FC<PresentationViewerProps> = ({ slides, audioUrl }) => {
-  const [currentSlideIndex, setCurrentSlideIndex] = useState(0);
+const PLAYBACK_RATES = [0.75, 1, 1.25, 1.5, 1.75, 2];
+
+// Going back within this many seconds of a slide's start goes to the previous slide instead
+const RESTART_SLIDE_THRESHOLD = 2;
+
+// Playback stops for a quiz this close to the end of its slide, as the audio may end a little early
+const QUIZ_POINT_TOLERANCE = 0.1;
+
+const formatTime = (seconds: number) => {
+  const whole = Math.max(0, Math.floor(seconds));
+  return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, '0')}`;
+};
+
+const isEditableTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+const PresentationViewer: React.FC<PresentationViewerProps> = ({ slides, audioUrl, theme }) => {
+  const [time, setTime] = useState(0);
   const [isPlaying, setIsPlaying] = useState(false);
-  const [slideDurations, setSlideDurations] = useState<number[]>([]);
+  const [showCaptions, setShowCaptions] = useState(true);
+  const [caption, setCaption] = useState('');
+  const [playbackRate, setPlaybackRate] = useState(1);
+  const [isFullscreen, setIsFullscreen] = useState(false);
+  // Bitmaps are tagged with the slides they were decoded for, so stale (closed) ones are never drawn
+  const [loadedImages, setLoadedImages] = useState<{ slides: GeneratedSlide[]; bitmaps: (ImageBitmap | null)[] } | null>(null);
+  const [logo, setLogo] = useState<{ url: string; bitmap: ImageBitmap } | null>(null);
+  const [canvasSize, setCanvasSize] = useState({ width: 0, height: 0 });
+  // The slide whose quiz is showing
+  const [activeQuiz, setActiveQuiz] = useState<number | null>(null);
+  const [quizAnswers, setQuizAnswers] = useState<QuizAnswers>({});
+  const containerRef = useRef<HTMLDivElement>(null);
   const audioRef = useRef<HTMLAudioElement>(null);
-  // Fix: Changed NodeJS.Timeout to number for browser compatibility.
-  const slideTimeoutRef = useRef<number | null>(null);
+  const trackRef = useRef<HTMLTrackElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const timelineRef = useRef<HTMLDivElement>(null);
+  // The time last seen, to tell playing through a quiz point from seeking past it
+  const lastTimeRef = useRef(0);
+
+  // The audio clock drives everything on screen, exactly as frame timestamps drive the exporter
+  const currentSlideIndex = getSlideIndexAt(slides, time);
+  const slideStarts = useMemo(() => getSlideStarts(slides), [slides]);
+  const totalDuration = useMemo(() => slides.reduce((sum, slide) => sum + slide.duration, 0), [slides]);
+  const chapters = useMemo(() => getChapters(slides), [slides]);
+  const quizPoints = useMemo(() => getQuizPoints(slides), [slides]);
+  const quizScore = useMemo(() => scoreQuiz(slides, quizAnswers), [slides, quizAnswers]);
+
+  const captionsUrl = useMemo(
+    () => URL.createObjectURL(new Blob([toWebVTT(buildCaptionCues(slides))], { type: 'text/vtt' })),
+    [slides],
+  );
+
+  useEffect(() => () => URL.revokeObjectURL(captionsUrl), [captionsUrl]);
 
   useEffect(() => {
-    // Estimate slide durations based on narration word count (180 WPM)
-    const averageWPM = 180;
-    const durations = slides.map(slide => {
-      const wordCount = slide.narration.split(/\s+/).length;
-      return (wordCount / averageWPM) * 60 * 1000; // duration in ms
-    });
-    setSlideDurations(durations);
+    let cancelled = false;
+    let loaded: (ImageBitmap | null)[] = [];
+    Promise.all(slides.map(slide => (slide.imageUrl ? loadSlideImage(slide.imageUrl).catch(() => null) : null)))
+      .then(bitmaps => {
+        loaded = bitmaps;
+        if (cancelled) {
+          bitmaps.forEach(bitmap => bitmap?.close());
+        } else {
+          setLoadedImages({ slides, bitmaps });
+        }
+      });
+    return () => {
+      cancelled = true;
+      loaded.forEach(bitmap => bitmap?.close());
+    };
   }, [slides]);
 
-  const scheduleNextSlide = useCallback(() => {
-    if (slideTimeoutRef.current) {
-      clearTimeout(slideTimeoutRef.current);
-    }
-    
-    if (currentSlideIndex < slides.length - 1) {
-      slideTimeoutRef.current = setTimeout(() => {
-        setCurrentSlideIndex(prev => prev + 1);
-      }, slideDurations[currentSlideIndex]);
-    } else {
-      setIsPlaying(false);
-    }
-  }, [currentSlideIndex, slides.length, slideDurations]);
+  useEffect(() => {
+    const url = theme.logoUrl;
+    if (!url) return;
+    let cancelled = false;
+    let loaded: ImageBitmap | null = null;
+    loadSlideImage(url)
+      .then(bitmap => {
+        loaded = bitmap;
+        if (cancelled) bitmap.close();
+        else setLogo({ url, bitmap });
+      })
+      .catch(console.error);
+    return () => {
+      cancelled = true;
+      loaded?.close();
+    };
+  }, [theme.logoUrl]);
 
+  // Match the canvas backing store to its on-screen size so it stays sharp
   useEffect(() => {
-    if (isPlaying) {
-      scheduleNextSlide();
-    } else if (slideTimeoutRef.current) {
-      clearTimeout(slideTimeoutRef.current);
-    }
-    
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const observer = new ResizeObserver(([entry]) => {
+      const scale = window.devicePixelRatio || 1;
+      setCanvasSize({
+        width: Math.round(entry.contentRect.width * scale),
+        height: Math.round(entry.contentRect.height * scale),
+      });
+    });
+    observer.observe(canvas);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx || canvasSize.width === 0) return;
+    const scene = {
+      slides,
+      images: loadedImages?.slides === slides ? loadedImages.bitmaps : [],
+      theme,
+      logo: theme.logoUrl && logo?.url === theme.logoUrl ? logo.bitmap : null,
+    };
+    drawSlideFrame(ctx, getFrameLayers(slides, time), scene, canvasSize.width, canvasSize.height);
+  }, [slides, loadedImages, theme, logo, time, canvasSize]);
+
+  // Slide changes follow the audio element's own events. timeupdate only fires a few times a
+  // second, so while playing the time is also sampled every animation frame for smooth motion.
+  useEffect(() => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    const syncTime = () => setTime(audio.currentTime);
+    const onPlay = () => setIsPlaying(true);
+    const onPause = () => setIsPlaying(false);
+
+    audio.addEventListener('timeupdate', syncTime);
+    audio.addEventListener('seeked', syncTime);
+    audio.addEventListener('ended', syncTime);
+    audio.addEventListener('play', onPlay);
+    audio.addEventListener('pause', onPause);
     return () => {
-      if (slideTimeoutRef.current) {
-        clearTimeout(slideTimeoutRef.current);
-      }
+      audio.removeEventListener('timeupdate', syncTime);
+      audio.removeEventListener('seeked', syncTime);
+      audio.removeEventListener('ended', syncTime);
+      audio.removeEventListener('play', onPlay);
+      audio.removeEventListener('pause', onPause);
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!isPlaying) return;
+    let frame = requestAnimationFrame(function tick() {
+      if (audioRef.current) setTime(audioRef.current.currentTime);
+      frame = requestAnimationFrame(tick);
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [isPlaying]);
+
+  // seek() moves lastTimeRef along with the time, so only playback reaching a quiz point stops
+  // for it. Quizzes already answered are not asked again.
+  useEffect(() => {
+    const previous = lastTimeRef.current;
+    lastTimeRef.current = time;
+    const point = quizPoints.find(({ time: at }) => previous < at - QUIZ_POINT_TOLERANCE && time >= at - QUIZ_POINT_TOLERANCE);
+    if (!point || isQuizAnswered(slides, point.slideIndex, quizAnswers)) return;
+    audioRef.current?.pause();
+    setActiveQuiz(point.slideIndex);
+  }, [time, quizPoints, slides, quizAnswers]);
+
+  useEffect(() => {
+    if (audioRef.current) audioRef.current.playbackRate = playbackRate;
+  }, [playbackRate]);
+
+  useEffect(() => {
+    const onFullscreenChange = () => setIsFullscreen(document.fullscreenElement === containerRef.current);
+    document.addEventListener('fullscreenchange', onFullscreenChange);
+    return () => document.removeEventListener('fullscreenchange', onFullscreenChange);
+  }, []);
+
+  // The track stays hidden so the browser tracks active cues while we render them over the slide
+  useEffect(() => {
+    const track = trackRef.current?.track;
+    if (!track) return;
+    track.mode = 'hidden';
+
+    const onCueChange = () => {
+      const cue = track.activeCues?.[0] as VTTCue | undefined;
+      setCaption(cue?.text ?? '');
     };
-  }, [isPlaying, currentSlideIndex, scheduleNextSlide]);
 
-  const handlePlayPause = () => {
+    track.addEventListener('cuechange', onCueChange);
+    return () => {
+      track.removeEventListener('cuechange', onCueChange);
+    };
+  }, [captionsUrl]);
+
+  const seek = useCallback((target: number) => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    const clamped = Math.min(Math.max(target, 0), totalDuration);
+    audio.currentTime = clamped;
+    lastTimeRef.current = clamped;
+    setActiveQuiz(null);
+    setTime(clamped);
+  }, [totalDuration]);
+
+  const goToSlide = useCallback((index: number) => {
+    seek(slideStarts[Math.min(Math.max(index, 0), slides.length - 1)]);
+  }, [seek, slideStarts, slides.length]);
+
+  const handlePrevious = useCallback(() => {
+    const elapsed = time - slideStarts[currentSlideIndex];
+    goToSlide(elapsed > RESTART_SLIDE_THRESHOLD ? currentSlideIndex : currentSlideIndex - 1);
+  }, [time, slideStarts, currentSlideIndex, goToSlide]);
+
+  const handleNext = useCallback(() => {
+    if (currentSlideIndex < slides.length - 1) goToSlide(currentSlideIndex + 1);
+  }, [currentSlideIndex, slides.length, goToSlide]);
+
+  const handlePlayPause = useCallback(() => {
     const audio = audioRef.current;
     if (!audio) return;
+    // Playing on from an open quiz skips it
+    setActiveQuiz(null);
 
-    if (isPlaying) {
+    if (!audio.paused) {
       audio.pause();
     } else {
-       if (audio.ended || currentSlideIndex === slides.length -1) {
-        setCurrentSlideIndex(0);
-        audio.currentTime = 0;
+      if (audio.ended) {
+        seek(0);
       }
       audio.play().catch(console.error);
     }
-    setIsPlaying(!isPlaying);
+  }, [seek]);
+
+  const handleQuizAnswer = (questionIndex: number, choice: number) => {
+    if (activeQuiz === null) return;
+    setQuizAnswers(prev => {
+      const chosen = [...(prev[activeQuiz] ?? [])];
+      if (chosen[questionIndex] !== undefined) return prev;
+      chosen[questionIndex] = choice;
+      return { ...prev, [activeQuiz]: chosen };
+    });
   };
-  
-  useEffect(() => {
+
+  const handleQuizContinue = () => {
+    setActiveQuiz(null);
     const audio = audioRef.current;
-    if (!audio) return;
-    
-    const onEnded = () => {
-        setIsPlaying(false);
-        setCurrentSlideIndex(slides.length - 1);
-    };
-    
-    audio.addEventListener('ended', onEnded);
-    
-    return () => {
-        audio.removeEventListener('ended', onEnded);
+    if (audio && !audio.ended) audio.play().catch(console.error);
+  };
+
+  const toggleFullscreen = useCallback(() => {
+    if (document.fullscreenElement) {
+      document.exitFullscreen().catch(console.error);
+    } else {
+      containerRef.current?.requestFullscreen().catch(console.error);
+    }
+  }, []);
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.altKey || e.ctrlKey || e.metaKey || isEditableTarget(e.target)) return;
+      switch (e.key) {
+        case ' ':
+          // A focused button already handles space itself
+          if (e.target instanceof HTMLButtonElement) return;
+          handlePlayPause();
+          break;
+        case 'k':
+          handlePlayPause();
+          break;
+        case 'ArrowLeft':
+          if (e.shiftKey) seek(time - 5);
+          else handlePrevious();
+          break;
+        case 'ArrowRight':
+          if (e.shiftKey) seek(time + 5);
+          else handleNext();
+          break;
+        case 'Home':
+          goToSlide(0);
+          break;
+        case 'End':
+          goToSlide(slides.length - 1);
+          break;
+        case 'f':
+          toggleFullscreen();
+          break;
+        case 'c':
+          setShowCaptions(prev => !prev);
+          break;
+        default:
+          return;
+      }
+      e.preventDefault();
     };
-  }, [slides.length]);
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [time, slides.length, seek, goToSlide, handlePrevious, handleNext, handlePlayPause, toggleFullscreen]);
+
+  const seekToPointer = (clientX: number) => {
+    const rect = timelineRef.current?.getBoundingClientRect();
+    if (!rect || rect.width === 0) return;
+    seek(((clientX - rect.left) / rect.width) * totalDuration);
+  };
 
   const currentSlide = slides[currentSlideIndex];
-  const progressPercentage = ((currentSlideIndex + 1) / slides.length) * 100;
+  const currentChapter = findChapterAt(chapters, time);
+  const progressPercentage = totalDuration > 0 ? (time / totalDuration) * 100 : 0;
 
   return (
-    <div className="w-full max-w-4xl mx-auto bg-gray-800 rounded-2xl shadow-2xl overflow-hidden flex flex-col">
-      <div className="relative w-full aspect-video bg-black group">
-        {slides.map((slide, index) => (
-          <img
-            key={index}
-            src={slide.imageUrl}
-            alt={slide.title}
-            className={`absolute inset-0 w-full h-full object-cover transition-opacity duration-700 ease-in-out ${
-              index === currentSlideIndex ? 'opacity-100' : 'opacity-0'
-            }`}
+    <div
+      ref={containerRef}
+      className={`w-full mx-auto bg-gray-800 shadow-2xl overflow-hidden flex flex-col ${
+        isFullscreen ? 'h-full justify-center bg-black' : 'max-w-4xl rounded-2xl'
+      }`}
+    >
+      <div className={`relative aspect-video bg-black group ${isFullscreen ? 'max-h-[calc(100vh-5rem)] w-auto mx-auto max-w-full' : 'w-full'}`}>
+        <canvas
+          ref={canvasRef}
+          width={canvasSize.width || undefined}
+          height={canvasSize.height || undefined}
+          onClick={handlePlayPause}
+          className="absolute inset-0 w-full h-full cursor-pointer"
+          aria-label={currentSlide.title}
+        />
+        {showCaptions && caption && (
+          <div className="absolute inset-x-0 bottom-[6%] flex justify-center pointer-events-none px-6">
+            <p className="text-center text-lg text-white px-3 py-1 rounded bg-black/70 whitespace-pre-line">{caption}</p>
+          </div>
+        )}
+        {activeQuiz !== null && (
+          <QuizOverlay
+            key={activeQuiz}
+            questions={slides[activeQuiz].quiz ?? []}
+            answers={quizAnswers[activeQuiz] ?? []}
+            onAnswer={handleQuizAnswer}
+            onContinue={handleQuizContinue}
           />
-        ))}
-        <div className="absolute inset-0 bg-gradient-to-t from-black/70 via-black/20 to-transparent p-6 flex flex-col justify-end">
-          <h2 className="text-3xl font-bold text-white drop-shadow-lg">{currentSlide.title}</h2>
-          <p className="text-lg text-gray-200 mt-2 drop-shadow-md">{currentSlide.narration}</p>
-        </div>
+        )}
       </div>
 
-      <div className="p-4 bg-gray-700/50 flex items-center gap-4">
-        <button
-          onClick={handlePlayPause}
-          className="p-3 rounded-full bg-indigo-600 hover:bg-indigo-500 text-white transition-colors focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-800 focus:ring-indigo-500"
+      <div className="p-4 bg-gray-700/50 space-y-3">
+        <div
+          ref={timelineRef}
+          role="slider"
+          tabIndex={0}
+          aria-label="Seek"
+          aria-valuemin={0}
+          aria-valuemax={Math.round(totalDuration)}
+          aria-valuenow={Math.round(time)}
+          aria-valuetext={`${formatTime(time)} of ${formatTime(totalDuration)}`}
+          onPointerDown={(e) => {
+            e.currentTarget.setPointerCapture(e.pointerId);
+            seekToPointer(e.clientX);
+          }}
+          onPointerMove={(e) => {
+            if (e.currentTarget.hasPointerCapture(e.pointerId)) seekToPointer(e.clientX);
+          }}
+          className="relative h-4 flex items-center cursor-pointer touch-none"
         >
-          {isPlaying ? <PauseIcon className="w-6 h-6" /> : <PlayIcon className="w-6 h-6" />}
-        </button>
-        <div className="w-full bg-gray-600 rounded-full h-2.5">
-          <div
-            className="bg-indigo-500 h-2.5 rounded-full transition-all duration-300 ease-linear"
-            style={{ width: `${progressPercentage}%` }}
-          ></div>
+          <div className="w-full bg-gray-600 rounded-full h-2">
+            <div className="bg-indigo-500 h-2 rounded-full" style={{ width: `${progressPercentage}%` }}></div>
+          </div>
+          {slideStarts.slice(1).map((start, index) => (
+            <span
+              key={index}
+              className="absolute top-1/2 -translate-y-1/2 w-0.5 h-3 bg-gray-900/70 pointer-events-none"
+              style={{ left: `${(start / totalDuration) * 100}%` }}
+            />
+          ))}
+          {chapters.slice(1).map(chapter => (
+            <span
+              key={chapter.slideIndex}
+              title={chapter.title}
+              className="absolute top-1/2 -translate-y-1/2 -translate-x-1/2 w-1 h-4 rounded-sm bg-amber-400"
+              style={{ left: `${(chapter.start / totalDuration) * 100}%` }}
+            />
+          ))}
+          {quizPoints.map(point => (
+            <span
+              key={point.slideIndex}
+              title={`Quiz: ${slides[point.slideIndex].quiz!.length} question${slides[point.slideIndex].quiz!.length === 1 ? '' : 's'}`}
+              className={`absolute top-1/2 -translate-y-1/2 -translate-x-1/2 w-2.5 h-2.5 rounded-full border-2 border-gray-800 ${
+                isQuizAnswered(slides, point.slideIndex, quizAnswers) ? 'bg-green-400' : 'bg-sky-400'
+              }`}
+              style={{ left: `${(point.time / totalDuration) * 100}%` }}
+            />
+          ))}
         </div>
-        <span className="text-sm font-mono text-gray-400">{currentSlideIndex + 1} / {slides.length}</span>
+
+        <div className="flex items-center gap-3">
+          <button
+            onClick={handlePrevious}
+            title="Previous slide (←)"
+            className="p-2 rounded-full text-gray-300 hover:bg-gray-600 hover:text-white transition-colors"
+          >
+            <ChevronLeftIcon className="w-5 h-5" />
+          </button>
+          <button
+            onClick={handlePlayPause}
+            title={isPlaying ? 'Pause (space)' : 'Play (space)'}
+            className="p-3 rounded-full bg-indigo-600 hover:bg-indigo-500 text-white transition-colors focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-800 focus:ring-indigo-500"
+          >
+            {isPlaying ? <PauseIcon className="w-6 h-6" /> : <PlayIcon className="w-6 h-6" />}
+          </button>
+          <button
+            onClick={handleNext}
+            disabled={currentSlideIndex === slides.length - 1}
+            title="Next slide (→)"
+            className="p-2 rounded-full text-gray-300 hover:bg-gray-600 hover:text-white disabled:opacity-30 transition-colors"
+          >
+            <ChevronRightIcon className="w-5 h-5" />
+          </button>
+          <span className="text-sm font-mono text-gray-400">{formatTime(time)} / {formatTime(totalDuration)}</span>
+          <span className="flex-grow min-w-0 flex justify-end gap-3 text-sm text-gray-400">
+            {currentChapter && <span className="truncate" title="Chapter">{currentChapter.title}</span>}
+            <span className="font-mono">{currentSlideIndex + 1} / {slides.length}</span>
+          </span>
+          {quizScore.total > 0 && (
+            <span className="text-sm font-mono text-gray-400" title={`${quizScore.answered} of ${quizScore.total} questions answered`}>
+              Quiz {quizScore.correct} / {quizScore.total}
+            </span>
+          )}
+          <select
+            value={playbackRate}
+            onChange={(e) => setPlaybackRate(Number(e.target.value))}
+            title="Playback speed"
+            className="bg-gray-700 border border-gray-600 text-gray-200 text-xs rounded px-1 py-1 focus:ring-2 focus:ring-indigo-500 focus:outline-none"
+          >
+            {PLAYBACK_RATES.map(rate => (
+              <option key={rate} value={rate}>{rate}x</option>
+            ))}
+          </select>
+          <button
+            onClick={() => setShowCaptions(prev => !prev)}
+            title={showCaptions ? 'Hide captions (c)' : 'Show captions (c)'}
+            aria-pressed={showCaptions}
+            className={`px-2 py-1 text-xs font-bold rounded border transition-colors ${
+              showCaptions ? 'border-indigo-400 text-indigo-300' : 'border-gray-500 text-gray-500 hover:text-gray-300'
+            }`}
+          >
+            CC
+          </button>
+          <button
+            onClick={toggleFullscreen}
+            title={isFullscreen ? 'Exit fullscreen (f)' : 'Fullscreen (f)'}
+            className="p-2 rounded-full text-gray-300 hover:bg-gray-600 hover:text-white transition-colors"
+          >
+            {isFullscreen ? <ArrowsPointingInIcon className="w-5 h-5" /> : <ArrowsPointingOutIcon className="w-5 h-5" />}
+          </button>
+        </div>
+
+        {!isFullscreen && currentSlide.citations && currentSlide.citations.length > 0 && (
+          <div className="text-xs text-gray-400 space-y-1">
+            <p className="font-semibold text-gray-300">Sources</p>
+            <ul className="space-y-1">
+              {currentSlide.citations.map((citation, index) => (
+                <li key={index}>
+                  <span className="text-gray-300">{citation.source}</span>: <q className="italic">{citation.quote}</q>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {!isFullscreen && (
+          <div className="flex gap-2 overflow-x-auto pb-1">
+            {slides.map((slide, index) => (
+              <button
+                key={index}
+                onClick={() => goToSlide(index)}
+                title={`${index + 1}. ${slide.title}`}
+                aria-current={index === currentSlideIndex}
+                style={slide.background ? { background: toCssBackground(slide.background) } : undefined}
+                className={`relative flex-shrink-0 w-28 aspect-video rounded overflow-hidden border-2 transition-colors ${
+                  index === currentSlideIndex ? 'border-indigo-400' : 'border-transparent opacity-70 hover:opacity-100'
+                }`}
+              >
+                {slide.imageUrl && <img src={slide.imageUrl} alt="" className={`w-full h-full ${slide.imageFit === 'contain' ? 'object-contain' : 'object-cover'}`} />}
+                <span className="absolute bottom-0.5 left-1 text-[10px] font-mono bg-black/60 px-1 rounded">{index + 1}</span>
+              </button>
+            ))}
+          </div>
+        )}
       </div>
 
-      <audio ref={audioRef} src={audioUrl} className="hidden" />
+      <audio ref={audioRef} src={audioUrl} className="hidden">
+        <track ref={trackRef} kind="captions" label="Captions" src={captionsUrl} default />
+      </audio>
     </div>
   );
 };
@@ -0,0 +1,115 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { ProjectSummary } from '../types';
+import { listProjects, renameProject, deleteProject } from '../services/projectStore';
+import { PencilIcon, TrashIcon } from './icons';
+
+interface ProjectLibraryProps {
+  onOpen: (id: string) => void;
+  disabled?: boolean;
+}
+
+const formatDate = (timestamp: number) => new Date(timestamp).toLocaleString();
+
+const ProjectLibrary: React.FC<ProjectLibraryProps> = ({ onOpen, disabled }) => {
+  const [projects, setProjects] = useState<ProjectSummary[]>([]);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      setProjects(await listProjects());
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : 'Could not read saved projects.');
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const handleRename = async (id: string) => {
+    const name = draftName.trim();
+    setRenamingId(null);
+    if (!name) return;
+    try {
+      await renameProject(id, name);
+      await refresh();
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : 'Could not rename the project.');
+    }
+  };
+
+  const handleDelete = async (project: ProjectSummary) => {
+    if (!window.confirm(`Delete "${project.name}"? This cannot be undone.`)) return;
+    try {
+      await deleteProject(project.id);
+      await refresh();
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : 'Could not delete the project.');
+    }
+  };
+
+  if (projects.length === 0 && !error) return null;
+
+  return (
+    <section className="mt-8 pt-6 border-t border-gray-700">
+      <h2 className="text-lg font-bold text-gray-200 mb-2">Saved Presentations</h2>
+      {error && <p className="text-red-400 mb-4 text-center">{error}</p>}
+      <ul className="divide-y divide-gray-700">
+        {projects.map(project => (
+          <li key={project.id} className="py-3 flex items-center gap-4">
+            <div className="flex-grow min-w-0">
+              {renamingId === project.id ? (
+                <input
+                  type="text"
+                  value={draftName}
+                  autoFocus
+                  onChange={(e) => setDraftName(e.target.value)}
+                  onBlur={() => handleRename(project.id)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') handleRename(project.id);
+                    if (e.key === 'Escape') setRenamingId(null);
+                  }}
+                  className="w-full bg-gray-700 border border-gray-600 text-white rounded-lg px-3 py-1 focus:ring-2 focus:ring-indigo-500 focus:outline-none transition"
+                />
+              ) : (
+                <button
+                  onClick={() => onOpen(project.id)}
+                  disabled={disabled}
+                  className="text-left w-full disabled:cursor-not-allowed"
+                >
+                  <p className="font-semibold text-white truncate hover:text-indigo-300 transition-colors">{project.name}</p>
+                  <p className="text-xs text-gray-400">
+                    {project.slideCount} slides · updated {formatDate(project.updatedAt)}
+                  </p>
+                </button>
+              )}
+            </div>
+            <button
+              onClick={() => { setRenamingId(project.id); setDraftName(project.name); }}
+              disabled={disabled}
+              title="Rename"
+              className="p-2 rounded-lg text-gray-400 hover:bg-gray-700 hover:text-white disabled:opacity-30 transition-colors"
+            >
+              <PencilIcon className="w-5 h-5" />
+            </button>
+            <button
+              onClick={() => handleDelete(project)}
+              disabled={disabled}
+              title="Delete"
+              className="p-2 rounded-lg text-gray-400 hover:bg-red-900/50 hover:text-red-300 disabled:opacity-30 transition-colors"
+            >
+              <TrashIcon className="w-5 h-5" />
+            </button>
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+};
+
+export default ProjectLibrary;
@@ -0,0 +1,82 @@
+import React, { useState } from 'react';
+import { QuizQuestion } from '../types';
+
+interface QuizOverlayProps {
+  questions: QuizQuestion[];
+  // The choice already made for each question, if any.
+  answers: number[];
+  onAnswer: (questionIndex: number, choice: number) => void;
+  // Closes the quiz and carries on with the presentation.
+  onContinue: () => void;
+}
+
+// Asks a slide's questions one at a time over the paused slide, starting with the first one
+// not yet answered. Each answer is marked and explained before moving on.
+const QuizOverlay: React.FC<QuizOverlayProps> = ({ questions, answers, onAnswer, onContinue }) => {
+  const [step, setStep] = useState(() => {
+    const unanswered = questions.findIndex((_question, index) => answers[index] === undefined);
+    return unanswered === -1 ? 0 : unanswered;
+  });
+  const question = questions[step];
+  const chosen = answers[step];
+  const isLast = step === questions.length - 1;
+
+  const choiceClass = (index: number) => {
+    if (chosen === undefined) return 'border-gray-600 hover:border-indigo-400 hover:bg-gray-700';
+    if (index === question.answerIndex) return 'border-green-500 bg-green-900/40';
+    if (index === chosen) return 'border-red-500 bg-red-900/40';
+    return 'border-gray-700 opacity-60';
+  };
+
+  return (
+    <div className="absolute inset-0 flex items-center justify-center bg-black/70 p-4 overflow-y-auto">
+      <div role="dialog" aria-label="Quiz" className="w-full max-w-lg bg-gray-800 border border-gray-600 rounded-2xl p-5 space-y-4 shadow-2xl">
+        <div className="flex items-baseline justify-between gap-4">
+          <p className="font-semibold text-gray-100">{question.question}</p>
+          {questions.length > 1 && (
+            <span className="flex-shrink-0 text-xs font-mono text-gray-400">{step + 1} / {questions.length}</span>
+          )}
+        </div>
+        <ul className="space-y-2">
+          {question.choices.map((choice, index) => (
+            <li key={index}>
+              <button
+                onClick={() => onAnswer(step, index)}
+                disabled={chosen !== undefined}
+                className={`w-full text-left text-sm text-gray-200 px-3 py-2 rounded-lg border transition-colors ${choiceClass(index)}`}
+              >
+                {choice}
+              </button>
+            </li>
+          ))}
+        </ul>
+        {chosen !== undefined && (
+          <div className="space-y-1 text-sm">
+            <p className={chosen === question.answerIndex ? 'font-semibold text-green-400' : 'font-semibold text-red-400'}>
+              {chosen === question.answerIndex ? 'Correct!' : 'Not quite.'}
+            </p>
+            <p className="text-gray-300">{question.explanation}</p>
+          </div>
+        )}
+        <div className="flex justify-end gap-2">
+          {chosen === undefined && (
+            <button onClick={onContinue} className="px-3 py-1.5 text-sm text-gray-400 hover:text-gray-200 transition-colors">
+              Skip
+            </button>
+          )}
+          {chosen !== undefined && (
+            <button
+              onClick={() => (isLast ? onContinue() : setStep(step + 1))}
+              autoFocus
+              className="px-4 py-1.5 text-sm bg-indigo-600 text-white rounded-lg hover:bg-indigo-500 transition-colors"
+            >
+              {isLast ? 'Continue' : 'Next question'}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default QuizOverlay;
@@ -0,0 +1,428 @@
+import React, { useState } from 'react';
+import { GeneratedSlide, GenerationOptions, SlideLayout, TransitionType } from '../types';
+import { DEFAULT_GENERATION_OPTIONS, SLIDE_LAYOUTS, VOICES } from '../constants';
+import { generateImageForSlide, generateNarrationAudio, UsageListener } from '../services/geminiService';
+import { getNarrationDuration } from '../utils/audioUtils';
+import { findKenBurnsPreset, getTransition, KEN_BURNS_PRESETS, TRANSITION_LABELS } from '../utils/slideMotion';
+import { getSpeakers, isDialogue, withSlideVoices } from '../utils/speakers';
+import SlideImagePreview from './SlideImagePreview';
+import SlideImageControls from './SlideImageControls';
+import NarrationRecorder from './NarrationRecorder';
+import VoicePreviewButton from './VoicePreviewButton';
+import { LoadingSpinner, MicrophoneIcon, ArrowPathIcon, ChevronUpIcon, ChevronDownIcon, PlusIcon, TrashIcon } from './icons';
+
+interface SlideEditorProps {
+  slides: GeneratedSlide[];
+  // Settings the deck was generated with, so regenerated narration keeps the same voice.
+  options: GenerationOptions;
+  // Called for every request a regeneration makes, so its cost can be added to the project.
+  onUsage?: UsageListener;
+  onSave: (slides: GeneratedSlide[]) => void;
+  onCancel: () => void;
+}
+
+type AssetKind = 'image' | 'narration';
+
+interface DraftSlide {
+  // Stable identity so React keeps inputs attached to the right slide while reordering.
+  key: number;
+  slide: GeneratedSlide;
+  // Set when the text a slide's asset was generated from has been edited since.
+  staleAssets: AssetKind[];
+}
+
+let nextDraftKey = 0;
+
+const toDraft = (slide: GeneratedSlide): DraftSlide => ({ key: nextDraftKey++, slide, staleAssets: [] });
+
+const emptySlide = (): GeneratedSlide => ({
+  title: 'New Slide',
+  narration: '',
+  imagePrompt: '',
+  imageUrl: '',
+  audioData: '',
+  duration: 0,
+});
+
+const SlideEditor: React.FC<SlideEditorProps> = ({ slides, options, onUsage, onSave, onCancel }) => {
+  const [drafts, setDrafts] = useState<DraftSlide[]>(() => slides.map(toDraft));
+  const [busy, setBusy] = useState<Record<number, AssetKind | undefined>>({});
+  const [error, setError] = useState<string | null>(null);
+  // Only one slide records at a time, since they would share the microphone
+  const [recordingKey, setRecordingKey] = useState<number | null>(null);
+
+  const updateDraft = (key: number, update: (draft: DraftSlide) => DraftSlide) => {
+    setDrafts(prev => prev.map(draft => (draft.key === key ? update(draft) : draft)));
+  };
+
+  const handleFieldChange = (key: number, field: 'title' | 'narration' | 'imagePrompt', value: string) => {
+    const staleAsset: AssetKind | null = field === 'narration' ? 'narration' : field === 'imagePrompt' ? 'image' : null;
+    updateDraft(key, draft => ({
+      ...draft,
+      slide: { ...draft.slide, [field]: value },
+      staleAssets: staleAsset && !draft.staleAssets.includes(staleAsset)
+        ? [...draft.staleAssets, staleAsset]
+        : draft.staleAssets,
+    }));
+  };
+
+  // Bullets are kept line for line while typing, so a new empty line survives until saving
+  const handleBulletsChange = (key: number, value: string) => {
+    updateDraft(key, draft => ({ ...draft, slide: { ...draft.slide, bullets: value ? value.split('\n') : undefined } }));
+  };
+
+  const handleChapterChange = (key: number, value: string) => {
+    updateDraft(key, draft => ({ ...draft, slide: { ...draft.slide, chapter: value || undefined } }));
+  };
+
+  const handleLayoutChange = (key: number, layout: SlideLayout | '') => {
+    updateDraft(key, draft => ({ ...draft, slide: { ...draft.slide, layout: layout || undefined } }));
+  };
+
+  // A replaced or removed image no longer depends on the image prompt
+  const handleImageChange = (key: number, changes: Partial<GeneratedSlide>) => {
+    updateDraft(key, draft => ({
+      ...draft,
+      slide: { ...draft.slide, ...changes },
+      staleAssets: 'imageUrl' in changes ? draft.staleAssets.filter(asset => asset !== 'image') : draft.staleAssets,
+    }));
+  };
+
+  const handleRecording = (key: number, audioData: string, duration: number) => {
+    updateDraft(key, draft => ({
+      ...draft,
+      slide: { ...draft.slide, audioData, duration, narrationSource: 'recording' },
+      staleAssets: draft.staleAssets.filter(asset => asset !== 'narration'),
+    }));
+    setRecordingKey(null);
+  };
+
+  // A different voice makes synthesised narration out of date, like edited text does
+  const handleVoiceChange = (key: number, speaker: string, voiceName: string) => {
+    updateDraft(key, draft => {
+      const { [speaker]: _previous, ...others } = draft.slide.voices ?? {};
+      const voices = voiceName ? { ...others, [speaker]: voiceName } : others;
+      const markStale = draft.slide.narrationSource !== 'recording' && !draft.staleAssets.includes('narration');
+      return {
+        ...draft,
+        slide: { ...draft.slide, voices: Object.keys(voices).length > 0 ? voices : undefined },
+        staleAssets: markStale ? [...draft.staleAssets, 'narration'] : draft.staleAssets,
+      };
+    });
+  };
+
+  const handleTransitionChange = (key: number, type: TransitionType) => {
+    updateDraft(key, draft => ({
+      ...draft,
+      slide: { ...draft.slide, transition: { ...getTransition(draft.slide), type } },
+    }));
+  };
+
+  const handleMotionChange = (key: number, preset: string) => {
+    updateDraft(key, draft => ({
+      ...draft,
+      slide: { ...draft.slide, motion: KEN_BURNS_PRESETS[preset]?.motion },
+    }));
+  };
+
+  const handleMove = (index: number, offset: -1 | 1) => {
+    setDrafts(prev => {
+      const target = index + offset;
+      if (target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const handleInsert = (index: number) => {
+    setDrafts(prev => [...prev.slice(0, index + 1), toDraft(emptySlide()), ...prev.slice(index + 1)]);
+  };
+
+  const handleDelete = (key: number) => {
+    setDrafts(prev => (prev.length > 1 ? prev.filter(draft => draft.key !== key) : prev));
+  };
+
+  const handleRegenerate = async (draft: DraftSlide, kind: AssetKind) => {
+    const source = kind === 'image' ? draft.slide.imagePrompt : draft.slide.narration;
+    if (!source.trim()) {
+      setError(kind === 'image' ? 'Enter an image prompt first.' : 'Enter narration text first.');
+      return;
+    }
+
+    setError(null);
+    setBusy(prev => ({ ...prev, [draft.key]: kind }));
+    // Regenerating from unchanged text asks for a new take; edited text may already be cached
+    const cachePolicy = draft.staleAssets.includes(kind) ? 'use' : 'refresh';
+    try {
+      if (kind === 'image') {
+        const base64Image = await generateImageForSlide(source, cachePolicy, onUsage);
+        updateDraft(draft.key, current => ({
+          ...current,
+          slide: { ...current.slide, imageUrl: `data:image/png;base64,${base64Image}`, imageSource: 'generated', imageCrop: undefined },
+          staleAssets: current.staleAssets.filter(asset => asset !== 'image'),
+        }));
+      } else {
+        const base64Audio = await generateNarrationAudio(source, withSlideVoices(options, draft.slide.voices), cachePolicy, onUsage);
+        updateDraft(draft.key, current => ({
+          ...current,
+          slide: {
+            ...current.slide,
+            audioData: base64Audio,
+            duration: getNarrationDuration(base64Audio),
+            narrationSource: undefined,
+          },
+          staleAssets: current.staleAssets.filter(asset => asset !== 'narration'),
+        }));
+      }
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : `Failed to regenerate ${kind}.`);
+    } finally {
+      setBusy(prev => ({ ...prev, [draft.key]: undefined }));
+    }
+  };
+
+  const handleSave = () => {
+    // Slides without an image are fine: they show their background
+    const incomplete = drafts.findIndex(draft => !draft.slide.audioData);
+    if (incomplete !== -1) {
+      setError(`Slide ${incomplete + 1} still needs narration. Generate it before saving.`);
+      return;
+    }
+    onSave(drafts.map(({ slide }) => {
+      const bullets = slide.bullets?.map(bullet => bullet.trim()).filter(Boolean);
+      return { ...slide, bullets: bullets && bullets.length > 0 ? bullets : undefined, chapter: slide.chapter?.trim() || undefined };
+    }));
+  };
+
+  const isBusy = Object.values(busy).some(Boolean) || recordingKey !== null;
+  const speakers = getSpeakers(options);
+
+  return (
+    <div className="w-full max-w-4xl mx-auto space-y-4">
+      {drafts.map((draft, index) => {
+        const { slide } = draft;
+        const slideBusy = busy[draft.key];
+        return (
+          <div key={draft.key} className="bg-gray-800 rounded-2xl shadow-lg border border-gray-700 p-4 flex flex-col sm:flex-row gap-4">
+            <div className="sm:w-56 flex-shrink-0 space-y-2">
+              <div className="relative aspect-video bg-black rounded-lg overflow-hidden">
+                {slide.imageUrl || slide.background ? (
+                  <SlideImagePreview slide={slide} />
+                ) : (
+                  <div className="w-full h-full flex items-center justify-center text-sm text-gray-500">No image</div>
+                )}
+                <span className="absolute top-2 left-2 text-xs font-mono bg-black/60 px-2 py-0.5 rounded">{index + 1}</span>
+              </div>
+              <p className="text-xs text-gray-400">
+                {slide.audioData
+                  ? `Narration: ${slide.duration.toFixed(1)}s${slide.narrationSource === 'recording' ? ' (recorded)' : ''}`
+                  : 'No narration audio yet'}
+              </p>
+              {draft.staleAssets.length > 0 && (
+                <p className="text-xs text-amber-400">
+                  Edited since generation: {draft.staleAssets.join(' and ')}
+                </p>
+              )}
+            </div>
+
+            <div className="flex-grow space-y-3">
+              <input
+                type="text"
+                value={slide.chapter ?? ''}
+                onChange={(e) => handleChapterChange(draft.key, e.target.value)}
+                placeholder="Starts a chapter titled… (optional)"
+                className="w-full bg-gray-700 border border-gray-600 text-amber-200 text-sm rounded-lg px-3 py-1.5 focus:ring-2 focus:ring-indigo-500 focus:outline-none transition"
+              />
+              <input
+                type="text"
+                value={slide.title}
+                onChange={(e) => handleFieldChange(draft.key, 'title', e.target.value)}
+                placeholder="Slide title"
+                className="w-full bg-gray-700 border border-gray-600 text-white rounded-lg px-3 py-2 focus:ring-2 focus:ring-indigo-500 focus:outline-none transition"
+              />
+              <textarea
+                value={slide.narration}
+                onChange={(e) => handleFieldChange(draft.key, 'narration', e.target.value)}
+                placeholder="Narration"
+                rows={3}
+                className="w-full bg-gray-700 border border-gray-600 text-white rounded-lg px-3 py-2 focus:ring-2 focus:ring-indigo-500 focus:outline-none transition"
+              />
+              <textarea
+                value={slide.bullets?.join('\n') ?? ''}
+                onChange={(e) => handleBulletsChange(draft.key, e.target.value)}
+                placeholder="On-slide bullet points, one per line"
+                rows={3}
+                className="w-full bg-gray-700 border border-gray-600 text-white text-sm rounded-lg px-3 py-2 focus:ring-2 focus:ring-indigo-500 focus:outline-none transition"
+              />
+              <textarea
+                value={slide.imagePrompt}
+                onChange={(e) => handleFieldChange(draft.key, 'imagePrompt', e.target.value)}
+                placeholder="Image prompt"
+                rows={2}
+                className="w-full bg-gray-700 border border-gray-600 text-gray-300 text-sm rounded-lg px-3 py-2 focus:ring-2 focus:ring-indigo-500 focus:outline-none transition"
+              />
+              <div className="flex flex-wrap gap-2">
+                <button
+                  onClick={() => handleRegenerate(draft, 'image')}
+                  disabled={!!slideBusy}
+                  className="inline-flex items-center px-3 py-1.5 text-sm bg-gray-700 text-gray-200 rounded-lg hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                >
+                  {slideBusy === 'image' ? <LoadingSpinner /> : <ArrowPathIcon className="w-4 h-4 mr-2" />}
+                  <span>{slide.imageSource === 'upload' || !slide.imageUrl ? 'Generate Image' : 'Regenerate Image'}</span>
+                </button>
+                <button
+                  onClick={() => handleRegenerate(draft, 'narration')}
+                  disabled={!!slideBusy}
+                  className="inline-flex items-center px-3 py-1.5 text-sm bg-gray-700 text-gray-200 rounded-lg hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                >
+                  {slideBusy === 'narration' ? <LoadingSpinner /> : <ArrowPathIcon className="w-4 h-4 mr-2" />}
+                  <span>{slide.narrationSource === 'recording' ? 'Use AI Voice' : 'Regenerate Narration'}</span>
+                </button>
+                <button
+                  onClick={() => setRecordingKey(draft.key)}
+                  disabled={!!slideBusy || recordingKey !== null}
+                  className="inline-flex items-center px-3 py-1.5 text-sm bg-gray-700 text-gray-200 rounded-lg hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                >
+                  <MicrophoneIcon className="w-4 h-4 mr-2" />
+                  <span>{slide.narrationSource === 'recording' ? 'Re-record Voice-over' : 'Record Voice-over'}</span>
+                </button>
+              </div>
+              {recordingKey === draft.key && (
+                <NarrationRecorder
+                  script={slide.narration}
+                  onUse={(audioData, duration) => handleRecording(draft.key, audioData, duration)}
+                  onCancel={() => setRecordingKey(null)}
+                />
+              )}
+              <SlideImageControls
+                slide={slide}
+                defaultBackground={options.background ?? DEFAULT_GENERATION_OPTIONS.background!}
+                onChange={(changes) => handleImageChange(draft.key, changes)}
+                disabled={slideBusy === 'image'}
+              />
+              <div className="flex flex-wrap gap-4 text-sm text-gray-400">
+                <label className="flex items-center gap-2">
+                  Layout
+                  <select
+                    value={slide.layout ?? ''}
+                    onChange={(e) => handleLayoutChange(draft.key, e.target.value as SlideLayout | '')}
+                    className="bg-gray-700 border border-gray-600 text-white rounded-lg px-2 py-1 focus:ring-2 focus:ring-indigo-500 focus:outline-none"
+                  >
+                    <option value="">Theme default</option>
+                    {(Object.keys(SLIDE_LAYOUTS) as SlideLayout[]).map(layout => (
+                      <option key={layout} value={layout}>{SLIDE_LAYOUTS[layout]}</option>
+                    ))}
+                  </select>
+                </label>
+                <label className="flex items-center gap-2">
+                  Transition in
+                  <select
+                    value={getTransition(slide).type}
+                    disabled={index === 0}
+                    title={index === 0 ? 'The first slide has nothing to transition from' : undefined}
+                    onChange={(e) => handleTransitionChange(draft.key, e.target.value as TransitionType)}
+                    className="bg-gray-700 border border-gray-600 text-white rounded-lg px-2 py-1 focus:ring-2 focus:ring-indigo-500 focus:outline-none disabled:opacity-50"
+                  >
+                    {(Object.keys(TRANSITION_LABELS) as TransitionType[]).map(type => (
+                      <option key={type} value={type}>{TRANSITION_LABELS[type]}</option>
+                    ))}
+                  </select>
+                </label>
+                <label className="flex items-center gap-2">
+                  Motion
+                  <select
+                    value={findKenBurnsPreset(slide.motion) ?? ''}
+                    onChange={(e) => handleMotionChange(draft.key, e.target.value)}
+                    className="bg-gray-700 border border-gray-600 text-white rounded-lg px-2 py-1 focus:ring-2 focus:ring-indigo-500 focus:outline-none"
+                  >
+                    {findKenBurnsPreset(slide.motion) === null && <option value="" disabled>Custom</option>}
+                    {Object.entries(KEN_BURNS_PRESETS).map(([key, preset]) => (
+                      <option key={key} value={key}>{preset.label}</option>
+                    ))}
+                  </select>
+                </label>
+                {speakers.map(speaker => {
+                  const voiceName = slide.voices?.[speaker.name] ?? '';
+                  return (
+                    <div key={speaker.name} className="flex items-center gap-2">
+                      <label className="flex items-center gap-2">
+                        {!isDialogue(options) ? 'Voice' : `${speaker.name}'s voice`}
+                        <select
+                          value={voiceName}
+                          onChange={(e) => handleVoiceChange(draft.key, speaker.name, e.target.value)}
+                          className="bg-gray-700 border border-gray-600 text-white rounded-lg px-2 py-1 focus:ring-2 focus:ring-indigo-500 focus:outline-none"
+                        >
+                          <option value="">Deck voice ({speaker.voiceName})</option>
+                          {VOICES.map(voice => (
+                            <option key={voice.name} value={voice.name}>{voice.name} ({voice.style})</option>
+                          ))}
+                        </select>
+                      </label>
+                      <VoicePreviewButton voiceName={voiceName || speaker.voiceName} options={options} />
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+
+            <div className="flex sm:flex-col gap-1 justify-end sm:justify-start">
+              <button
+                onClick={() => handleMove(index, -1)}
+                disabled={index === 0}
+                title="Move up"
+                className="p-2 rounded-lg text-gray-400 hover:bg-gray-700 hover:text-white disabled:opacity-30 disabled:cursor-not-allowed transition-colors"
+              >
+                <ChevronUpIcon className="w-5 h-5" />
+              </button>
+              <button
+                onClick={() => handleMove(index, 1)}
+                disabled={index === drafts.length - 1}
+                title="Move down"
+                className="p-2 rounded-lg text-gray-400 hover:bg-gray-700 hover:text-white disabled:opacity-30 disabled:cursor-not-allowed transition-colors"
+              >
+                <ChevronDownIcon className="w-5 h-5" />
+              </button>
+              <button
+                onClick={() => handleInsert(index)}
+                title="Insert slide after"
+                className="p-2 rounded-lg text-gray-400 hover:bg-gray-700 hover:text-white transition-colors"
+              >
+                <PlusIcon className="w-5 h-5" />
+              </button>
+              <button
+                onClick={() => handleDelete(draft.key)}
+                disabled={drafts.length === 1 || !!slideBusy || recordingKey === draft.key}
+                title="Delete slide"
+                className="p-2 rounded-lg text-gray-400 hover:bg-red-900/50 hover:text-red-300 disabled:opacity-30 disabled:cursor-not-allowed transition-colors"
+              >
+                <TrashIcon className="w-5 h-5" />
+              </button>
+            </div>
+          </div>
+        );
+      })}
+
+      {error && <p className="text-red-400 text-center">{error}</p>}
+
+      <div className="text-center flex flex-wrap justify-center gap-4">
+        <button
+          onClick={onCancel}
+          className="px-6 py-2 bg-gray-700 text-gray-300 font-semibold rounded-lg hover:bg-gray-600 transition-colors"
+        >
+          Discard Changes
+        </button>
+        <button
+          onClick={handleSave}
+          disabled={isBusy}
+          className="inline-flex items-center justify-center px-6 py-2 bg-indigo-600 text-white font-semibold rounded-lg shadow-md hover:bg-indigo-500 disabled:bg-indigo-400/50 disabled:cursor-not-allowed transition-colors focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-900 focus:ring-indigo-500"
+        >
+          Save Changes
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default SlideEditor;
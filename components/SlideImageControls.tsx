@@ -0,0 +1,135 @@
+import React, { useState } from 'react';
+import { GeneratedSlide, ImageFit, SlideBackground } from '../types';
+import { cropFromFocus, CropFocus, focusFromCrop, IMAGE_FILE_ACCEPT, readImageFile } from '../utils/slideImages';
+import BackgroundPicker from './BackgroundPicker';
+
+interface SlideImageControlsProps {
+  slide: GeneratedSlide;
+  // Used when a slide switches from an image to a plain background.
+  defaultBackground: SlideBackground;
+  onChange: (changes: Partial<GeneratedSlide>) => void;
+  disabled?: boolean;
+}
+
+const buttonClassName = "inline-flex items-center px-3 py-1.5 text-sm bg-gray-700 text-gray-200 rounded-lg hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors";
+
+const SlideImageControls: React.FC<SlideImageControlsProps> = ({ slide, defaultBackground, onChange, disabled }) => {
+  const [isReading, setIsReading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const focus = focusFromCrop(slide.imageCrop);
+
+  const handleFile = async (file: File) => {
+    setIsReading(true);
+    setError(null);
+    try {
+      const imageUrl = await readImageFile(file);
+      // A new image starts uncropped
+      onChange({ imageUrl, imageSource: 'upload', imageCrop: undefined });
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : 'Could not read the image.');
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  const updateFocus = (changes: Partial<CropFocus>) => {
+    const next = { ...focus, ...changes };
+    onChange({ imageCrop: next.zoom > 1 ? cropFromFocus(next) : undefined });
+  };
+
+  return (
+    <fieldset disabled={disabled || isReading} className="space-y-2 text-sm text-gray-400">
+      <div className="flex flex-wrap items-center gap-2">
+        <label className={`${buttonClassName} cursor-pointer`}>
+          {isReading ? 'Reading image...' : slide.imageUrl ? 'Replace with Upload' : 'Upload Image'}
+          <input
+            type="file"
+            accept={IMAGE_FILE_ACCEPT}
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              e.target.value = '';
+              if (file) handleFile(file);
+            }}
+          />
+        </label>
+        {slide.imageUrl && (
+          <button
+            onClick={() => onChange({ imageUrl: '', imageSource: undefined, imageCrop: undefined, background: slide.background ?? defaultBackground })}
+            className={buttonClassName}
+          >
+            Use Plain Background
+          </button>
+        )}
+        {slide.imageSource === 'upload' && <span className="text-xs text-gray-500">Uploaded image</span>}
+      </div>
+
+      {slide.imageUrl ? (
+        <div className="flex flex-wrap items-center gap-4">
+          <label className="flex items-center gap-2">
+            Fit
+            <select
+              value={slide.imageFit ?? 'cover'}
+              onChange={(e) => onChange({ imageFit: e.target.value === 'cover' ? undefined : e.target.value as ImageFit })}
+              className="bg-gray-700 border border-gray-600 text-white rounded-lg px-2 py-1 focus:ring-2 focus:ring-indigo-500 focus:outline-none"
+            >
+              <option value="cover">Fill the slide</option>
+              <option value="contain">Show the whole image</option>
+            </select>
+          </label>
+          <label className="flex items-center gap-2">
+            Zoom
+            <input
+              type="range"
+              min={1}
+              max={4}
+              step={0.05}
+              value={focus.zoom}
+              onChange={(e) => updateFocus({ zoom: Number(e.target.value) })}
+              className="w-24 accent-indigo-500"
+            />
+          </label>
+          <label className="flex items-center gap-2">
+            Horizontal
+            <input
+              type="range"
+              min={0}
+              max={1}
+              step={0.01}
+              value={focus.focusX}
+              disabled={focus.zoom <= 1}
+              onChange={(e) => updateFocus({ focusX: Number(e.target.value) })}
+              className="w-20 accent-indigo-500 disabled:opacity-40"
+            />
+          </label>
+          <label className="flex items-center gap-2">
+            Vertical
+            <input
+              type="range"
+              min={0}
+              max={1}
+              step={0.01}
+              value={focus.focusY}
+              disabled={focus.zoom <= 1}
+              onChange={(e) => updateFocus({ focusY: Number(e.target.value) })}
+              className="w-20 accent-indigo-500 disabled:opacity-40"
+            />
+          </label>
+        </div>
+      ) : slide.background ? (
+        <BackgroundPicker background={slide.background} onChange={(background) => onChange({ background })} />
+      ) : (
+        <div className="flex flex-wrap items-center gap-2">
+          <span>Shows the theme background.</span>
+          <button onClick={() => onChange({ background: defaultBackground })} className={buttonClassName}>
+            Set Background
+          </button>
+        </div>
+      )}
+      {error && <p className="text-red-400">{error}</p>}
+    </fieldset>
+  );
+};
+
+export default SlideImageControls;
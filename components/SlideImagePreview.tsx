@@ -0,0 +1,48 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { GeneratedSlide } from '../types';
+import { drawBackground, drawImageFitted, loadSlideImage } from '../utils/slideRenderer';
+
+interface SlideImagePreviewProps {
+  slide: GeneratedSlide;
+}
+
+const PREVIEW_WIDTH = 448;
+const PREVIEW_HEIGHT = 252;
+
+// The slide's image as the renderer will crop and fit it, on the slide's background.
+const SlideImagePreview: React.FC<SlideImagePreviewProps> = ({ slide }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [image, setImage] = useState<{ url: string; bitmap: ImageBitmap } | null>(null);
+
+  useEffect(() => {
+    const url = slide.imageUrl;
+    if (!url) return;
+    let cancelled = false;
+    let loaded: ImageBitmap | null = null;
+    loadSlideImage(url)
+      .then(bitmap => {
+        loaded = bitmap;
+        if (cancelled) bitmap.close();
+        else setImage({ url, bitmap });
+      })
+      .catch(console.error);
+    return () => {
+      cancelled = true;
+      loaded?.close();
+    };
+  }, [slide.imageUrl]);
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+    const box = { x: 0, y: 0, width: PREVIEW_WIDTH, height: PREVIEW_HEIGHT };
+    drawBackground(ctx, slide.background ?? { type: 'solid', color: '#000000' }, box);
+    if (image && image.url === slide.imageUrl) {
+      drawImageFitted(ctx, image.bitmap, box, undefined, slide.imageCrop, slide.imageFit);
+    }
+  }, [slide.imageUrl, slide.imageCrop, slide.imageFit, slide.background, image]);
+
+  return <canvas ref={canvasRef} width={PREVIEW_WIDTH} height={PREVIEW_HEIGHT} className="w-full h-full" aria-label={slide.title} />;
+};
+
+export default SlideImagePreview;
@@ -0,0 +1,105 @@
+import React, { useState } from 'react';
+import { SourceDocument } from '../types';
+import { createNoteSource, getTotalSourceSize, MAX_SOURCE_BYTES, readSourceFile, SOURCE_FILE_ACCEPT } from '../utils/sourceDocuments';
+import { PlusIcon, TrashIcon } from './icons';
+
+interface SourceDocumentsInputProps {
+  sources: SourceDocument[];
+  onChange: (sources: SourceDocument[]) => void;
+  disabled?: boolean;
+}
+
+const formatSize = (bytes: number) => (bytes < 1024 * 1024 ? `${Math.max(1, Math.round(bytes / 1024))} KB` : `${(bytes / (1024 * 1024)).toFixed(1)} MB`);
+
+const SourceDocumentsInput: React.FC<SourceDocumentsInputProps> = ({ sources, onChange, disabled }) => {
+  const [notes, setNotes] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const addSources = (added: SourceDocument[]) => {
+    const next = [...sources, ...added];
+    if (getTotalSourceSize(next) > MAX_SOURCE_BYTES) {
+      setError(`Sources can add up to at most ${MAX_SOURCE_BYTES / (1024 * 1024)} MB.`);
+      return;
+    }
+    setError(null);
+    onChange(next);
+  };
+
+  const handleFiles = async (files: File[]) => {
+    try {
+      addSources(await Promise.all(files.map(readSourceFile)));
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : 'Could not read the file.');
+    }
+  };
+
+  const handleAddNotes = () => {
+    const text = notes.trim();
+    if (!text) return;
+    const noteCount = sources.filter(source => source.name.startsWith('Notes ')).length;
+    addSources([createNoteSource(text, noteCount + 1)]);
+    setNotes('');
+  };
+
+  return (
+    <fieldset disabled={disabled} className="space-y-3 text-sm text-gray-300">
+      <p className="text-gray-400">
+        Attach text, Markdown or PDF files, or paste notes, and the script will be based on them with each slide citing its source.
+      </p>
+      {sources.length > 0 && (
+        <ul className="divide-y divide-gray-700 border border-gray-700 rounded-lg">
+          {sources.map(source => (
+            <li key={source.id} className="px-3 py-2 flex items-center gap-3">
+              <span className="flex-grow truncate">{source.name}</span>
+              <span className="text-xs text-gray-500">{formatSize(source.size)}</span>
+              <button
+                onClick={() => onChange(sources.filter(item => item.id !== source.id))}
+                title="Remove source"
+                className="p-1 rounded text-gray-400 hover:bg-red-900/50 hover:text-red-300 transition-colors"
+              >
+                <TrashIcon className="w-4 h-4" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      <textarea
+        value={notes}
+        onChange={(e) => setNotes(e.target.value)}
+        placeholder="Paste notes or an outline..."
+        rows={3}
+        className="w-full bg-gray-700 border border-gray-600 text-white rounded-lg px-3 py-2 focus:ring-2 focus:ring-indigo-500 focus:outline-none transition"
+      />
+      <div className="flex flex-wrap gap-2">
+        <button
+          onClick={handleAddNotes}
+          disabled={!notes.trim()}
+          className="inline-flex items-center px-3 py-1.5 bg-gray-700 text-gray-200 rounded-lg hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          <PlusIcon className="w-4 h-4 mr-2" />
+          <span>Add Notes</span>
+        </button>
+        <label className="inline-flex items-center px-3 py-1.5 bg-gray-700 text-gray-200 rounded-lg hover:bg-gray-600 cursor-pointer transition-colors">
+          <PlusIcon className="w-4 h-4 mr-2" />
+          <span>Attach Files</span>
+          <input
+            type="file"
+            multiple
+            accept={SOURCE_FILE_ACCEPT}
+            className="hidden"
+            onChange={(e) => {
+              const files: File[] = [];
+              for (const file of e.target.files ?? []) files.push(file);
+              e.target.value = '';
+              if (files.length > 0) handleFiles(files);
+            }}
+          />
+        </label>
+      </div>
+      {error && <p className="text-red-400">{error}</p>}
+    </fieldset>
+  );
+};
+
+export default SourceDocumentsInput;
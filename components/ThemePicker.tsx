@@ -0,0 +1,126 @@
+import React from 'react';
+import { SlideLayout, Theme } from '../types';
+import { FONTS, SLIDE_LAYOUTS, THEMES } from '../constants';
+import { TrashIcon } from './icons';
+
+interface ThemePickerProps {
+  theme: Theme;
+  onChange: (theme: Theme) => void;
+}
+
+const selectClassName = "bg-gray-700 border border-gray-600 text-white rounded-lg px-2 py-1 focus:ring-2 focus:ring-indigo-500 focus:outline-none";
+
+const readAsDataUrl = (file: File) => new Promise<string>((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(reader.result as string);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(file);
+});
+
+const ThemePicker: React.FC<ThemePickerProps> = ({ theme, onChange }) => {
+  // Any manual change turns a preset into the deck's own custom theme
+  const update = <K extends keyof Theme>(field: K, value: Theme[K]) => {
+    onChange({ ...theme, id: 'custom', name: 'Custom', [field]: value });
+  };
+
+  const handleLogo = async (file: File) => {
+    try {
+      update('logoUrl', await readAsDataUrl(file));
+    } catch (err) {
+      console.error('Could not read logo', err);
+    }
+  };
+
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 text-sm text-gray-300">
+      <label className="flex items-center justify-between gap-2">
+        Preset
+        <select
+          value={THEMES.some(preset => preset.id === theme.id) ? theme.id : ''}
+          onChange={(e) => {
+            const preset = THEMES.find(item => item.id === e.target.value);
+            // Presets replace everything except the deck's logo
+            if (preset) onChange({ ...preset, logoUrl: theme.logoUrl });
+          }}
+          className={selectClassName}
+        >
+          {!THEMES.some(preset => preset.id === theme.id) && <option value="" disabled>{theme.name}</option>}
+          {THEMES.map(preset => (
+            <option key={preset.id} value={preset.id}>{preset.name}</option>
+          ))}
+        </select>
+      </label>
+      <label className="flex items-center justify-between gap-2">
+        Default layout
+        <select
+          value={theme.defaultLayout}
+          onChange={(e) => update('defaultLayout', e.target.value as SlideLayout)}
+          className={selectClassName}
+        >
+          {(Object.keys(SLIDE_LAYOUTS) as SlideLayout[]).map(layout => (
+            <option key={layout} value={layout}>{SLIDE_LAYOUTS[layout]}</option>
+          ))}
+        </select>
+      </label>
+      <div className="flex items-center justify-between gap-2">
+        Colours
+        <span className="flex gap-2">
+          {([['backgroundColor', 'Background'], ['textColor', 'Text'], ['accentColor', 'Accent']] as const).map(([field, label]) => (
+            <input
+              key={field}
+              type="color"
+              title={label}
+              value={theme[field]}
+              onChange={(e) => update(field, e.target.value)}
+              className="w-8 h-8 bg-transparent border border-gray-600 rounded cursor-pointer"
+            />
+          ))}
+        </span>
+      </div>
+      <div className="flex items-center justify-between gap-2">
+        Logo
+        <span className="flex items-center gap-2">
+          {theme.logoUrl && (
+            <>
+              <img src={theme.logoUrl} alt="Logo" className="h-8 max-w-[6rem] object-contain bg-gray-900 rounded" />
+              <button
+                onClick={() => update('logoUrl', undefined)}
+                title="Remove logo"
+                className="p-1 rounded text-gray-400 hover:bg-red-900/50 hover:text-red-300 transition-colors"
+              >
+                <TrashIcon className="w-4 h-4" />
+              </button>
+            </>
+          )}
+          <label className="px-3 py-1 bg-gray-700 text-gray-200 rounded-lg hover:bg-gray-600 cursor-pointer transition-colors">
+            {theme.logoUrl ? 'Replace' : 'Upload'}
+            <input
+              type="file"
+              accept="image/png,image/jpeg,image/webp"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                e.target.value = '';
+                if (file) handleLogo(file);
+              }}
+            />
+          </label>
+        </span>
+      </div>
+      <label className="flex items-center justify-between gap-2">
+        Title font
+        <select value={theme.titleFont} onChange={(e) => update('titleFont', e.target.value)} className={selectClassName}>
+          {FONTS.map(item => <option key={item.label} value={item.value}>{item.label}</option>)}
+        </select>
+      </label>
+      <label className="flex items-center justify-between gap-2">
+        Body font
+        <select value={theme.bodyFont} onChange={(e) => update('bodyFont', e.target.value)} className={selectClassName}>
+          {FONTS.map(item => <option key={item.label} value={item.value}>{item.label}</option>)}
+        </select>
+      </label>
+    </div>
+  );
+};
+
+export default ThemePicker;
@@ -0,0 +1,161 @@
+import React, { useState } from 'react';
+import { ModelPrice, PriceTable, UsageKind, UsageRecord } from '../types';
+import { loadPriceTable, resetPriceTable, savePriceTable } from '../services/priceTable';
+import { formatCost, formatLatency, summarizeUsage, USAGE_KINDS, UsageTotals } from '../utils/usage';
+
+interface UsageSummaryProps {
+  records: UsageRecord[];
+  // Open straight after a generation run, so the figures are seen without looking for them.
+  defaultOpen?: boolean;
+}
+
+const KIND_LABELS: Record<UsageKind, string> = { script: 'Script', image: 'Images', speech: 'Narration' };
+
+const PRICE_FIELDS: { key: keyof ModelPrice; label: string }[] = [
+  { key: 'inputPerMillionTokens', label: 'Input / 1M tokens' },
+  { key: 'outputPerMillionTokens', label: 'Output / 1M tokens' },
+  { key: 'perImage', label: 'Per image' },
+  { key: 'perAudioMinute', label: 'Per audio minute' },
+];
+
+const formatCount = (value: number) => value.toLocaleString('en-US');
+
+const describeOutput = (totals: UsageTotals) => [
+  totals.images > 0 && `${totals.images} image${totals.images === 1 ? '' : 's'}`,
+  totals.audioSeconds > 0 && `${(totals.audioSeconds / 60).toFixed(1)} min audio`,
+].filter(Boolean).join(', ') || '—';
+
+const UsageSummary: React.FC<UsageSummaryProps> = ({ records, defaultOpen }) => {
+  const [prices, setPrices] = useState<PriceTable>(loadPriceTable);
+  const summary = summarizeUsage(records, prices);
+  const { total, currency } = summary;
+  // Models in use come first, so an unpriced one is easy to find and fill in
+  const usedModels = [...new Set<string>(records.map(record => record.model))];
+  const priceModels = [...usedModels, ...Object.keys(prices.models).filter(model => !usedModels.includes(model))];
+
+  const updatePrices = (updated: PriceTable) => {
+    setPrices(updated);
+    savePriceTable(updated);
+  };
+
+  const handlePriceChange = (model: string, key: keyof ModelPrice, value: string) => {
+    const current = prices.models[model] ?? { inputPerMillionTokens: 0, outputPerMillionTokens: 0 };
+    const rate = value === '' ? undefined : Math.max(0, Number(value));
+    if (rate !== undefined && !Number.isFinite(rate)) return;
+    const price = { ...current, [key]: rate ?? (key === 'perImage' || key === 'perAudioMinute' ? undefined : 0) };
+    updatePrices({ ...prices, models: { ...prices.models, [model]: price } });
+  };
+
+  const renderRow = (label: string, totals: UsageTotals, emphasize = false) => (
+    <tr key={label} className={emphasize ? 'border-t border-gray-600 font-semibold text-gray-200' : 'text-gray-300'}>
+      <td className="py-1.5 pr-4">{label}</td>
+      <td className="py-1.5 pr-4 text-right">
+        {totals.calls}
+        {totals.cachedCalls > 0 && <span className="text-gray-500"> ({totals.cachedCalls} cached)</span>}
+        {totals.failedCalls > 0 && <span className="text-red-400"> ({totals.failedCalls} failed)</span>}
+        {totals.repairCalls > 0 && <span className="text-amber-300"> ({totals.repairCalls} repair{totals.repairCalls === 1 ? '' : 's'})</span>}
+      </td>
+      <td className="py-1.5 pr-4 text-right">{formatCount(totals.inputTokens)}</td>
+      <td className="py-1.5 pr-4 text-right">{formatCount(totals.outputTokens)}</td>
+      <td className="py-1.5 pr-4">{describeOutput(totals)}</td>
+      <td className="py-1.5 pr-4 text-right">{formatLatency(totals.latencyMs)}</td>
+      <td className="py-1.5 pr-4 text-right">{totals.calls > 0 ? formatLatency(totals.slowestMs) : '—'}</td>
+      <td className="py-1.5 text-right">{formatCost(totals.cost, currency)}</td>
+    </tr>
+  );
+
+  return (
+    <details open={defaultOpen} className="mt-4 bg-gray-800/50 p-4 rounded-2xl border border-gray-700">
+      <summary className="cursor-pointer text-sm text-gray-400 hover:text-gray-200 select-none">
+        Usage and cost: {formatCost(total.cost, currency)} · {total.calls} request{total.calls === 1 ? '' : 's'}
+      </summary>
+      <div className="mt-4 space-y-4">
+        {records.length === 0 ? (
+          <p className="text-sm text-gray-500">No requests have been recorded for this presentation.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-xs text-gray-500 text-left">
+                  <th className="pb-2 pr-4 font-medium">Step</th>
+                  <th className="pb-2 pr-4 font-medium text-right">Requests</th>
+                  <th className="pb-2 pr-4 font-medium text-right">Input tokens</th>
+                  <th className="pb-2 pr-4 font-medium text-right">Output tokens</th>
+                  <th className="pb-2 pr-4 font-medium">Produced</th>
+                  <th className="pb-2 pr-4 font-medium text-right" title="Summed over requests, which partly run in parallel">Request time</th>
+                  <th className="pb-2 pr-4 font-medium text-right">Slowest</th>
+                  <th className="pb-2 font-medium text-right">Cost</th>
+                </tr>
+              </thead>
+              <tbody>
+                {USAGE_KINDS.map(kind => renderRow(KIND_LABELS[kind], summary.byKind[kind]))}
+                {renderRow('Total', total, true)}
+              </tbody>
+            </table>
+          </div>
+        )}
+        {total.unpricedModels.length > 0 && (
+          <p className="text-sm text-amber-300">
+            No price is set for {total.unpricedModels.join(', ')}, so {total.unpricedModels.length === 1 ? 'it is' : 'they are'} counted as free. Add prices below.
+          </p>
+        )}
+        <details>
+          <summary className="cursor-pointer text-sm text-gray-400 hover:text-gray-200 select-none">
+            Prices ({currency})
+          </summary>
+          <div className="mt-3 space-y-3">
+            <div className="flex flex-wrap items-center gap-3 text-sm text-gray-400">
+              <label className="flex items-center gap-2">
+                Currency
+                <input
+                  type="text"
+                  value={prices.currency}
+                  onChange={(e) => updatePrices({ ...prices, currency: e.target.value.trim().toUpperCase() || 'USD' })}
+                  className="w-20 bg-gray-700 border border-gray-600 text-gray-200 rounded-lg px-2 py-1 focus:ring-2 focus:ring-indigo-500 focus:outline-none"
+                />
+              </label>
+              <button
+                onClick={() => setPrices(resetPriceTable())}
+                className="ml-auto px-3 py-1.5 text-sm bg-gray-700 text-gray-200 rounded-lg hover:bg-gray-600 transition-colors"
+              >
+                Reset to defaults
+              </button>
+            </div>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-xs text-gray-500 text-left">
+                    <th className="pb-2 pr-3 font-medium">Model</th>
+                    {PRICE_FIELDS.map(field => <th key={field.key} className="pb-2 pr-3 font-medium">{field.label}</th>)}
+                  </tr>
+                </thead>
+                <tbody>
+                  {priceModels.map(model => (
+                    <tr key={model}>
+                      <td className="py-1 pr-3 text-gray-300">{model}</td>
+                      {PRICE_FIELDS.map(field => (
+                        <td key={field.key} className="py-1 pr-3">
+                          <input
+                            type="number"
+                            min={0}
+                            step="any"
+                            value={prices.models[model]?.[field.key] ?? ''}
+                            placeholder={field.key === 'perImage' || field.key === 'perAudioMinute' ? '—' : '0'}
+                            onChange={(e) => handlePriceChange(model, field.key, e.target.value)}
+                            className="w-24 bg-gray-700 border border-gray-600 text-gray-200 rounded-lg px-2 py-1 focus:ring-2 focus:ring-indigo-500 focus:outline-none"
+                          />
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </details>
+      </div>
+    </details>
+  );
+};
+
+export default UsageSummary;
@@ -0,0 +1,69 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { GenerationOptions } from '../types';
+import { generateVoicePreview } from '../services/geminiService';
+import { decode, NARRATION_SAMPLE_RATE, pcm16ToFloat32 } from '../utils/audioUtils';
+import { LoadingSpinner, PauseIcon, PlayIcon } from './icons';
+
+interface VoicePreviewButtonProps {
+  voiceName: string;
+  // Supplies the tone the sample is read in.
+  options: GenerationOptions;
+  disabled?: boolean;
+}
+
+
+const VoicePreviewButton: React.FC<VoicePreviewButtonProps> = ({ voiceName, options, disabled }) => {
+  const [state, setState] = useState<'idle' | 'loading' | 'playing'>('idle');
+  const playbackRef = useRef<{ context: AudioContext; source: AudioBufferSourceNode } | null>(null);
+
+  const stop = () => {
+    const playback = playbackRef.current;
+    playbackRef.current = null;
+    if (playback) {
+      playback.source.onended = null;
+      playback.source.stop();
+      playback.context.close();
+    }
+    setState('idle');
+  };
+
+  useEffect(() => () => stop(), []);
+
+  const handleClick = async () => {
+    if (state === 'playing') {
+      stop();
+      return;
+    }
+    setState('loading');
+    try {
+      const samples = pcm16ToFloat32(decode(await generateVoicePreview(voiceName, options)));
+      const context = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: NARRATION_SAMPLE_RATE });
+      const buffer = context.createBuffer(1, samples.length, NARRATION_SAMPLE_RATE);
+      buffer.copyToChannel(samples, 0);
+      const source = context.createBufferSource();
+      source.buffer = buffer;
+      source.connect(context.destination);
+      source.onended = stop;
+      source.start();
+      playbackRef.current = { context, source };
+      setState('playing');
+    } catch (err) {
+      console.error('Voice preview failed', err);
+      setState('idle');
+    }
+  };
+
+  return (
+    <button
+      type="button"
+      onClick={handleClick}
+      disabled={disabled || state === 'loading'}
+      title={state === 'playing' ? 'Stop' : `Hear ${voiceName}`}
+      className="inline-flex items-center justify-center p-2 bg-gray-700 text-gray-200 rounded-lg hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+    >
+      {state === 'loading' ? <LoadingSpinner /> : state === 'playing' ? <PauseIcon className="w-4 h-4" /> : <PlayIcon className="w-4 h-4" />}
+    </button>
+  );
+};
+
+export default VoicePreviewButton;
@@ -0,0 +1,163 @@
+import { GenerationOptions, MusicBed, PriceTable, SlideLayout, Speaker, Theme } from './types';
+
+export const DEFAULT_GENERATION_OPTIONS: GenerationOptions = {
+  slideCount: 5,
+  minWordsPerSlide: 30,
+  maxWordsPerSlide: 50,
+  audience: 'a general audience',
+  tone: 'educational',
+  language: 'English',
+  voiceName: 'Kore',
+  imageMode: 'generate',
+  background: { type: 'gradient', from: '#312e81', to: '#0f172a', angle: 135 },
+};
+
+export const MAX_SLIDE_COUNT = 30;
+export const MAX_QUIZ_QUESTIONS = 10;
+
+// Paid-tier list prices in US dollars when this was written; edit them under Usage and cost
+// when they change. The mock provider's models are free.
+export const DEFAULT_PRICE_TABLE: PriceTable = {
+  currency: 'USD',
+  models: {
+    'gemini-2.5-pro': { inputPerMillionTokens: 1.25, outputPerMillionTokens: 10 },
+    'gemini-2.5-flash': { inputPerMillionTokens: 0.3, outputPerMillionTokens: 2.5 },
+    'gemini-2.5-flash-image': { inputPerMillionTokens: 0.3, outputPerMillionTokens: 30 },
+    'gemini-2.5-flash-preview-tts': { inputPerMillionTokens: 0.5, outputPerMillionTokens: 10 },
+    'gemini-2.5-pro-preview-tts': { inputPerMillionTokens: 1, outputPerMillionTokens: 20 },
+    'mock-script': { inputPerMillionTokens: 0, outputPerMillionTokens: 0 },
+    'mock-image': { inputPerMillionTokens: 0, outputPerMillionTokens: 0 },
+    'mock-speech': { inputPerMillionTokens: 0, outputPerMillionTokens: 0 },
+  },
+};
+
+// What a generated script must satisfy before it is used; see utils/scriptValidation.
+export const SCRIPT_LIMITS = {
+  maxTitleLength: 80,
+  maxBullets: 6,
+  maxBulletLength: 100,
+  // Narration may fall this fraction short of the minimum word count, or go this fraction over
+  // the maximum, before it is rejected.
+  wordCountTolerance: 0.3,
+  minQuizChoices: 2,
+  maxQuizChoices: 5,
+  // Times a script that fails validation is sent back to the model to be fixed.
+  maxRepairs: 2,
+};
+
+export const TONES = ['educational', 'conversational', 'formal', 'enthusiastic', 'humorous', 'inspirational'];
+
+// Prebuilt voices offered by the Gemini TTS models.
+export const VOICES: { name: string; style: string }[] = [
+  { name: 'Kore', style: 'Firm' },
+  { name: 'Puck', style: 'Upbeat' },
+  { name: 'Charon', style: 'Informative' },
+  { name: 'Zephyr', style: 'Bright' },
+  { name: 'Fenrir', style: 'Excitable' },
+  { name: 'Leda', style: 'Youthful' },
+  { name: 'Orus', style: 'Firm' },
+  { name: 'Aoede', style: 'Breezy' },
+  { name: 'Callirrhoe', style: 'Easy-going' },
+  { name: 'Autonoe', style: 'Bright' },
+  { name: 'Enceladus', style: 'Breathy' },
+  { name: 'Iapetus', style: 'Clear' },
+  { name: 'Umbriel', style: 'Easy-going' },
+  { name: 'Algieba', style: 'Smooth' },
+  { name: 'Despina', style: 'Smooth' },
+  { name: 'Erinome', style: 'Clear' },
+  { name: 'Algenib', style: 'Gravelly' },
+  { name: 'Rasalgethi', style: 'Informative' },
+  { name: 'Laomedeia', style: 'Upbeat' },
+  { name: 'Achernar', style: 'Soft' },
+  { name: 'Alnilam', style: 'Firm' },
+  { name: 'Schedar', style: 'Even' },
+  { name: 'Gacrux', style: 'Mature' },
+  { name: 'Pulcherrima', style: 'Forward' },
+  { name: 'Achird', style: 'Friendly' },
+  { name: 'Zubenelgenubi', style: 'Casual' },
+  { name: 'Vindemiatrix', style: 'Gentle' },
+  { name: 'Sadachbia', style: 'Lively' },
+  { name: 'Sadaltager', style: 'Knowledgeable' },
+  { name: 'Sulafat', style: 'Warm' },
+];
+
+export const SLIDE_LAYOUTS: Record<SlideLayout, string> = {
+  fullBleed: 'Full-bleed image',
+  titleOnly: 'Title only',
+  imageLeft: 'Image left, bullets right',
+  quote: 'Quote',
+};
+
+export const FONTS: { label: string; value: string }[] = [
+  { label: 'Sans-serif', value: 'system-ui, -apple-system, "Segoe UI", Roboto, sans-serif' },
+  { label: 'Serif', value: 'Georgia, "Times New Roman", serif' },
+  { label: 'Humanist', value: '"Trebuchet MS", "Gill Sans", "Helvetica Neue", sans-serif' },
+  { label: 'Monospace', value: 'ui-monospace, Menlo, Consolas, monospace' },
+];
+
+// The first theme reproduces the original look: a full-bleed image under a dark gradient.
+export const THEMES: Theme[] = [
+  {
+    id: 'classic',
+    name: 'Classic',
+    backgroundColor: '#111827',
+    textColor: '#ffffff',
+    accentColor: '#6366f1',
+    titleFont: FONTS[0].value,
+    bodyFont: FONTS[0].value,
+    defaultLayout: 'fullBleed',
+  },
+  {
+    id: 'corporate',
+    name: 'Corporate',
+    backgroundColor: '#0b2545',
+    textColor: '#f1f5f9',
+    accentColor: '#38bdf8',
+    titleFont: FONTS[2].value,
+    bodyFont: FONTS[0].value,
+    defaultLayout: 'imageLeft',
+  },
+  {
+    id: 'paper',
+    name: 'Paper',
+    backgroundColor: '#faf7f0',
+    textColor: '#1f2937',
+    accentColor: '#b45309',
+    titleFont: FONTS[1].value,
+    bodyFont: FONTS[1].value,
+    defaultLayout: 'imageLeft',
+  },
+  {
+    id: 'mono',
+    name: 'Monochrome',
+    backgroundColor: '#000000',
+    textColor: '#e5e5e5',
+    accentColor: '#ffffff',
+    titleFont: FONTS[3].value,
+    bodyFont: FONTS[3].value,
+    defaultLayout: 'titleOnly',
+  },
+];
+
+export const DEFAULT_THEME = THEMES[0];
+
+// Loops synthesised by utils/musicLoops.ts, so they ship without audio files or licence terms.
+export const MUSIC_LOOPS: { id: string; name: string }[] = [
+  { id: 'calm', name: 'Calm Pads' },
+  { id: 'bright', name: 'Bright Pulse' },
+  { id: 'ambient', name: 'Ambient Drone' },
+];
+
+export const DEFAULT_MUSIC_BED: MusicBed = {
+  source: { type: 'loop', loopId: MUSIC_LOOPS[0].id },
+  volume: 0.5,
+  fadeIn: 2,
+  fadeOut: 3,
+  duckLevel: 0.35,
+};
+
+// Gemini's multi-speaker TTS reads dialogues between exactly two speakers.
+export const DEFAULT_SPEAKERS: Speaker[] = [
+  { name: 'Host', voiceName: 'Puck' },
+  { name: 'Expert', voiceName: 'Kore' },
+];
@@ -0,0 +1,333 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'node:http';
+import { MAX_QUIZ_QUESTIONS, MAX_SLIDE_COUNT } from '../constants';
+import {
+  CLIENT_ID_HEADER,
+  HealthResponse,
+  ImageResponse,
+  PROXY_ROUTES,
+  ScriptResponse,
+  SpeechResponse,
+} from '../services/providers/proxyProtocol';
+import { GenerationProvider, ScriptRepair } from '../services/providers/types';
+import { GenerationOptions, SourceDocument, Speaker } from '../types';
+import { MAX_SOURCE_BYTES } from '../utils/sourceDocuments';
+import { HttpError, toHttpError } from './errors';
+import { createRateLimiter, RateLimiter } from './rateLimit';
+
+export interface RequestLogEntry {
+  time: string;
+  method: string;
+  path: string;
+  status: number;
+  durationMs: number;
+  client: string;
+  // Set for failed requests.
+  error?: string;
+}
+
+export interface ProxyServerOptions {
+  // The upstream that does the generating; tests pass a stub or the mock provider.
+  provider: GenerationProvider;
+  // Limits each user, identified by the client id header or else their address.
+  clientLimiter?: RateLimiter;
+  // A ceiling per address, so rotating client ids does not get around the per-user limit.
+  addressLimiter?: RateLimiter;
+  log?: (entry: RequestLogEntry) => void;
+  maxBodyBytes?: number;
+}
+
+// Sources may include PDFs, which arrive base64-encoded
+const DEFAULT_MAX_BODY_BYTES = 32 * 1024 * 1024;
+const MAX_PROMPT_LENGTH = 4000;
+const MAX_SPEECH_LENGTH = 8000;
+const CLIENT_ID_PATTERN = /^[\w-]{8,64}$/;
+// Audience, tone, language and voice names are short phrases
+const MAX_OPTION_LENGTH = 200;
+// Longer speaker names would not be recognized as turn labels; see utils/speakers
+const MAX_SPEAKER_NAME_LENGTH = 40;
+const MAX_WORDS_PER_SLIDE = 1000;
+const MAX_SOURCE_NAME_LENGTH = 255;
+// PDFs are sent as base64 data, text and Markdown as text
+const SOURCE_MIME_TYPES = ['text/plain', 'text/markdown', 'application/pdf'];
+const BASE64_PATTERN = /^[A-Za-z0-9+/]*={0,2}$/;
+
+type Body = Record<string, unknown>;
+
+interface Route {
+  method: 'GET' | 'POST';
+  // Health checks are free; everything that reaches the upstream API counts against the limits.
+  limited: boolean;
+  handle: (body: Body, provider: GenerationProvider) => Promise<unknown>;
+}
+
+function expectString(body: Body, field: string, maxLength: number): string {
+  const value = body[field];
+  if (typeof value !== 'string' || !value.trim()) {
+    throw new HttpError(400, 'bad_request', `"${field}" must be a non-empty string.`);
+  }
+  if (value.length > maxLength) {
+    throw new HttpError(400, 'bad_request', `"${field}" must be at most ${maxLength} characters.`);
+  }
+  return value;
+}
+
+function badOption(field: string, requirement: string): HttpError {
+  return new HttpError(400, 'bad_request', `"options.${field}" must be ${requirement}.`);
+}
+
+function expectOptionString(options: Body, field: string, maxLength = MAX_OPTION_LENGTH): string {
+  const value = options[field];
+  if (typeof value !== 'string' || !value.trim() || value.length > maxLength) {
+    throw badOption(field, `a non-empty string of at most ${maxLength} characters`);
+  }
+  return value;
+}
+
+function expectOptionInteger(options: Body, field: string, min: number, max: number): number {
+  const value = options[field];
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < min || value > max) {
+    throw badOption(field, `a whole number from ${min} to ${max}`);
+  }
+  return value;
+}
+
+function expectSpeakers(speakers: unknown): Speaker[] {
+  const valid = Array.isArray(speakers) && speakers.length === 2 && speakers.every(speaker =>
+    typeof speaker === 'object' && speaker !== null
+    && typeof speaker.name === 'string' && speaker.name.trim() !== '' && speaker.name.length <= MAX_SPEAKER_NAME_LENGTH
+    && typeof speaker.voiceName === 'string' && speaker.voiceName.trim() !== '' && speaker.voiceName.length <= MAX_OPTION_LENGTH);
+  if (!valid) {
+    throw badOption('speakers', `a list of two speakers, each with a "name" of at most ${MAX_SPEAKER_NAME_LENGTH} characters and a "voiceName"`);
+  }
+  return speakers.map(({ name, voiceName }) => ({ name, voiceName }));
+}
+
+// Like sources, options are rebuilt from the checked fields: every one of them ends up in the
+// upstream prompt. Image settings are left out, since the upstream never sees them.
+function expectOptions(body: Body): GenerationOptions {
+  const options = body.options;
+  if (typeof options !== 'object' || options === null || Array.isArray(options)) {
+    throw new HttpError(400, 'bad_request', '"options" must be an object.');
+  }
+  const fields = options as Body;
+  const minWordsPerSlide = expectOptionInteger(fields, 'minWordsPerSlide', 1, MAX_WORDS_PER_SLIDE);
+  const maxWordsPerSlide = expectOptionInteger(fields, 'maxWordsPerSlide', 1, MAX_WORDS_PER_SLIDE);
+  if (minWordsPerSlide > maxWordsPerSlide) {
+    throw badOption('minWordsPerSlide', 'at most "options.maxWordsPerSlide"');
+  }
+  const { speakers, quizQuestions, chapters } = fields;
+  if (chapters !== undefined && typeof chapters !== 'boolean') {
+    throw badOption('chapters', 'a boolean');
+  }
+  return {
+    slideCount: expectOptionInteger(fields, 'slideCount', 1, MAX_SLIDE_COUNT),
+    minWordsPerSlide,
+    maxWordsPerSlide,
+    audience: expectOptionString(fields, 'audience'),
+    tone: expectOptionString(fields, 'tone'),
+    language: expectOptionString(fields, 'language'),
+    voiceName: expectOptionString(fields, 'voiceName'),
+    ...(speakers !== undefined && { speakers: expectSpeakers(speakers) }),
+    ...(quizQuestions !== undefined && { quizQuestions: expectOptionInteger(fields, 'quizQuestions', 0, MAX_QUIZ_QUESTIONS) }),
+    ...(typeof chapters === 'boolean' && { chapters }),
+  };
+}
+
+// Sources are rebuilt from the checked fields, and their size is measured here rather than
+// taken from the client, so the upstream never sees more than the app itself would send.
+function expectSources(body: Body): SourceDocument[] {
+  const sources = body.sources;
+  if (sources === undefined) return [];
+  if (!Array.isArray(sources)) {
+    throw new HttpError(400, 'bad_request', '"sources" must be an array.');
+  }
+  let totalSize = 0;
+  return sources.map((source: unknown, index): SourceDocument => {
+    const path = `sources[${index}]`;
+    if (typeof source !== 'object' || source === null || Array.isArray(source)) {
+      throw new HttpError(400, 'bad_request', `"${path}" must be an object.`);
+    }
+    const { id, name, mimeType, text, data } = source as Record<string, unknown>;
+    if (typeof name !== 'string' || !name.trim() || name.length > MAX_SOURCE_NAME_LENGTH) {
+      throw new HttpError(400, 'bad_request', `"${path}.name" must be a non-empty string of at most ${MAX_SOURCE_NAME_LENGTH} characters.`);
+    }
+    if (typeof mimeType !== 'string' || !SOURCE_MIME_TYPES.includes(mimeType)) {
+      throw new HttpError(400, 'bad_request', `"${path}.mimeType" must be one of ${SOURCE_MIME_TYPES.join(', ')}.`);
+    }
+    const isPdf = mimeType === 'application/pdf';
+    const content = isPdf ? data : text;
+    if (typeof content !== 'string' || !content || (isPdf ? text : data) !== undefined) {
+      throw new HttpError(400, 'bad_request', isPdf
+        ? `"${path}" is a PDF, so it must have base64 "data" and no "text".`
+        : `"${path}" must have a non-empty "text" string and no "data".`);
+    }
+    if (isPdf && !BASE64_PATTERN.test(content)) {
+      throw new HttpError(400, 'bad_request', `"${path}.data" must be base64.`);
+    }
+    const size = isPdf ? Math.floor((content.length * 3) / 4) : Buffer.byteLength(content);
+    totalSize += size;
+    if (totalSize > MAX_SOURCE_BYTES) {
+      throw new HttpError(413, 'payload_too_large', `Sources can be at most ${MAX_SOURCE_BYTES / (1024 * 1024)} MB together.`);
+    }
+    return {
+      id: typeof id === 'string' ? id : String(index),
+      name,
+      mimeType,
+      ...(isPdf ? { data: content } : { text: content }),
+      size,
+    };
+  });
+}
+
+function expectRepair(body: Body): ScriptRepair | undefined {
+  const repair = body.repair;
+  if (repair === undefined) return undefined;
+  const valid = typeof repair === 'object' && repair !== null
+    && typeof (repair as ScriptRepair).previous === 'string'
+    && Array.isArray((repair as ScriptRepair).issues)
+    && (repair as ScriptRepair).issues.every(issue => typeof issue === 'string');
+  if (!valid) {
+    throw new HttpError(400, 'bad_request', '"repair" must have a "previous" string and a list of "issues".');
+  }
+  return repair as ScriptRepair;
+}
+
+const ROUTES: Record<string, Route> = {
+  [PROXY_ROUTES.health]: {
+    method: 'GET',
+    limited: false,
+    handle: async (_body, provider): Promise<HealthResponse> => ({ provider: provider.name, models: provider.models }),
+  },
+  [PROXY_ROUTES.script]: {
+    method: 'POST',
+    limited: true,
+    handle: async (body, provider): Promise<ScriptResponse> => {
+      const topic = expectString(body, 'topic', MAX_PROMPT_LENGTH);
+      const options = expectOptions(body);
+      const sources = expectSources(body);
+      const { value, usage } = await provider.generateScript(topic, options, sources, expectRepair(body));
+      return { slides: value, usage };
+    },
+  },
+  [PROXY_ROUTES.image]: {
+    method: 'POST',
+    limited: true,
+    handle: async (body, provider): Promise<ImageResponse> => {
+      const { value, usage } = await provider.generateImage(expectString(body, 'prompt', MAX_PROMPT_LENGTH));
+      return { image: value, usage };
+    },
+  },
+  [PROXY_ROUTES.speech]: {
+    method: 'POST',
+    limited: true,
+    handle: async (body, provider): Promise<SpeechResponse> => {
+      const text = expectString(body, 'text', MAX_SPEECH_LENGTH);
+      const { value, usage } = await provider.generateSpeech(text, expectOptions(body));
+      return { audio: value, usage };
+    },
+  },
+};
+
+async function readJsonBody(request: IncomingMessage, maxBytes: number): Promise<Body> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of request) {
+    size += chunk.length;
+    if (size > maxBytes) {
+      const limit = maxBytes >= 1024 * 1024 ? `${Math.floor(maxBytes / (1024 * 1024))} MB` : `${maxBytes} bytes`;
+      throw new HttpError(413, 'payload_too_large', `Request bodies can be at most ${limit}.`);
+    }
+    chunks.push(chunk);
+  }
+  let body: unknown;
+  try {
+    body = JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  } catch {
+    throw new HttpError(400, 'bad_request', 'The request body is not valid JSON.');
+  }
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    throw new HttpError(400, 'bad_request', 'The request body must be a JSON object.');
+  }
+  return body as Body;
+}
+
+function sendJson(response: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) {
+  const data = JSON.stringify(body);
+  response.writeHead(status, {
+    'content-type': 'application/json; charset=utf-8',
+    'content-length': Buffer.byteLength(data),
+    'cache-control': 'no-store',
+    ...headers,
+  });
+  response.end(data);
+}
+
+const defaultLog = (entry: RequestLogEntry) => console.log(JSON.stringify(entry));
+
+// The generation API behind the browser app. It holds the API key, so the client never needs it.
+export function createProxyServer(options: ProxyServerOptions): Server {
+  const {
+    provider,
+    clientLimiter = createRateLimiter({ limit: 30, windowMs: 60_000 }),
+    addressLimiter = createRateLimiter({ limit: 120, windowMs: 60_000 }),
+    log = defaultLog,
+    maxBodyBytes = DEFAULT_MAX_BODY_BYTES,
+  } = options;
+
+  const checkLimit = (limiter: RateLimiter, key: string, response: ServerResponse) => {
+    const result = limiter.check(key);
+    response.setHeader('x-ratelimit-remaining', String(result.remaining));
+    if (!result.allowed) {
+      throw new HttpError(429, 'rate_limited', `Too many requests. Try again in ${result.resetIn} seconds.`, result.resetIn);
+    }
+  };
+
+  return createServer(async (request, response) => {
+    const started = Date.now();
+    const method = request.method ?? 'GET';
+    const path = new URL(request.url ?? '/', 'http://localhost').pathname;
+    const address = request.socket.remoteAddress ?? 'unknown';
+    const clientId = request.headers[CLIENT_ID_HEADER];
+    const client = typeof clientId === 'string' && CLIENT_ID_PATTERN.test(clientId) ? clientId : address;
+    let status = 200;
+    let error: string | undefined;
+
+    try {
+      const route = Object.hasOwn(ROUTES, path) ? ROUTES[path] : undefined;
+      if (!route) throw new HttpError(404, 'not_found', `No endpoint at ${path}.`);
+      if (method !== route.method) {
+        response.setHeader('allow', route.method);
+        throw new HttpError(405, 'method_not_allowed', `${path} only accepts ${route.method} requests.`);
+      }
+      if (route.limited) {
+        checkLimit(addressLimiter, address, response);
+        checkLimit(clientLimiter, client, response);
+      }
+      const body = route.method === 'POST' ? await readJsonBody(request, maxBodyBytes) : {};
+      sendJson(response, 200, await route.handle(body, provider));
+    } catch (err) {
+      const httpError = toHttpError(err);
+      status = httpError.status;
+      error = `${httpError.code}: ${httpError.message}`;
+      if (httpError.status >= 500) console.error(err);
+      if (!response.headersSent) {
+        const headers: Record<string, string> = httpError.retryAfter !== undefined ? { 'retry-after': String(httpError.retryAfter) } : {};
+        // The rest of an oversized body is not read, so the connection cannot be reused
+        if (httpError.status === 413) headers.connection = 'close';
+        sendJson(response, status, httpError.toBody(), headers);
+      } else {
+        response.end();
+      }
+    } finally {
+      log({
+        time: new Date(started).toISOString(),
+        method,
+        path,
+        status,
+        durationMs: Date.now() - started,
+        client,
+        ...(error && { error }),
+      });
+    }
+  });
+}
@@ -0,0 +1,45 @@
+import { ProxyErrorBody, ProxyErrorCode } from '../services/providers/proxyProtocol';
+import { ScriptValidationError } from '../utils/scriptValidation';
+
+export class HttpError extends Error {
+  constructor(
+    readonly status: number,
+    readonly code: ProxyErrorCode,
+    message: string,
+    readonly retryAfter?: number,
+    readonly details?: Pick<ProxyErrorBody['error'], 'issues' | 'output'>,
+  ) {
+    super(message);
+    this.name = 'HttpError';
+  }
+
+  toBody(): ProxyErrorBody {
+    return {
+      error: {
+        code: this.code,
+        message: this.message,
+        ...(this.retryAfter !== undefined && { retryAfter: this.retryAfter }),
+        ...this.details,
+      },
+    };
+  }
+}
+
+// Anything thrown while handling a request becomes an HttpError. Failures reported by the
+// upstream API keep its message, since it says what was wrong with the request, but never its
+// headers or request details.
+export function toHttpError(err: unknown): HttpError {
+  if (err instanceof HttpError) return err;
+  if (err instanceof ScriptValidationError) {
+    return new HttpError(502, 'invalid_script', err.message, undefined, { issues: err.issues, output: err.output });
+  }
+  const status = (err as { status?: unknown } | null)?.status;
+  const message = err instanceof Error ? err.message : String(err);
+  if (status === 429) {
+    return new HttpError(429, 'upstream_rate_limited', 'The generation API is busy. Try again in a moment.');
+  }
+  if (typeof status === 'number') {
+    return new HttpError(502, 'upstream_error', `The generation API failed: ${message}`);
+  }
+  return new HttpError(500, 'internal_error', message || 'Something went wrong on the server.');
+}
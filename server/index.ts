@@ -0,0 +1,38 @@
+import { existsSync } from 'node:fs';
+import { loadServiceConfig } from '../services/config';
+import { createProvider } from '../services/geminiService';
+import { createProxyServer } from './app';
+import { createRateLimiter } from './rateLimit';
+
+// Same files Vite reads, so one .env.local configures both the app and the server
+for (const file of ['.env.local', '.env']) {
+  if (existsSync(file)) process.loadEnvFile(file);
+}
+
+const readNumber = (name: string, fallback: number): number => {
+  const value = Number(process.env[name] || fallback);
+  if (!Number.isInteger(value) || value < 0) {
+    throw new Error(`${name} must be a whole number, got "${process.env[name]}".`);
+  }
+  return value;
+};
+
+const config = loadServiceConfig();
+if (config.provider === 'proxy') {
+  throw new Error('The server cannot use the "proxy" provider itself. Set GENERATION_PROVIDER to "gemini" or "mock".');
+}
+
+const port = readNumber('PROXY_PORT', 8787);
+const perMinute = readNumber('PROXY_RATE_LIMIT', 30);
+const provider = createProvider(config);
+
+const server = createProxyServer({
+  provider,
+  clientLimiter: createRateLimiter({ limit: perMinute, windowMs: 60_000 }),
+  // Several users may share an address behind a NAT, so the address ceiling is looser
+  addressLimiter: createRateLimiter({ limit: perMinute * 4, windowMs: 60_000 }),
+});
+
+server.listen(port, () => {
+  console.log(`Generation server using the ${provider.name} provider on http://localhost:${port}`);
+});
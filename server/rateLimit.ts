@@ -0,0 +1,47 @@
+export interface RateLimitOptions {
+  // Requests allowed per key in each window.
+  limit: number;
+  windowMs: number;
+  now?: () => number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  remaining: number;
+  // Seconds until the current window ends.
+  resetIn: number;
+}
+
+export interface RateLimiter {
+  check(key: string): RateLimitResult;
+}
+
+// Keys are swept once there are this many, so abandoned clients do not accumulate forever
+const SWEEP_THRESHOLD = 10000;
+
+// Fixed-window counter per key, held in memory; enough for a single server process.
+export function createRateLimiter({ limit, windowMs, now = Date.now }: RateLimitOptions): RateLimiter {
+  const windows = new Map<string, { start: number; count: number }>();
+
+  const sweep = (time: number) => {
+    for (const [key, window] of windows) {
+      if (time - window.start >= windowMs) windows.delete(key);
+    }
+  };
+
+  return {
+    check(key: string): RateLimitResult {
+      const time = now();
+      if (windows.size >= SWEEP_THRESHOLD) sweep(time);
+      let window = windows.get(key);
+      if (!window || time - window.start >= windowMs) {
+        window = { start: time, count: 0 };
+        windows.set(key, window);
+      }
+      const resetIn = Math.ceil((window.start + windowMs - time) / 1000);
+      if (window.count >= limit) return { allowed: false, remaining: 0, resetIn };
+      window.count++;
+      return { allowed: true, remaining: limit - window.count, resetIn };
+    },
+  };
+}
@@ -0,0 +1,171 @@
+import { openDatabase, promisifyRequest, transactionDone } from './indexedDb';
+
+// Generated assets are cached by a hash of everything that determines them (provider, model,
+// prompt and the relevant options), so identical requests never reach the API twice.
+
+const DB_NAME = 'ai-presentation-cache';
+const DB_VERSION = 1;
+const ENTRIES_STORE = 'entries';
+const LAST_USED_INDEX = 'lastUsed';
+
+export const CACHE_LIMIT_BYTES = 250 * 1024 * 1024;
+
+export type CacheKind = 'script' | 'image' | 'speech';
+
+// 'refresh' skips the lookup but still stores the new result, e.g. when asking for another take.
+export type CachePolicy = 'use' | 'refresh';
+
+export interface CacheKeyParts {
+  kind: CacheKind;
+  provider: string;
+  model: string;
+  prompt: string;
+  config?: Record<string, unknown>;
+}
+
+export interface CacheEntrySummary {
+  key: string;
+  kind: CacheKind;
+  model: string;
+  // The start of the prompt, for recognising entries in the cache panel.
+  label: string;
+  size: number;
+  createdAt: number;
+  lastUsed: number;
+}
+
+// Values are Blobs so that listing and evicting entries never reads the payloads into memory.
+interface StoredEntry extends CacheEntrySummary {
+  value: Blob;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function getDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = openDatabase(DB_NAME, DB_VERSION, (db) => {
+      if (!db.objectStoreNames.contains(ENTRIES_STORE)) {
+        const store = db.createObjectStore(ENTRIES_STORE, { keyPath: 'key' });
+        store.createIndex(LAST_USED_INDEX, 'lastUsed');
+      }
+    });
+  }
+  return dbPromise;
+}
+
+// Object keys are sorted so the same config always hashes the same way.
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, field]) => field !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([key, field]) => `${JSON.stringify(key)}:${stableStringify(field)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+export async function getCacheKey(parts: CacheKeyParts): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(stableStringify(parts)));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+const toSummary = ({ value: _value, ...summary }: StoredEntry): CacheEntrySummary => summary;
+
+async function readEntry(key: string): Promise<string | null> {
+  const db = await getDatabase();
+  const transaction = db.transaction(ENTRIES_STORE, 'readwrite');
+  const store = transaction.objectStore(ENTRIES_STORE);
+  const entry = await promisifyRequest<StoredEntry | undefined>(store.get(key));
+  if (!entry) return null;
+  store.put({ ...entry, lastUsed: Date.now() });
+  await transactionDone(transaction);
+  return entry.value.text();
+}
+
+async function writeEntry(key: string, parts: CacheKeyParts, value: string): Promise<void> {
+  const blob = new Blob([value], { type: 'text/plain' });
+  const now = Date.now();
+  const entry: StoredEntry = {
+    key,
+    kind: parts.kind,
+    model: parts.model,
+    label: parts.prompt.slice(0, 120),
+    size: blob.size,
+    createdAt: now,
+    lastUsed: now,
+    value: blob,
+  };
+  const db = await getDatabase();
+  const transaction = db.transaction(ENTRIES_STORE, 'readwrite');
+  transaction.objectStore(ENTRIES_STORE).put(entry);
+  await transactionDone(transaction);
+  await evictLeastRecentlyUsed(CACHE_LIMIT_BYTES);
+}
+
+// Deletes the least recently used entries until the cache fits within the limit.
+export async function evictLeastRecentlyUsed(limitBytes: number): Promise<void> {
+  const db = await getDatabase();
+  const transaction = db.transaction(ENTRIES_STORE, 'readwrite');
+  const store = transaction.objectStore(ENTRIES_STORE);
+  const entries = await promisifyRequest<StoredEntry[]>(store.index(LAST_USED_INDEX).getAll());
+  let total = entries.reduce((sum, entry) => sum + entry.size, 0);
+  for (const entry of entries) {
+    if (total <= limitBytes) break;
+    store.delete(entry.key);
+    total -= entry.size;
+  }
+  await transactionDone(transaction);
+}
+
+// Returns the cached value for these parts, or produces, stores and returns a new one. The
+// cache is best-effort: if IndexedDB is unavailable or full, generation carries on without it.
+export async function withCache(
+  parts: CacheKeyParts,
+  policy: CachePolicy,
+  produce: () => Promise<string>,
+): Promise<string> {
+  // Node processes such as the batch CLI have no IndexedDB, and nothing to warn about
+  if (typeof indexedDB === 'undefined') return produce();
+  let key: string | null = null;
+  try {
+    key = await getCacheKey(parts);
+    if (policy === 'use') {
+      const cached = await readEntry(key);
+      if (cached !== null) return cached;
+    }
+  } catch (err) {
+    console.warn('Asset cache lookup failed', err);
+  }
+
+  const value = await produce();
+  if (key) {
+    try {
+      await writeEntry(key, parts, value);
+    } catch (err) {
+      console.warn('Asset cache write failed', err);
+    }
+  }
+  return value;
+}
+
+export async function listCacheEntries(): Promise<CacheEntrySummary[]> {
+  const db = await getDatabase();
+  const store = db.transaction(ENTRIES_STORE, 'readonly').objectStore(ENTRIES_STORE);
+  const entries = await promisifyRequest<StoredEntry[]>(store.getAll());
+  return entries.map(toSummary).sort((a, b) => b.lastUsed - a.lastUsed);
+}
+
+export async function deleteCacheEntry(key: string): Promise<void> {
+  const db = await getDatabase();
+  const transaction = db.transaction(ENTRIES_STORE, 'readwrite');
+  transaction.objectStore(ENTRIES_STORE).delete(key);
+  await transactionDone(transaction);
+}
+
+export async function clearCache(): Promise<void> {
+  const db = await getDatabase();
+  const transaction = db.transaction(ENTRIES_STORE, 'readwrite');
+  transaction.objectStore(ENTRIES_STORE).clear();
+  await transactionDone(transaction);
+}
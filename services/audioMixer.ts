@@ -0,0 +1,132 @@
+import { GeneratedSlide, MusicBed, MusicSource } from '../types';
+import { MUSIC_LOOPS } from '../constants';
+import { concatClips, decode, decodeAudioFile, NARRATION_SAMPLE_RATE, normalizeLoudness, pcm16ToFloat32 } from '../utils/audioUtils';
+import { parseDataUrl, toDataUrl } from '../utils/imageUtils';
+import { renderMusicLoop } from '../utils/musicLoops';
+
+// Every track is brought to this average level first, so a given volume sounds alike for loops
+// and uploads, without letting its loudest moments go above MUSIC_PEAK
+const MUSIC_LOUDNESS = 0.15;
+const MUSIC_PEAK = 0.5;
+
+export const MAX_MUSIC_UPLOAD_BYTES = 20 * 1024 * 1024;
+
+export const MUSIC_FILE_ACCEPT = 'audio/mpeg,audio/mp4,audio/aac,audio/ogg,audio/wav,audio/webm,audio/flac';
+
+// Narration quieter than this (about -40 dBFS) counts as a pause
+const SPEECH_THRESHOLD = 0.01;
+const SPEECH_WINDOW_SECONDS = 0.05;
+// The music starts dipping this long before a phrase and recovers over this long after it
+const DUCK_ATTACK_SECONDS = 0.3;
+const DUCK_RELEASE_SECONDS = 0.8;
+// Pauses shorter than this keep the music ducked instead of pumping between sentences
+const MIN_PAUSE_SECONDS = 1;
+
+export interface TimeRange {
+  start: number;
+  end: number;
+}
+
+// Finds the stretches of the narration where someone is speaking, in seconds.
+export function findSpeechRanges(samples: Float32Array, sampleRate: number): TimeRange[] {
+  const windowLength = Math.max(1, Math.round(SPEECH_WINDOW_SECONDS * sampleRate));
+  const ranges: TimeRange[] = [];
+  for (let offset = 0; offset < samples.length; offset += windowLength) {
+    const end = Math.min(samples.length, offset + windowLength);
+    let sum = 0;
+    for (let i = offset; i < end; i++) sum += samples[i] * samples[i];
+    if (Math.sqrt(sum / (end - offset)) < SPEECH_THRESHOLD) continue;
+
+    const range = { start: offset / sampleRate, end: end / sampleRate };
+    const previous = ranges[ranges.length - 1];
+    if (previous && range.start - previous.end < Math.max(MIN_PAUSE_SECONDS, DUCK_ATTACK_SECONDS + DUCK_RELEASE_SECONDS)) {
+      previous.end = range.end;
+    } else {
+      ranges.push(range);
+    }
+  }
+  return ranges;
+}
+
+// Volume with the fades; they are shortened proportionally when the presentation is shorter than both.
+function scheduleFades(gain: AudioParam, music: MusicBed, duration: number) {
+  const scale = Math.min(1, duration / Math.max(1e-3, music.fadeIn + music.fadeOut));
+  const fadeIn = music.fadeIn * scale;
+  const fadeOut = music.fadeOut * scale;
+  gain.setValueAtTime(fadeIn > 0 ? 0 : music.volume, 0);
+  if (fadeIn > 0) gain.linearRampToValueAtTime(music.volume, fadeIn);
+  if (fadeOut > 0) {
+    gain.setValueAtTime(music.volume, duration - fadeOut);
+    gain.linearRampToValueAtTime(0, duration);
+  }
+}
+
+function scheduleDucking(gain: AudioParam, music: MusicBed, speech: TimeRange[]) {
+  gain.setValueAtTime(1, 0);
+  for (const { start, end } of speech) {
+    gain.setValueAtTime(1, Math.max(0, start - DUCK_ATTACK_SECONDS));
+    gain.linearRampToValueAtTime(music.duckLevel, start);
+    gain.setValueAtTime(music.duckLevel, end);
+    gain.linearRampToValueAtTime(1, end + DUCK_RELEASE_SECONDS);
+  }
+}
+
+export function getMusicName(source: MusicSource): string {
+  if (source.type === 'upload') return source.name;
+  return MUSIC_LOOPS.find(loop => loop.id === source.loopId)?.name ?? source.loopId;
+}
+
+async function loadMusicSamples(source: MusicSource, sampleRate: number): Promise<Float32Array> {
+  const samples = source.type === 'loop'
+    ? renderMusicLoop(source.loopId, sampleRate)
+    : await decodeAudioFile(new Blob([parseDataUrl(source.dataUrl).data]), sampleRate);
+  return normalizeLoudness(samples, MUSIC_LOUDNESS, MUSIC_PEAK);
+}
+
+// Reads an uploaded music file as a data URL, after checking that this browser can decode it.
+// The original file is kept rather than decoded samples, which would be far larger.
+export async function readMusicFile(file: File): Promise<string> {
+  if (file.size > MAX_MUSIC_UPLOAD_BYTES) {
+    throw new Error(`"${file.name}" is too large. Music files can be at most ${MAX_MUSIC_UPLOAD_BYTES / (1024 * 1024)} MB.`);
+  }
+  try {
+    await decodeAudioFile(file, NARRATION_SAMPLE_RATE);
+  } catch {
+    throw new Error(`"${file.name}" is not an audio file this browser can play. Try MP3, AAC, OGG or WAV.`);
+  }
+  return toDataUrl(file.type || 'audio/mpeg', new Uint8Array(await file.arrayBuffer()));
+}
+
+// Joins every slide's clip, in slide order, and mixes the music bed under it. The viewer and
+// the video renderer both play this, so what is previewed is what gets exported.
+export async function mixPresentationAudio(slides: GeneratedSlide[], music?: MusicBed): Promise<Float32Array> {
+  const narration = concatClips(slides.map(slide => pcm16ToFloat32(decode(slide.audioData))), NARRATION_SAMPLE_RATE);
+  if (!music || narration.length === 0) return narration;
+
+  const musicSamples = await loadMusicSamples(music.source, NARRATION_SAMPLE_RATE);
+  if (musicSamples.length === 0) return narration;
+  const duration = narration.length / NARRATION_SAMPLE_RATE;
+  const context = new OfflineAudioContext(1, narration.length, NARRATION_SAMPLE_RATE);
+
+  const narrationBuffer = context.createBuffer(1, narration.length, NARRATION_SAMPLE_RATE);
+  narrationBuffer.copyToChannel(narration, 0);
+  const narrationSource = context.createBufferSource();
+  narrationSource.buffer = narrationBuffer;
+  narrationSource.connect(context.destination);
+
+  const musicBuffer = context.createBuffer(1, musicSamples.length, NARRATION_SAMPLE_RATE);
+  musicBuffer.copyToChannel(musicSamples, 0);
+  const musicSource = context.createBufferSource();
+  musicSource.buffer = musicBuffer;
+  musicSource.loop = true;
+  const fadeGain = context.createGain();
+  const duckGain = context.createGain();
+  scheduleFades(fadeGain.gain, music, duration);
+  scheduleDucking(duckGain.gain, music, findSpeechRanges(narration, NARRATION_SAMPLE_RATE));
+  musicSource.connect(fadeGain).connect(duckGain).connect(context.destination);
+
+  narrationSource.start(0);
+  musicSource.start(0);
+  const rendered = await context.startRendering();
+  return rendered.getChannelData(0);
+}
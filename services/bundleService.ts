@@ -0,0 +1,487 @@
+import { GeneratedSlide, GenerationOptions, GeneratorInfo, MusicBed, PresentationProject, PriceTable, Theme, UsageRecord } from '../types';
+import { MAX_QUIZ_QUESTIONS, SLIDE_LAYOUTS } from '../constants';
+import { decode, encode, getPcmDuration, NARRATION_SAMPLE_RATE, pcmToWav, wavToPcm } from '../utils/audioUtils';
+import { imageExtension, imageMimeType, parseDataUrl, toDataUrl } from '../utils/imageUtils';
+import { validateQuizQuestion } from '../utils/scriptValidation';
+import { toUsageMetadata, USAGE_KINDS, UsageMetadata } from '../utils/usage';
+import { createZip, decodeText, encodeText, readZip, ZipEntry } from '../utils/zipUtils';
+import { loadPriceTable } from './priceTable';
+
+// A bundle is a zip archive holding manifest.json plus one WAV file per slide, an image for
+// every slide that has one, the theme's logo when it has one and any uploaded background music.
+export const BUNDLE_FORMAT = 'ai-presentation-bundle';
+// Raised whenever the manifest gains data that a reader of the previous version would drop or
+// misread, so that reader refuses the bundle instead. Every earlier version can still be read.
+export const BUNDLE_VERSION = 1;
+export const BUNDLE_EXTENSION = '.presentation.zip';
+
+const MANIFEST_PATH = 'manifest.json';
+const SAMPLE_RATE = NARRATION_SAMPLE_RATE;
+
+// Every slide field except the inlined assets, which are replaced by paths inside the archive.
+interface BundleSlide extends Omit<GeneratedSlide, 'imageUrl' | 'audioData'> {
+  // Seconds from the start of the presentation, for tools that only read the manifest.
+  start: number;
+  // Absent for slides that show their background instead.
+  image?: string;
+  audio: string;
+}
+
+// The theme with its logo moved into the archive, like the slide images.
+interface BundleTheme extends Omit<Theme, 'logoUrl'> {
+  logo?: string;
+}
+
+// Uploaded music is stored as its original file; built-in loops are stored by id only.
+interface BundleMusic extends Omit<MusicBed, 'source'> {
+  source: { type: 'loop'; loopId: string } | { type: 'upload'; name: string; file: string };
+}
+
+// The summary is priced when the bundle is exported; importing reads only the records.
+interface BundleUsage {
+  records: UsageRecord[];
+  summary: UsageMetadata;
+  prices: PriceTable;
+}
+
+const MUSIC_EXTENSIONS: Record<string, string> = {
+  'audio/mpeg': 'mp3',
+  'audio/mp4': 'm4a',
+  'audio/aac': 'aac',
+  'audio/ogg': 'ogg',
+  'audio/wav': 'wav',
+  'audio/webm': 'webm',
+  'audio/flac': 'flac',
+};
+
+interface BundleManifest {
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  exportedAt: string;
+  project: {
+    name: string;
+    topic: string;
+    createdAt: number;
+    updatedAt: number;
+  };
+  options: GenerationOptions;
+  generator?: GeneratorInfo;
+  theme?: BundleTheme;
+  music?: BundleMusic;
+  usage?: BundleUsage;
+  slides: BundleSlide[];
+}
+
+export class BundleError extends Error {
+  constructor(message: string, readonly issues: string[] = []) {
+    super(issues.length > 0 ? `${message}\n- ${issues.join('\n- ')}` : message);
+    this.name = 'BundleError';
+  }
+}
+
+const slideFileName = (index: number) => `slide-${String(index + 1).padStart(2, '0')}`;
+
+export function createBundle(project: PresentationProject, prices: PriceTable = loadPriceTable()): Uint8Array {
+  const assets: ZipEntry[] = [];
+  let start = 0;
+
+  const slides: BundleSlide[] = project.slides.map((slide, index) => {
+    const { imageUrl, audioData, ...fields } = slide;
+    const audioPath = `audio/${slideFileName(index)}.wav`;
+    assets.push({ name: audioPath, data: pcmToWav(decode(audioData), SAMPLE_RATE, 1) });
+    const bundleSlide: BundleSlide = { ...fields, start, audio: audioPath };
+    if (imageUrl) {
+      const image = parseDataUrl(imageUrl);
+      bundleSlide.image = `images/${slideFileName(index)}.${imageExtension(image.mimeType)}`;
+      assets.push({ name: bundleSlide.image, data: image.data });
+    }
+
+    start += slide.duration;
+    return bundleSlide;
+  });
+
+  let theme: BundleTheme | undefined;
+  if (project.theme) {
+    const { logoUrl, ...fields } = project.theme;
+    theme = fields;
+    if (logoUrl) {
+      const logo = parseDataUrl(logoUrl);
+      theme.logo = `theme/logo.${imageExtension(logo.mimeType)}`;
+      assets.push({ name: theme.logo, data: logo.data });
+    }
+  }
+
+  let music: BundleMusic | undefined;
+  if (project.music) {
+    const { source, ...fields } = project.music;
+    if (source.type === 'upload') {
+      const track = parseDataUrl(source.dataUrl);
+      const file = `music/track.${MUSIC_EXTENSIONS[track.mimeType] ?? 'bin'}`;
+      assets.push({ name: file, data: track.data });
+      music = { ...fields, source: { type: 'upload', name: source.name, file } };
+    } else {
+      music = { ...fields, source };
+    }
+  }
+
+  const manifest: BundleManifest = {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    project: {
+      name: project.name,
+      topic: project.topic,
+      createdAt: project.createdAt,
+      updatedAt: project.updatedAt,
+    },
+    options: project.options,
+    ...(project.generator && { generator: project.generator }),
+    ...(theme && { theme }),
+    ...(music && { music }),
+    ...(project.usage && { usage: { records: project.usage, summary: toUsageMetadata(project.usage, prices), prices } }),
+    slides,
+  };
+
+  return createZip([{ name: MANIFEST_PATH, data: encodeText(JSON.stringify(manifest, null, 2)) }, ...assets]);
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+function expectFields(
+  issues: string[],
+  value: unknown,
+  path: string,
+  fields: Record<string, 'string' | 'number'>,
+): value is Record<string, unknown> {
+  if (!isRecord(value)) {
+    issues.push(`${path} must be an object.`);
+    return false;
+  }
+  for (const [field, type] of Object.entries(fields)) {
+    const fieldValue = value[field];
+    if (typeof fieldValue !== type || (type === 'number' && !Number.isFinite(fieldValue))) {
+      issues.push(`${path}.${field} must be a ${type}.`);
+    }
+  }
+  return true;
+}
+
+const isSlideLayout = (value: unknown) => typeof value === 'string' && Object.hasOwn(SLIDE_LAYOUTS, value);
+
+function validateBackground(issues: string[], background: unknown, path: string) {
+  if (!expectFields(issues, background, path, { type: 'string' })) return;
+  if (background.type === 'solid') {
+    expectFields(issues, background, path, { color: 'string' });
+  } else if (background.type === 'gradient') {
+    expectFields(issues, background, path, { from: 'string', to: 'string', angle: 'number' });
+  } else if (typeof background.type === 'string') {
+    issues.push(`${path}.type must be solid or gradient.`);
+  }
+}
+
+function validateManifest(value: unknown): BundleManifest {
+  if (!isRecord(value) || value.format !== BUNDLE_FORMAT) {
+    throw new BundleError(`${MANIFEST_PATH} is not a presentation bundle manifest.`);
+  }
+  if (typeof value.version !== 'number' || !Number.isInteger(value.version) || value.version < 1) {
+    throw new BundleError(`${MANIFEST_PATH} has an invalid version.`);
+  }
+  if (value.version > BUNDLE_VERSION) {
+    throw new BundleError(
+      `This bundle uses format version ${value.version}, but this app only reads up to version ${BUNDLE_VERSION}. Update the app to open it.`,
+    );
+  }
+
+  const issues: string[] = [];
+  expectFields(issues, value.project, 'project', { name: 'string', topic: 'string', createdAt: 'number', updatedAt: 'number' });
+  expectFields(issues, value.options, 'options', {
+    slideCount: 'number',
+    minWordsPerSlide: 'number',
+    maxWordsPerSlide: 'number',
+    audience: 'string',
+    tone: 'string',
+    language: 'string',
+    voiceName: 'string',
+  });
+  const options = value.options;
+  if (isRecord(options)) {
+    if (typeof options.slideCount === 'number' && (!Number.isInteger(options.slideCount) || options.slideCount < 1)) {
+      issues.push('options.slideCount must be a whole number of at least 1.');
+    }
+    if (options.speakers !== undefined) {
+      if (!Array.isArray(options.speakers)) {
+        issues.push('options.speakers must be an array.');
+      } else {
+        options.speakers.forEach((speaker, index) => {
+          expectFields(issues, speaker, `options.speakers[${index}]`, { name: 'string', voiceName: 'string' });
+        });
+      }
+    }
+    if (options.imageMode !== undefined && options.imageMode !== 'generate' && options.imageMode !== 'background') {
+      issues.push('options.imageMode must be generate or background.');
+    }
+    if (options.background !== undefined) {
+      validateBackground(issues, options.background, 'options.background');
+    }
+    if (options.quizQuestions !== undefined && !(
+      typeof options.quizQuestions === 'number' && Number.isInteger(options.quizQuestions)
+      && options.quizQuestions >= 0 && options.quizQuestions <= MAX_QUIZ_QUESTIONS
+    )) {
+      issues.push(`options.quizQuestions must be a whole number from 0 to ${MAX_QUIZ_QUESTIONS}.`);
+    }
+    if (options.chapters !== undefined && typeof options.chapters !== 'boolean') {
+      issues.push('options.chapters must be a boolean.');
+    }
+  }
+  if (value.generator !== undefined) {
+    expectFields(issues, value.generator, 'generator', {
+      provider: 'string',
+      scriptModel: 'string',
+      imageModel: 'string',
+      speechModel: 'string',
+    });
+  }
+  const theme = value.theme;
+  if (theme !== undefined && expectFields(issues, theme, 'theme', {
+    id: 'string',
+    name: 'string',
+    backgroundColor: 'string',
+    textColor: 'string',
+    accentColor: 'string',
+    titleFont: 'string',
+    bodyFont: 'string',
+    defaultLayout: 'string',
+  })) {
+    if (typeof theme.defaultLayout === 'string' && !isSlideLayout(theme.defaultLayout)) {
+      issues.push(`theme.defaultLayout must be one of ${Object.keys(SLIDE_LAYOUTS).join(', ')}.`);
+    }
+    if (theme.logo !== undefined && typeof theme.logo !== 'string') {
+      issues.push('theme.logo must be a string.');
+    }
+  }
+  const music = value.music;
+  if (music !== undefined && expectFields(issues, music, 'music', { volume: 'number', fadeIn: 'number', fadeOut: 'number', duckLevel: 'number' })) {
+    const source = music.source;
+    if (expectFields(issues, source, 'music.source', { type: 'string' })) {
+      if (source.type === 'loop') {
+        expectFields(issues, source, 'music.source', { loopId: 'string' });
+      } else if (source.type === 'upload') {
+        expectFields(issues, source, 'music.source', { name: 'string', file: 'string' });
+      } else if (typeof source.type === 'string') {
+        issues.push('music.source.type must be loop or upload.');
+      }
+    }
+  }
+  if (!Array.isArray(value.slides) || value.slides.length === 0) {
+    issues.push('slides must be a non-empty array.');
+  } else {
+    value.slides.forEach((slide, index) => {
+      expectFields(issues, slide, `slides[${index}]`, {
+        title: 'string',
+        narration: 'string',
+        imagePrompt: 'string',
+        start: 'number',
+        duration: 'number',
+        audio: 'string',
+      });
+      if (isRecord(slide) && slide.image !== undefined && typeof slide.image !== 'string') {
+        issues.push(`slides[${index}].image must be a string.`);
+      }
+      if (isRecord(slide) && slide.imageSource !== undefined && slide.imageSource !== 'generated' && slide.imageSource !== 'upload') {
+        issues.push(`slides[${index}].imageSource must be generated or upload.`);
+      }
+      if (isRecord(slide) && slide.narrationSource !== undefined && slide.narrationSource !== 'tts' && slide.narrationSource !== 'recording') {
+        issues.push(`slides[${index}].narrationSource must be tts or recording.`);
+      }
+      if (isRecord(slide) && slide.voices !== undefined) {
+        if (!isRecord(slide.voices) || Object.values(slide.voices).some(voice => typeof voice !== 'string')) {
+          issues.push(`slides[${index}].voices must map speaker names to voice names.`);
+        }
+      }
+      if (isRecord(slide) && slide.imageFit !== undefined && slide.imageFit !== 'cover' && slide.imageFit !== 'contain') {
+        issues.push(`slides[${index}].imageFit must be cover or contain.`);
+      }
+      if (isRecord(slide) && slide.imageCrop !== undefined) {
+        expectFields(issues, slide.imageCrop, `slides[${index}].imageCrop`, { x: 'number', y: 'number', width: 'number', height: 'number' });
+      }
+      if (isRecord(slide) && slide.background !== undefined) {
+        validateBackground(issues, slide.background, `slides[${index}].background`);
+      }
+      if (isRecord(slide) && slide.citations !== undefined) {
+        if (!Array.isArray(slide.citations)) {
+          issues.push(`slides[${index}].citations must be an array.`);
+        } else {
+          slide.citations.forEach((citation, citationIndex) => {
+            expectFields(issues, citation, `slides[${index}].citations[${citationIndex}]`, { source: 'string', quote: 'string' });
+          });
+        }
+      }
+      if (isRecord(slide) && slide.bullets !== undefined) {
+        if (!Array.isArray(slide.bullets) || slide.bullets.some(bullet => typeof bullet !== 'string')) {
+          issues.push(`slides[${index}].bullets must be an array of strings.`);
+        }
+      }
+      if (isRecord(slide) && slide.layout !== undefined && !isSlideLayout(slide.layout)) {
+        issues.push(`slides[${index}].layout must be one of ${Object.keys(SLIDE_LAYOUTS).join(', ')}.`);
+      }
+      if (isRecord(slide) && slide.chapter !== undefined && typeof slide.chapter !== 'string') {
+        issues.push(`slides[${index}].chapter must be a string.`);
+      }
+      if (isRecord(slide) && slide.quiz !== undefined) {
+        if (!Array.isArray(slide.quiz)) {
+          issues.push(`slides[${index}].quiz must be an array.`);
+        } else {
+          slide.quiz.forEach((question, questionIndex) => issues.push(...validateQuizQuestion(question, `slides[${index}].quiz[${questionIndex}]`)));
+        }
+      }
+      if (isRecord(slide) && slide.transition !== undefined) {
+        expectFields(issues, slide.transition, `slides[${index}].transition`, { type: 'string', duration: 'number' });
+      }
+      if (isRecord(slide) && slide.motion !== undefined) {
+        const motionPath = `slides[${index}].motion`;
+        if (expectFields(issues, slide.motion, motionPath, {})) {
+          const rect = { x: 'number', y: 'number', width: 'number', height: 'number' } as const;
+          expectFields(issues, slide.motion.start, `${motionPath}.start`, rect);
+          expectFields(issues, slide.motion.end, `${motionPath}.end`, rect);
+        }
+      }
+    });
+  }
+
+  const usage = value.usage;
+  if (usage !== undefined && expectFields(issues, usage, 'usage', {})) {
+    if (!Array.isArray(usage.records)) {
+      issues.push('usage.records must be an array.');
+    } else {
+      usage.records.forEach((record, index) => {
+        const path = `usage.records[${index}]`;
+        if (!expectFields(issues, record, path, {
+          kind: 'string',
+          provider: 'string',
+          model: 'string',
+          inputTokens: 'number',
+          outputTokens: 'number',
+          images: 'number',
+          audioSeconds: 'number',
+          latencyMs: 'number',
+          startedAt: 'number',
+        })) return;
+        if (typeof record.kind === 'string' && !USAGE_KINDS.includes(record.kind as UsageRecord['kind'])) {
+          issues.push(`${path}.kind must be one of ${USAGE_KINDS.join(', ')}.`);
+        }
+        if (typeof record.cached !== 'boolean' || typeof record.failed !== 'boolean') {
+          issues.push(`${path}.cached and ${path}.failed must be booleans.`);
+        }
+        if (record.repair !== undefined && typeof record.repair !== 'boolean') {
+          issues.push(`${path}.repair must be a boolean.`);
+        }
+      });
+    }
+  }
+
+  if (issues.length > 0) {
+    throw new BundleError('The bundle manifest is malformed:', issues);
+  }
+  return value as unknown as BundleManifest;
+}
+
+function readSlide(bundleSlide: BundleSlide, index: number, files: Map<string, Uint8Array>): GeneratedSlide {
+  const { start: _start, image, audio, ...fields } = bundleSlide;
+  const path = `slides[${index}]`;
+
+  let imageUrl = '';
+  if (image !== undefined) {
+    const imageBytes = files.get(image);
+    const mimeType = imageMimeType(image);
+    if (!imageBytes) {
+      throw new BundleError(`${path}.image points to "${image}", which is not in the bundle.`);
+    }
+    if (!mimeType) {
+      throw new BundleError(`${path}.image "${image}" is not a supported image type.`);
+    }
+    imageUrl = toDataUrl(mimeType, imageBytes);
+  }
+
+  const audioBytes = files.get(audio);
+  if (!audioBytes) {
+    throw new BundleError(`${path}.audio points to "${audio}", which is not in the bundle.`);
+  }
+  let pcm: Uint8Array;
+  try {
+    const wav = wavToPcm(audioBytes);
+    if (wav.sampleRate !== SAMPLE_RATE || wav.numChannels !== 1) {
+      throw new Error(`expected ${SAMPLE_RATE} Hz mono audio, found ${wav.sampleRate} Hz with ${wav.numChannels} channel(s)`);
+    }
+    pcm = wav.pcm;
+  } catch (err) {
+    throw new BundleError(`${path}.audio "${audio}" is unreadable: ${err instanceof Error ? err.message : err}`);
+  }
+
+  return {
+    ...fields,
+    imageUrl,
+    audioData: encode(pcm),
+    // The audio itself is the source of truth for timing
+    duration: getPcmDuration(pcm, SAMPLE_RATE, 1),
+  };
+}
+
+function readTheme(bundleTheme: BundleTheme, files: Map<string, Uint8Array>): Theme {
+  const { logo, ...fields } = bundleTheme;
+  if (logo === undefined) return fields;
+  const logoBytes = files.get(logo);
+  const mimeType = imageMimeType(logo);
+  if (!logoBytes) {
+    throw new BundleError(`theme.logo points to "${logo}", which is not in the bundle.`);
+  }
+  if (!mimeType) {
+    throw new BundleError(`theme.logo "${logo}" is not a supported image type.`);
+  }
+  return { ...fields, logoUrl: toDataUrl(mimeType, logoBytes) };
+}
+
+function readMusic(bundleMusic: BundleMusic, files: Map<string, Uint8Array>): MusicBed {
+  const { source, ...fields } = bundleMusic;
+  if (source.type === 'loop') return { ...fields, source };
+  const trackBytes = files.get(source.file);
+  if (!trackBytes) {
+    throw new BundleError(`music.source.file points to "${source.file}", which is not in the bundle.`);
+  }
+  const extension = source.file.split('.').pop()?.toLowerCase();
+  const mimeType = Object.keys(MUSIC_EXTENSIONS).find(type => MUSIC_EXTENSIONS[type] === extension) ?? 'application/octet-stream';
+  return { ...fields, source: { type: 'upload', name: source.name, dataUrl: toDataUrl(mimeType, trackBytes) } };
+}
+
+// Returns the bundle's project under a fresh id so importing never overwrites a saved project.
+export async function readBundle(data: Uint8Array): Promise<PresentationProject> {
+  let files: Map<string, Uint8Array>;
+  try {
+    files = await readZip(data);
+  } catch (err) {
+    throw new BundleError(`The file is not a valid bundle archive: ${err instanceof Error ? err.message : err}`);
+  }
+
+  const manifestBytes = files.get(MANIFEST_PATH);
+  if (!manifestBytes) {
+    throw new BundleError(`The archive has no ${MANIFEST_PATH}.`);
+  }
+  let manifestJson: unknown;
+  try {
+    manifestJson = JSON.parse(decodeText(manifestBytes));
+  } catch (err) {
+    throw new BundleError(`${MANIFEST_PATH} is not valid JSON: ${err instanceof Error ? err.message : err}`);
+  }
+
+  const manifest = validateManifest(manifestJson);
+  return {
+    id: crypto.randomUUID(),
+    ...manifest.project,
+    options: manifest.options,
+    ...(manifest.generator && { generator: manifest.generator }),
+    ...(manifest.theme && { theme: readTheme(manifest.theme, files) }),
+    ...(manifest.music && { music: readMusic(manifest.music, files) }),
+    ...(manifest.usage && { usage: manifest.usage.records }),
+    slides: manifest.slides.map((slide, index) => readSlide(slide, index, files)),
+  };
+}
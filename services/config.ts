@@ -0,0 +1,39 @@
+import { ProviderName } from './providers/types';
+
+export interface ServiceConfig {
+  provider: ProviderName;
+  apiKey: string;
+  scriptModel?: string;
+  imageModel?: string;
+  speechModel?: string;
+  // Points the Gemini client at another endpoint, e.g. a local stub when testing the proxy.
+  geminiBaseUrl?: string;
+  // Where the 'proxy' provider finds the server in server/; empty means the app's own origin.
+  proxyUrl: string;
+}
+
+const PROVIDERS: ProviderName[] = ['gemini', 'mock', 'proxy'];
+
+// The key is deliberately not injected into the browser build, where `process` does not exist,
+// so it is only ever read where the proxy server or another Node process runs.
+const readApiKey = () => (typeof process === 'undefined' ? '' : process.env.GEMINI_API_KEY || process.env.API_KEY || '');
+
+// Values are injected by vite.config.ts in the browser and read from the environment in Node.
+export function loadServiceConfig(): ServiceConfig {
+  const apiKey = readApiKey();
+  const requested = process.env.GENERATION_PROVIDER;
+  if (requested && !PROVIDERS.includes(requested as ProviderName)) {
+    throw new Error(`Unknown GENERATION_PROVIDER "${requested}". Use "gemini", "mock" or "proxy".`);
+  }
+
+  return {
+    // Without an explicit choice, fall back to the offline backend when no key is configured.
+    provider: (requested as ProviderName) || (apiKey ? 'gemini' : 'mock'),
+    apiKey,
+    scriptModel: process.env.GEMINI_SCRIPT_MODEL || undefined,
+    imageModel: process.env.GEMINI_IMAGE_MODEL || undefined,
+    speechModel: process.env.GEMINI_TTS_MODEL || undefined,
+    geminiBaseUrl: process.env.GEMINI_BASE_URL || undefined,
+    proxyUrl: process.env.PROXY_URL || '',
+  };
+}
@@ -1,87 +1,206 @@
+import { GenerationOptions, GeneratorInfo, Slide, SourceDocument, UsageKind, UsageRecord } from '../types';
+import { DEFAULT_GENERATION_OPTIONS, SCRIPT_LIMITS } from '../constants';
+import { getNarrationDuration } from '../utils/audioUtils';
+import { ScriptValidationError, validateScript } from '../utils/scriptValidation';
+import { isDialogue } from '../utils/speakers';
+import { CacheKeyParts, CachePolicy, withCache } from './assetCache';
+import { loadServiceConfig, ServiceConfig } from './config';
+import { createGeminiProvider, DEFAULT_GEMINI_MODELS } from './providers/geminiProvider';
+import { createMockProvider } from './providers/mockProvider';
+import { createProxyProvider } from './providers/proxyProvider';
+import { GenerationProvider, ProviderResult, ScriptRepair } from './providers/types';
 
-import { GoogleGenAI, Type, Modality } from "@google/genai";
-import { Slide } from '../types';
-
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY as string });
-
-export async function generatePresentationScript(topic: string): Promise<Slide[]> {
-  const response = await ai.models.generateContent({
-    model: "gemini-2.5-pro",
-    contents: `Create a script for a short, educational video presentation about "${topic}". 
-    The presentation should be engaging and easy to understand.
-    Generate exactly 5 slides.
-    For each slide, provide a "title", a concise "narration" (around 30-50 words), and an "imagePrompt" for an AI image generator that visually represents the slide's content.`,
-    config: {
-      responseMimeType: "application/json",
-      responseSchema: {
-        type: Type.OBJECT,
-        properties: {
-          slides: {
-            type: Type.ARRAY,
-            items: {
-              type: Type.OBJECT,
-              properties: {
-                title: {
-                  type: Type.STRING,
-                  description: "The title of the slide."
-                },
-                narration: {
-                  type: Type.STRING,
-                  description: "The narration script for this slide."
-                },
-                imagePrompt: {
-                  type: Type.STRING,
-                  description: "A descriptive prompt to generate an image for this slide."
-                }
-              },
-              required: ["title", "narration", "imagePrompt"]
-            }
-          }
-        },
-        required: ["slides"]
-      }
-    }
-  });
+export function createProvider(config: ServiceConfig): GenerationProvider {
+  const models = {
+    ...(config.scriptModel && { script: config.scriptModel }),
+    ...(config.imageModel && { image: config.imageModel }),
+    ...(config.speechModel && { speech: config.speechModel }),
+  };
+  switch (config.provider) {
+    case 'mock':
+      return createMockProvider();
+    case 'gemini':
+      return createGeminiProvider({ apiKey: config.apiKey, baseUrl: config.geminiBaseUrl, models });
+    case 'proxy':
+      // The server reads the same model settings, so these name what it will use
+      return createProxyProvider({ baseUrl: config.proxyUrl, models: { ...DEFAULT_GEMINI_MODELS, ...models } });
+  }
+}
 
-  const jsonResponse = JSON.parse(response.text);
-  return jsonResponse.slides;
+let activeProvider: GenerationProvider | null = null;
+
+export function getProvider(): GenerationProvider {
+  if (!activeProvider) {
+    activeProvider = createProvider(loadServiceConfig());
+  }
+  return activeProvider;
 }
 
-export async function generateImageForSlide(prompt: string): Promise<string> {
-  const response = await ai.models.generateContent({
-    model: 'gemini-2.5-flash-image',
-    contents: {
-      parts: [{ text: prompt }],
-    },
-    config: {
-      responseModalities: [Modality.IMAGE],
-    },
-  });
+// Overrides the configured backend, e.g. to run against the mock provider in tests.
+export function setProvider(provider: GenerationProvider): void {
+  activeProvider = provider;
+}
+
+export function getGeneratorInfo(): GeneratorInfo {
+  const { name, models } = getProvider();
+  return { provider: name, scriptModel: models.script, imageModel: models.image, speechModel: models.speech };
+}
 
-  const part = response.candidates?.[0]?.content?.parts?.[0];
-  if (part?.inlineData) {
-    return part.inlineData.data;
+// Receives a record of every request made, including those answered from the cache.
+export type UsageListener = (record: UsageRecord) => void;
+
+type UsageCounts = Pick<UsageRecord, 'images' | 'audioSeconds'>;
+
+const NO_COUNTS: UsageCounts = { images: 0, audioSeconds: 0 };
+
+function createUsageRecord(kind: UsageKind, provider: GenerationProvider, startedAt: number, latencyMs: number): UsageRecord {
+  return {
+    kind,
+    provider: provider.name,
+    model: provider.models[kind],
+    inputTokens: 0,
+    outputTokens: 0,
+    ...NO_COUNTS,
+    latencyMs: Math.round(latencyMs),
+    cached: false,
+    failed: false,
+    startedAt,
+  };
+}
+
+// Times one provider request and reports what it used. Failed requests are reported too, as
+// they still take time and may still be billed.
+async function trackRequest<T>(
+  kind: UsageKind,
+  provider: GenerationProvider,
+  onUsage: UsageListener | undefined,
+  request: () => Promise<ProviderResult<T>>,
+  count: (value: T) => UsageCounts = () => NO_COUNTS,
+): Promise<T> {
+  const startedAt = Date.now();
+  const started = performance.now();
+  try {
+    const { value, usage } = await request();
+    onUsage?.({ ...createUsageRecord(kind, provider, startedAt, performance.now() - started), ...usage, ...count(value) });
+    return value;
+  } catch (err) {
+    onUsage?.({ ...createUsageRecord(kind, provider, startedAt, performance.now() - started), failed: true });
+    throw err;
   }
-  throw new Error("Image generation failed or returned no data.");
 }
 
-export async function generateNarrationAudio(script: string): Promise<string> {
-  const response = await ai.models.generateContent({
-    model: "gemini-2.5-flash-preview-tts",
-    contents: [{ parts: [{ text: `Read the following presentation script in a clear, pleasant, and engaging voice: ${script}` }] }],
-    config: {
-      responseModalities: [Modality.AUDIO],
-      speechConfig: {
-        voiceConfig: {
-          prebuiltVoiceConfig: { voiceName: 'Kore' },
-        },
-      },
-    },
+// withCache, reporting a free record when the cache answers instead of the provider.
+async function withTrackedCache(
+  parts: CacheKeyParts,
+  cachePolicy: CachePolicy,
+  provider: GenerationProvider,
+  onUsage: UsageListener | undefined,
+  produce: () => Promise<string>,
+): Promise<string> {
+  const startedAt = Date.now();
+  const started = performance.now();
+  let produced = false;
+  const value = await withCache(parts, cachePolicy, () => {
+    produced = true;
+    return produce();
   });
-  
-  const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
-  if (!base64Audio) {
-    throw new Error("Audio generation failed.");
+  if (!produced) onUsage?.({ ...createUsageRecord(parts.kind, provider, startedAt, performance.now() - started), cached: true });
+  return value;
+}
+
+// Returns the provider's script once it validates. A script with problems is sent back with
+// the list of them, up to SCRIPT_LIMITS.maxRepairs times, before ScriptValidationError is thrown
+// with the number of attempts made. Repair requests are marked as such in their usage records.
+async function generateValidScript(
+  provider: GenerationProvider,
+  topic: string,
+  options: GenerationOptions,
+  sources: SourceDocument[],
+  onUsage?: UsageListener,
+): Promise<Slide[]> {
+  let repair: ScriptRepair | undefined;
+  for (let attempt = 1; ; attempt++) {
+    let issues: string[];
+    let previous: string;
+    const report: UsageListener | undefined = repair && onUsage ? record => onUsage({ ...record, repair: true }) : onUsage;
+    try {
+      const slides = await trackRequest('script', provider, report, () => provider.generateScript(topic, options, sources, repair));
+      issues = validateScript(slides, options, sources);
+      if (issues.length === 0) return slides;
+      previous = JSON.stringify({ slides });
+    } catch (err) {
+      if (!(err instanceof ScriptValidationError)) throw err;
+      issues = err.issues;
+      previous = err.output ?? '';
+    }
+    if (attempt > SCRIPT_LIMITS.maxRepairs) {
+      throw new ScriptValidationError(issues, attempt, previous);
+    }
+    repair = { previous, issues };
   }
-  return base64Audio;
+}
+
+export async function generatePresentationScript(
+  topic: string,
+  options: GenerationOptions = DEFAULT_GENERATION_OPTIONS,
+  sources: SourceDocument[] = [],
+  cachePolicy: CachePolicy = 'use',
+  onUsage?: UsageListener,
+): Promise<Slide[]> {
+  const provider = getProvider();
+  // Sources are keyed by content, not id, so re-attaching the same file still hits the cache
+  const sourceContents = sources.map(({ name, mimeType, text, data }) => ({ name, mimeType, text, data }));
+  // How slides are illustrated, or which voices read a dialogue, does not change what the script says
+  const { imageMode: _imageMode, background: _background, speakers, ...scriptOptions } = options;
+  const speakerNames = isDialogue(options) ? speakers!.map(speaker => speaker.name) : undefined;
+  const json = await withTrackedCache(
+    {
+      kind: 'script',
+      provider: provider.name,
+      model: provider.models.script,
+      prompt: topic,
+      config: { ...scriptOptions, ...(speakerNames && { speakers: speakerNames }), sources: sourceContents },
+    },
+    cachePolicy,
+    provider,
+    onUsage,
+    async () => JSON.stringify(await generateValidScript(provider, topic, options, sources, onUsage)),
+  );
+  return JSON.parse(json);
+}
+
+export async function generateImageForSlide(prompt: string, cachePolicy: CachePolicy = 'use', onUsage?: UsageListener): Promise<string> {
+  const provider = getProvider();
+  return withTrackedCache(
+    { kind: 'image', provider: provider.name, model: provider.models.image, prompt },
+    cachePolicy,
+    provider,
+    onUsage,
+    () => trackRequest('image', provider, onUsage, () => provider.generateImage(prompt), () => ({ images: 1, audioSeconds: 0 })),
+  );
+}
+
+export async function generateNarrationAudio(
+  script: string,
+  options: GenerationOptions = DEFAULT_GENERATION_OPTIONS,
+  cachePolicy: CachePolicy = 'use',
+  onUsage?: UsageListener,
+): Promise<string> {
+  const provider = getProvider();
+  // Only the options that change how the speech sounds belong in the key
+  const { voiceName, tone, language } = options;
+  const speakers = isDialogue(options) ? options.speakers : undefined;
+  return withTrackedCache(
+    { kind: 'speech', provider: provider.name, model: provider.models.speech, prompt: script, config: { voiceName, tone, language, ...(speakers && { speakers }) } },
+    cachePolicy,
+    provider,
+    onUsage,
+    () => trackRequest('speech', provider, onUsage, () => provider.generateSpeech(script, options), audio => ({ images: 0, audioSeconds: getNarrationDuration(audio) })),
+  );
+}
+
+// A short sample of one voice, cached like any other narration so replaying it is free.
+export async function generateVoicePreview(voiceName: string, options: GenerationOptions = DEFAULT_GENERATION_OPTIONS): Promise<string> {
+  const sample = `Hello! I'm ${voiceName}, and this is how I would sound narrating your presentation.`;
+  return generateNarrationAudio(sample, { ...options, voiceName, language: 'English', speakers: undefined });
 }
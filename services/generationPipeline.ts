@@ -0,0 +1,232 @@
+import { GeneratedSlide, GenerationOptions, Slide, SlideBackground, SourceDocument } from '../types';
+import { DEFAULT_GENERATION_OPTIONS } from '../constants';
+import { getNarrationDuration } from '../utils/audioUtils';
+import { generateImageForSlide, generateNarrationAudio, generatePresentationScript, UsageListener } from './geminiService';
+
+export type StepStatus = 'pending' | 'generating' | 'done' | 'failed';
+
+export type AssetStep = 'image' | 'narration';
+
+export const ASSET_STEPS: AssetStep[] = ['image', 'narration'];
+
+// One slide's progress through the asset steps. Finished assets are kept so a later run
+// only has to redo the steps that did not complete.
+export interface PipelineSlide {
+  slide: Slide;
+  status: Record<AssetStep, StepStatus>;
+  errors: Partial<Record<AssetStep, string>>;
+  imageUrl?: string;
+  // Set instead of an image when the deck does not use AI images.
+  background?: SlideBackground;
+  audioData?: string;
+  duration?: number;
+}
+
+export interface PipelineOptions {
+  // Maximum number of asset requests in flight at once.
+  concurrency: number;
+  // Attempts after the first one, for errors that look transient.
+  retries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export const DEFAULT_PIPELINE_OPTIONS: PipelineOptions = {
+  concurrency: 3,
+  retries: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 16000,
+};
+
+export interface RunPipelineOptions extends Partial<PipelineOptions> {
+  signal?: AbortSignal;
+  // Called with a fresh copy of a slide's state every time one of its steps changes.
+  onUpdate?: (index: number, slide: PipelineSlide) => void;
+  // Called for every request made, retries included.
+  onUsage?: UsageListener;
+}
+
+const RETRYABLE_STATUS = new Set([408, 429, 500, 502, 503, 504]);
+
+// Rate limits, overloaded servers and dropped connections are worth retrying; bad requests,
+// auth problems and safety blocks will fail the same way every time.
+export function isRetryableError(err: unknown): boolean {
+  if (err instanceof DOMException && err.name === 'AbortError') return false;
+  const status = (err as { status?: unknown } | null)?.status;
+  if (typeof status === 'number') return RETRYABLE_STATUS.has(status);
+  if (err instanceof TypeError) return true;
+  const message = err instanceof Error ? err.message : String(err);
+  return /\b(429|500|502|503|504)\b|RESOURCE_EXHAUSTED|UNAVAILABLE|rate limit|overloaded|timed? ?out|network/i.test(message);
+}
+
+function abortError(signal: AbortSignal): unknown {
+  return signal.reason ?? new DOMException('The operation was aborted.', 'AbortError');
+}
+
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(abortError(signal));
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError(signal!));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+// Providers cannot cancel a request already sent, so an aborted run simply stops waiting for it.
+function abortable<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return promise;
+  return new Promise((resolve, reject) => {
+    if (signal.aborted) return reject(abortError(signal));
+    const onAbort = () => reject(abortError(signal));
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
+
+// Exponential backoff with full jitter, so parallel requests that were throttled together
+// do not all come back at the same moment.
+export async function withRetry<T>(
+  task: () => Promise<T>,
+  options: Pick<PipelineOptions, 'retries' | 'baseDelayMs' | 'maxDelayMs'> & { signal?: AbortSignal },
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    options.signal?.throwIfAborted();
+    try {
+      return await abortable(task(), options.signal);
+    } catch (err) {
+      if (options.signal?.aborted || attempt >= options.retries || !isRetryableError(err)) throw err;
+      const ceiling = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** attempt);
+      await delay(Math.random() * ceiling, options.signal);
+    }
+  }
+}
+
+// Runs tasks with at most `concurrency` of them in flight, in the order they were queued.
+export function createLimiter(concurrency: number): <T>(task: () => Promise<T>) => Promise<T> {
+  let active = 0;
+  const queue: (() => void)[] = [];
+  const next = () => {
+    if (active < concurrency && queue.length > 0) {
+      active++;
+      queue.shift()!();
+    }
+  };
+  return task => new Promise((resolve, reject) => {
+    queue.push(() => {
+      task().then(resolve, reject).finally(() => {
+        active--;
+        next();
+      });
+    });
+    next();
+  });
+}
+
+// Decks without AI images start with their image step already done, showing the chosen background.
+export function createPipelineSlides(slides: Slide[], options?: GenerationOptions): PipelineSlide[] {
+  if (options?.imageMode === 'background') {
+    const background = options.background ?? DEFAULT_GENERATION_OPTIONS.background;
+    return slides.map(slide => ({ slide, status: { image: 'done', narration: 'pending' }, errors: {}, background }));
+  }
+  return slides.map(slide => ({ slide, status: { image: 'pending', narration: 'pending' }, errors: {} }));
+}
+
+export async function generateScriptWithRetry(
+  topic: string,
+  options: GenerationOptions,
+  sources: SourceDocument[] = [],
+  runOptions: RunPipelineOptions = {},
+): Promise<Slide[]> {
+  const { retries, baseDelayMs, maxDelayMs } = { ...DEFAULT_PIPELINE_OPTIONS, ...runOptions };
+  return withRetry(
+    () => generatePresentationScript(topic, options, sources, 'use', runOptions.onUsage),
+    { retries, baseDelayMs, maxDelayMs, signal: runOptions.signal },
+  );
+}
+
+// Generates every asset that is not already done. Individual failures are recorded on the
+// slide instead of failing the run; only cancelling rejects. Returns the final state.
+export async function runAssetPipeline(
+  initial: PipelineSlide[],
+  options: GenerationOptions,
+  runOptions: RunPipelineOptions = {},
+): Promise<PipelineSlide[]> {
+  const { concurrency, retries, baseDelayMs, maxDelayMs } = { ...DEFAULT_PIPELINE_OPTIONS, ...runOptions };
+  const { signal, onUpdate, onUsage } = runOptions;
+  const slides = initial.map(slide => ({ ...slide, status: { ...slide.status }, errors: { ...slide.errors } }));
+  const limit = createLimiter(concurrency);
+
+  const update = (index: number, change: (slide: PipelineSlide) => PipelineSlide) => {
+    slides[index] = change(slides[index]);
+    onUpdate?.(index, slides[index]);
+  };
+
+  const runStep = async (index: number, step: AssetStep) => {
+    const generate = async () => {
+      const { slide } = slides[index];
+      if (step === 'image') {
+        const base64Image = await generateImageForSlide(slide.imagePrompt, 'use', onUsage);
+        return { imageUrl: `data:image/png;base64,${base64Image}` };
+      }
+      const audioData = await generateNarrationAudio(slide.narration, options, 'use', onUsage);
+      return { audioData, duration: getNarrationDuration(audioData) };
+    };
+
+    try {
+      const result = await limit(async () => {
+        signal?.throwIfAborted();
+        update(index, current => ({ ...current, status: { ...current.status, [step]: 'generating' } }));
+        return withRetry(generate, { retries, baseDelayMs, maxDelayMs, signal });
+      });
+      update(index, current => {
+        const { [step]: _cleared, ...errors } = current.errors;
+        return { ...current, ...result, status: { ...current.status, [step]: 'done' }, errors };
+      });
+    } catch (err) {
+      if (signal?.aborted) {
+        // Interrupted work goes back to pending so that resuming picks it up
+        update(index, current => ({ ...current, status: { ...current.status, [step]: 'pending' } }));
+        return;
+      }
+      console.error(`Slide ${index + 1} ${step} failed`, err);
+      update(index, current => ({
+        ...current,
+        status: { ...current.status, [step]: 'failed' },
+        errors: { ...current.errors, [step]: err instanceof Error ? err.message : String(err) },
+      }));
+    }
+  };
+
+  const steps: Promise<void>[] = [];
+  slides.forEach((slide, index) => {
+    for (const step of ASSET_STEPS) {
+      if (slide.status[step] !== 'done') steps.push(runStep(index, step));
+    }
+  });
+  await Promise.all(steps);
+  signal?.throwIfAborted();
+  return slides;
+}
+
+export function isPipelineComplete(slides: PipelineSlide[]): boolean {
+  return slides.every(slide => ASSET_STEPS.every(step => slide.status[step] === 'done'));
+}
+
+export function toGeneratedSlides(slides: PipelineSlide[]): GeneratedSlide[] {
+  if (!isPipelineComplete(slides)) {
+    throw new Error('Some slides are still missing an image or narration.');
+  }
+  return slides.map(({ slide, imageUrl, background, audioData, duration }) => ({
+    ...slide,
+    imageUrl: imageUrl ?? '',
+    ...(background && { background }),
+    audioData: audioData!,
+    duration: duration!,
+  }));
+}
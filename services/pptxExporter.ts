@@ -0,0 +1,484 @@
+import { GeneratedSlide, MotionRect, SlideBackground } from '../types';
+import { decode, NARRATION_SAMPLE_RATE, pcmToWav } from '../utils/audioUtils';
+import { FULL_FRAME, getTransition } from '../utils/slideMotion';
+import { formatCitation } from '../utils/sourceDocuments';
+import { UsageMetadata } from '../utils/usage';
+import { encodePng, getImageSize, imageExtension, parseDataUrl } from '../utils/imageUtils';
+import { createZip, encodeText, ZipEntry } from '../utils/zipUtils';
+
+export interface PptxExportOptions {
+  title: string;
+  // Embeds each slide's narration and plays it automatically when the slide is shown.
+  embedAudio: boolean;
+  // Written as custom document properties, shown under File > Properties in PowerPoint.
+  usage?: UsageMetadata;
+}
+
+// 16:9 slide, 13.333in x 7.5in, in EMUs (914400 per inch).
+const SLIDE_WIDTH = 12192000;
+const SLIDE_HEIGHT = 6858000;
+const NOTES_WIDTH = 6858000;
+const NOTES_HEIGHT = 9144000;
+const SAMPLE_RATE = NARRATION_SAMPLE_RATE;
+
+const NS = {
+  a: 'http://schemas.openxmlformats.org/drawingml/2006/main',
+  r: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships',
+  p: 'http://schemas.openxmlformats.org/presentationml/2006/main',
+  p14: 'http://schemas.microsoft.com/office/powerpoint/2010/main',
+  rel: 'http://schemas.openxmlformats.org/package/2006/relationships',
+  ct: 'http://schemas.openxmlformats.org/package/2006/content-types',
+};
+
+const REL = {
+  officeDocument: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument',
+  coreProperties: 'http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties',
+  extendedProperties: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/extended-properties',
+  customProperties: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/custom-properties',
+  slideMaster: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/slideMaster',
+  slideLayout: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/slideLayout',
+  notesMaster: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/notesMaster',
+  notesSlide: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/notesSlide',
+  slide: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/slide',
+  theme: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/theme',
+  presProps: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/presProps',
+  viewProps: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/viewProps',
+  tableStyles: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/tableStyles',
+  image: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/image',
+  audio: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/audio',
+  media: 'http://schemas.microsoft.com/office/2007/relationships/media',
+};
+
+const CONTENT_TYPE = {
+  presentation: 'application/vnd.openxmlformats-officedocument.presentationml.presentation.main+xml',
+  slideMaster: 'application/vnd.openxmlformats-officedocument.presentationml.slideMaster+xml',
+  slideLayout: 'application/vnd.openxmlformats-officedocument.presentationml.slideLayout+xml',
+  notesMaster: 'application/vnd.openxmlformats-officedocument.presentationml.notesMaster+xml',
+  notesSlide: 'application/vnd.openxmlformats-officedocument.presentationml.notesSlide+xml',
+  slide: 'application/vnd.openxmlformats-officedocument.presentationml.slide+xml',
+  theme: 'application/vnd.openxmlformats-officedocument.theme+xml',
+  presProps: 'application/vnd.openxmlformats-officedocument.presentationml.presProps+xml',
+  viewProps: 'application/vnd.openxmlformats-officedocument.presentationml.viewProps+xml',
+  tableStyles: 'application/vnd.openxmlformats-officedocument.presentationml.tableStyles+xml',
+  core: 'application/vnd.openxmlformats-package.core-properties+xml',
+  app: 'application/vnd.openxmlformats-officedocument.extended-properties+xml',
+  custom: 'application/vnd.openxmlformats-officedocument.custom-properties+xml',
+};
+
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    // Control characters other than tab and newlines are not allowed in XML 1.0
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '');
+}
+
+// Every custom property shares this format id; pids start at 2.
+const CUSTOM_PROPERTY_FMTID = '{D5CDD505-2E9C-101B-9397-08002B2CF9AE}';
+
+function customPropertiesXml(usage: UsageMetadata): string {
+  const properties: [string, string][] = [
+    ['Generation cost', `<vt:r8>${usage.cost}</vt:r8>`],
+    ['Generation currency', `<vt:lpwstr>${escapeXml(usage.currency)}</vt:lpwstr>`],
+    ['Generation requests', `<vt:i4>${usage.requests}</vt:i4>`],
+    ['Generation input tokens', `<vt:i4>${usage.inputTokens}</vt:i4>`],
+    ['Generation output tokens', `<vt:i4>${usage.outputTokens}</vt:i4>`],
+    ['Generation images', `<vt:i4>${usage.images}</vt:i4>`],
+    ['Generation audio seconds', `<vt:r8>${usage.audioSeconds}</vt:r8>`],
+    ['Generation request time (ms)', `<vt:i4>${usage.latencyMs}</vt:i4>`],
+  ];
+  return `${XML_HEADER}<Properties xmlns="http://schemas.openxmlformats.org/officeDocument/2006/custom-properties" ` +
+    'xmlns:vt="http://schemas.openxmlformats.org/officeDocument/2006/docPropsVTypes">' +
+    properties.map(([name, value], index) =>
+      `<property fmtid="${CUSTOM_PROPERTY_FMTID}" pid="${index + 2}" name="${escapeXml(name)}">${value}</property>`).join('') +
+    '</Properties>';
+}
+
+interface Relationship {
+  id: string;
+  type: string;
+  target: string;
+}
+
+function relationshipsXml(relationships: Relationship[]): string {
+  const items = relationships
+    .map(rel => `<Relationship Id="${rel.id}" Type="${rel.type}" Target="${rel.target}"/>`)
+    .join('');
+  return `${XML_HEADER}<Relationships xmlns="${NS.rel}">${items}</Relationships>`;
+}
+
+const GROUP_SHAPE_HEADER =
+  '<p:nvGrpSpPr><p:cNvPr id="1" name=""/><p:cNvGrpSpPr/><p:nvPr/></p:nvGrpSpPr>' +
+  '<p:grpSpPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="0" cy="0"/><a:chOff x="0" y="0"/><a:chExt cx="0" cy="0"/></a:xfrm></p:grpSpPr>';
+
+const PML_NAMESPACES = `xmlns:a="${NS.a}" xmlns:r="${NS.r}" xmlns:p="${NS.p}"`;
+
+const COLOR_MAP =
+  '<p:clrMap bg1="lt1" tx1="dk1" bg2="lt2" tx2="dk2" accent1="accent1" accent2="accent2" accent3="accent3" ' +
+  'accent4="accent4" accent5="accent5" accent6="accent6" hlink="hlink" folHlink="folHlink"/>';
+
+function xfrm(x: number, y: number, cx: number, cy: number): string {
+  return `<a:xfrm><a:off x="${Math.round(x)}" y="${Math.round(y)}"/><a:ext cx="${Math.round(cx)}" cy="${Math.round(cy)}"/></a:xfrm>`;
+}
+
+function paragraphsXml(text: string, runAttributes: string, runChildren = ''): string {
+  return text
+    .split(/\r?\n/)
+    .map(line => line
+      ? `<a:p><a:r><a:rPr lang="en-US"${runAttributes}>${runChildren}</a:rPr><a:t>${escapeXml(line)}</a:t></a:r></a:p>`
+      : '<a:p><a:endParaRPr lang="en-US"/></a:p>')
+    .join('');
+}
+
+function themeXml(name: string): string {
+  const color = (tag: string, value: string) => `<a:${tag}><a:srgbClr val="${value}"/></a:${tag}>`;
+  const solid = '<a:solidFill><a:schemeClr val="phClr"/></a:solidFill>';
+  const line = (width: number) => `<a:ln w="${width}"><a:solidFill><a:schemeClr val="phClr"/></a:solidFill></a:ln>`;
+  return `${XML_HEADER}<a:theme xmlns:a="${NS.a}" name="${name}"><a:themeElements>` +
+    '<a:clrScheme name="Office">' +
+    '<a:dk1><a:sysClr val="windowText" lastClr="000000"/></a:dk1><a:lt1><a:sysClr val="window" lastClr="FFFFFF"/></a:lt1>' +
+    color('dk2', '1F2937') + color('lt2', 'E5E7EB') + color('accent1', '4F46E5') + color('accent2', '7C3AED') +
+    color('accent3', '0EA5E9') + color('accent4', '10B981') + color('accent5', 'F59E0B') + color('accent6', 'EF4444') +
+    color('hlink', '6366F1') + color('folHlink', '8B5CF6') +
+    '</a:clrScheme>' +
+    '<a:fontScheme name="Office"><a:majorFont><a:latin typeface="Calibri Light"/><a:ea typeface=""/><a:cs typeface=""/></a:majorFont>' +
+    '<a:minorFont><a:latin typeface="Calibri"/><a:ea typeface=""/><a:cs typeface=""/></a:minorFont></a:fontScheme>' +
+    '<a:fmtScheme name="Office">' +
+    `<a:fillStyleLst>${solid}${solid}${solid}</a:fillStyleLst>` +
+    `<a:lnStyleLst>${line(6350)}${line(12700)}${line(19050)}</a:lnStyleLst>` +
+    '<a:effectStyleLst><a:effectStyle><a:effectLst/></a:effectStyle><a:effectStyle><a:effectLst/></a:effectStyle><a:effectStyle><a:effectLst/></a:effectStyle></a:effectStyleLst>' +
+    `<a:bgFillStyleLst>${solid}${solid}${solid}</a:bgFillStyleLst>` +
+    '</a:fmtScheme></a:themeElements><a:objectDefaults/><a:extraClrSchemeLst/></a:theme>';
+}
+
+function slideMasterXml(): string {
+  return `${XML_HEADER}<p:sldMaster ${PML_NAMESPACES}><p:cSld>` +
+    '<p:bg><p:bgPr><a:solidFill><a:srgbClr val="000000"/></a:solidFill><a:effectLst/></p:bgPr></p:bg>' +
+    `<p:spTree>${GROUP_SHAPE_HEADER}</p:spTree></p:cSld>${COLOR_MAP}` +
+    '<p:sldLayoutIdLst><p:sldLayoutId id="2147483649" r:id="rId1"/></p:sldLayoutIdLst></p:sldMaster>';
+}
+
+function slideLayoutXml(): string {
+  return `${XML_HEADER}<p:sldLayout ${PML_NAMESPACES} type="blank" preserve="1">` +
+    `<p:cSld name="Blank"><p:spTree>${GROUP_SHAPE_HEADER}</p:spTree></p:cSld>` +
+    '<p:clrMapOvr><a:masterClrMapping/></p:clrMapOvr></p:sldLayout>';
+}
+
+function notesPlaceholders(withBody: string): string {
+  const margin = 685800;
+  const imageHeight = ((NOTES_WIDTH - 2 * margin) * SLIDE_HEIGHT) / SLIDE_WIDTH;
+  return '<p:sp><p:nvSpPr><p:cNvPr id="2" name="Slide Image Placeholder 1"/>' +
+    '<p:cNvSpPr><a:spLocks noGrp="1" noRot="1" noChangeAspect="1"/></p:cNvSpPr><p:nvPr><p:ph type="sldImg"/></p:nvPr></p:nvSpPr>' +
+    `<p:spPr>${xfrm(margin, margin, NOTES_WIDTH - 2 * margin, imageHeight)}<a:prstGeom prst="rect"><a:avLst/></a:prstGeom></p:spPr></p:sp>` +
+    '<p:sp><p:nvSpPr><p:cNvPr id="3" name="Notes Placeholder 2"/>' +
+    '<p:cNvSpPr><a:spLocks noGrp="1"/></p:cNvSpPr><p:nvPr><p:ph type="body" idx="1"/></p:nvPr></p:nvSpPr>' +
+    `<p:spPr>${xfrm(margin, 2 * margin + imageHeight, NOTES_WIDTH - 2 * margin, NOTES_HEIGHT - 3 * margin - imageHeight)}<a:prstGeom prst="rect"><a:avLst/></a:prstGeom></p:spPr>` +
+    `<p:txBody><a:bodyPr/><a:lstStyle/>${withBody}</p:txBody></p:sp>`;
+}
+
+function notesMasterXml(): string {
+  return `${XML_HEADER}<p:notesMaster ${PML_NAMESPACES}><p:cSld>` +
+    `<p:spTree>${GROUP_SHAPE_HEADER}${notesPlaceholders('<a:p><a:endParaRPr lang="en-US"/></a:p>')}</p:spTree></p:cSld>` +
+    `${COLOR_MAP}</p:notesMaster>`;
+}
+
+// Speaker notes hold the narration, followed by the sources that back the slide.
+function notesText(slide: GeneratedSlide): string {
+  if (!slide.citations || slide.citations.length === 0) return slide.narration;
+  return `${slide.narration}\n\nSources:\n${slide.citations.map(citation => `- ${formatCitation(citation)}`).join('\n')}`;
+}
+
+function notesSlideXml(notes: string): string {
+  return `${XML_HEADER}<p:notes ${PML_NAMESPACES}><p:cSld>` +
+    `<p:spTree>${GROUP_SHAPE_HEADER}${notesPlaceholders(paragraphsXml(notes, ' sz="1200"'))}</p:spTree></p:cSld>` +
+    '<p:clrMapOvr><a:masterClrMapping/></p:clrMapOvr></p:notes>';
+}
+
+function srcRectXml(rect: MotionRect): string {
+  const insets = { l: rect.x, t: rect.y, r: 1 - rect.x - rect.width, b: 1 - rect.y - rect.height };
+  const attributes = Object.entries(insets)
+    .map(([edge, fraction]) => [edge, Math.round(fraction * 100000)] as const)
+    .filter(([, value]) => value !== 0)
+    .map(([edge, value]) => ` ${edge}="${value}"`)
+    .join('');
+  return attributes ? `<a:srcRect${attributes}/>` : '';
+}
+
+interface PicturePlacement {
+  srcRect: string;
+  x: number;
+  y: number;
+  cx: number;
+  cy: number;
+}
+
+// Places the image the way the canvas renderer does: the user's crop first, then cover (cropped
+// further to fill the 16:9 slide) or contain (centred at its own aspect ratio).
+function picturePlacement(slide: GeneratedSlide, data: Uint8Array): PicturePlacement {
+  const source = slide.imageCrop ?? FULL_FRAME;
+  const fullSlide = { x: 0, y: 0, cx: SLIDE_WIDTH, cy: SLIDE_HEIGHT };
+  const size = getImageSize(data);
+  if (!size || !size.width || !size.height) return { srcRect: srcRectXml(source), ...fullSlide };
+
+  const slideAspect = SLIDE_WIDTH / SLIDE_HEIGHT;
+  const sourceAspect = (source.width * size.width) / (source.height * size.height);
+  if (slide.imageFit === 'contain') {
+    const cx = sourceAspect > slideAspect ? SLIDE_WIDTH : SLIDE_HEIGHT * sourceAspect;
+    const cy = sourceAspect > slideAspect ? SLIDE_WIDTH / sourceAspect : SLIDE_HEIGHT;
+    return { srcRect: srcRectXml(source), x: (SLIDE_WIDTH - cx) / 2, y: (SLIDE_HEIGHT - cy) / 2, cx, cy };
+  }
+
+  const visible = { ...source };
+  if (sourceAspect > slideAspect) {
+    visible.width = (source.width * slideAspect) / sourceAspect;
+    visible.x += (source.width - visible.width) / 2;
+  } else {
+    visible.height = (source.height * sourceAspect) / slideAspect;
+    visible.y += (source.height - visible.height) / 2;
+  }
+  return { srcRect: srcRectXml(visible), ...fullSlide };
+}
+
+// Colours from the colour pickers are #rrggbb; anything else falls back to black.
+function hexColor(css: string): string {
+  const match = /^#([0-9a-f]{6}|[0-9a-f]{3})$/i.exec(css.trim());
+  if (!match) return '000000';
+  const hex = match[1].length === 3 ? match[1].replace(/./g, '$&$&') : match[1];
+  return hex.toUpperCase();
+}
+
+// CSS gradient angles point up at 0 degrees; DrawingML's point right, so they are 90 degrees apart.
+function backgroundXml(background: SlideBackground): string {
+  const fill = background.type === 'solid'
+    ? `<a:solidFill><a:srgbClr val="${hexColor(background.color)}"/></a:solidFill>`
+    : '<a:gradFill rotWithShape="1"><a:gsLst>' +
+      `<a:gs pos="0"><a:srgbClr val="${hexColor(background.from)}"/></a:gs>` +
+      `<a:gs pos="100000"><a:srgbClr val="${hexColor(background.to)}"/></a:gs>` +
+      `</a:gsLst><a:lin ang="${(((background.angle - 90) % 360) + 360) % 360 * 60000}" scaled="0"/></a:gradFill>`;
+  return `<p:bg><p:bgPr>${fill}<a:effectLst/></p:bgPr></p:bg>`;
+}
+
+const AUDIO_SHAPE_ID = 4;
+
+// The nearest built-in PowerPoint effect for each transition; Ken Burns motion has no equivalent.
+function transitionXml(slide: GeneratedSlide, isFirst: boolean, advanceAfterMs: number | null): string {
+  const { type, duration } = getTransition(slide);
+  const effect = isFirst ? '' : { none: '', fade: '<p:fade/>', slide: '<p:push dir="l"/>', zoom: '<p:zoom/>' }[type];
+  if (!effect && advanceAfterMs === null) return '';
+  const speed = duration <= 0.5 ? 'fast' : duration <= 1 ? 'med' : 'slow';
+  const attributes = `${effect ? ` spd="${speed}"` : ''}${advanceAfterMs !== null ? ` advTm="${advanceAfterMs}"` : ''}`;
+  return effect ? `<p:transition${attributes}>${effect}</p:transition>` : `<p:transition${attributes}/>`;
+}
+
+// Slides without an image show only their background.
+function slideXml(slide: GeneratedSlide, imageData: Uint8Array | null, hasAudio: boolean, isFirst: boolean): string {
+  let picture = '';
+  if (imageData) {
+    const placement = picturePlacement(slide, imageData);
+    picture = '<p:pic><p:nvPicPr><p:cNvPr id="2" name="Background Image"/>' +
+      '<p:cNvPicPr><a:picLocks noChangeAspect="1"/></p:cNvPicPr><p:nvPr/></p:nvPicPr>' +
+      `<p:blipFill><a:blip r:embed="rId2"/>${placement.srcRect}<a:stretch><a:fillRect/></a:stretch></p:blipFill>` +
+      `<p:spPr>${xfrm(placement.x, placement.y, placement.cx, placement.cy)}<a:prstGeom prst="rect"><a:avLst/></a:prstGeom></p:spPr></p:pic>`;
+  }
+
+  const margin = 457200;
+  const titleHeight = 1280160;
+  const title = '<p:sp><p:nvSpPr><p:cNvPr id="3" name="Title"/><p:cNvSpPr txBox="1"/><p:nvPr/></p:nvSpPr>' +
+    `<p:spPr>${xfrm(0, SLIDE_HEIGHT - titleHeight, SLIDE_WIDTH, titleHeight)}<a:prstGeom prst="rect"><a:avLst/></a:prstGeom>` +
+    '<a:solidFill><a:srgbClr val="000000"><a:alpha val="55000"/></a:srgbClr></a:solidFill></p:spPr>' +
+    `<p:txBody><a:bodyPr wrap="square" lIns="${margin}" rIns="${margin}" tIns="182880" bIns="182880" anchor="ctr"><a:normAutofit/></a:bodyPr><a:lstStyle/>` +
+    paragraphsXml(slide.title, ' sz="3600" b="1"', '<a:solidFill><a:srgbClr val="FFFFFF"/></a:solidFill>') +
+    '</p:txBody></p:sp>';
+
+  let audio = '';
+  let advanceAfterMs: number | null = null;
+  let timing = '';
+  if (hasAudio) {
+    const iconSize = 457200;
+    audio = `<p:pic><p:nvPicPr><p:cNvPr id="${AUDIO_SHAPE_ID}" name="Narration"><a:hlinkClick r:id="" action="ppaction://media"/></p:cNvPr>` +
+      '<p:cNvPicPr><a:picLocks noChangeAspect="1"/></p:cNvPicPr>' +
+      `<p:nvPr><a:audioFile r:link="rId3"/><p:extLst><p:ext uri="{DAA4B4D4-6D71-4841-9C94-3DA6A4F0A9C7}"><p14:media xmlns:p14="${NS.p14}" r:embed="rId4"/></p:ext></p:extLst></p:nvPr></p:nvPicPr>` +
+      '<p:blipFill><a:blip r:embed="rId5"/><a:stretch><a:fillRect/></a:stretch></p:blipFill>' +
+      `<p:spPr>${xfrm(SLIDE_WIDTH - iconSize - 182880, 182880, iconSize, iconSize)}<a:prstGeom prst="rect"><a:avLst/></a:prstGeom></p:spPr></p:pic>`;
+
+    const durationMs = Math.max(1, Math.round(slide.duration * 1000));
+    // Advance to the next slide once the narration has finished
+    advanceAfterMs = durationMs;
+    // Equivalent of PowerPoint's "Start: Automatically" for the narration clip
+    timing = '<p:timing><p:tnLst><p:par><p:cTn id="1" dur="indefinite" restart="never" nodeType="tmRoot"><p:childTnLst>' +
+      '<p:par><p:cTn id="2" fill="hold"><p:stCondLst><p:cond delay="indefinite"/><p:cond evt="onBegin" delay="0"><p:tn val="2"/></p:cond></p:stCondLst><p:childTnLst>' +
+      '<p:par><p:cTn id="3" fill="hold"><p:stCondLst><p:cond delay="0"/></p:stCondLst><p:childTnLst>' +
+      '<p:par><p:cTn id="4" presetID="1" presetClass="mediacall" presetSubtype="0" fill="hold" nodeType="afterEffect"><p:stCondLst><p:cond delay="0"/></p:stCondLst><p:childTnLst>' +
+      `<p:cmd type="call" cmd="playFrom(0.0)"><p:cBhvr><p:cTn id="5" dur="${durationMs}" fill="hold"/><p:tgtEl><p:spTgt spid="${AUDIO_SHAPE_ID}"/></p:tgtEl></p:cBhvr></p:cmd>` +
+      '</p:childTnLst></p:cTn></p:par></p:childTnLst></p:cTn></p:par></p:childTnLst></p:cTn></p:par>' +
+      '<p:audio><p:cMediaNode vol="80000"><p:cTn id="6" fill="hold" display="0"><p:stCondLst><p:cond delay="indefinite"/></p:stCondLst>' +
+      '<p:endCondLst><p:cond evt="onStopAudio" delay="0"><p:tgtEl><p:sldTgt/></p:tgtEl></p:cond></p:endCondLst></p:cTn>' +
+      `<p:tgtEl><p:spTgt spid="${AUDIO_SHAPE_ID}"/></p:tgtEl></p:cMediaNode></p:audio>` +
+      '</p:childTnLst></p:cTn></p:par></p:tnLst></p:timing>';
+  }
+
+  const background = slide.background ? backgroundXml(slide.background) : '';
+  return `${XML_HEADER}<p:sld ${PML_NAMESPACES}><p:cSld>${background}<p:spTree>${GROUP_SHAPE_HEADER}${picture}${title}${audio}</p:spTree></p:cSld>` +
+    `<p:clrMapOvr><a:masterClrMapping/></p:clrMapOvr>${transitionXml(slide, isFirst, advanceAfterMs)}${timing}</p:sld>`;
+}
+
+// A small speaker badge shown where the embedded narration clip sits on the slide.
+function audioIconPng(): Uint8Array {
+  const size = 48;
+  const rgb = new Uint8Array(size * size * 3);
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const i = (y * size + x) * 3;
+      const dx = x - size / 2 + 0.5;
+      const dy = y - size / 2 + 0.5;
+      const inside = dx * dx + dy * dy <= (size / 2) * (size / 2);
+      // Indigo circle with a white play triangle
+      const inTriangle = dx > -7 && dx < 10 && Math.abs(dy) < (10 - dx) * 0.6;
+      const [r, g, b] = !inside ? [0, 0, 0] : inTriangle ? [255, 255, 255] : [79, 70, 229];
+      rgb[i] = r;
+      rgb[i + 1] = g;
+      rgb[i + 2] = b;
+    }
+  }
+  return encodePng(size, size, rgb);
+}
+
+export function createPptx(slides: GeneratedSlide[], options: PptxExportOptions): Uint8Array {
+  const files: ZipEntry[] = [];
+  const add = (name: string, content: string | Uint8Array) => {
+    files.push({ name, data: typeof content === 'string' ? encodeText(content) : content });
+  };
+
+  const imageExtensions = new Set<string>(['png']);
+  const slideOverrides: string[] = [];
+  const presentationRels: Relationship[] = [
+    { id: 'rId1', type: REL.slideMaster, target: 'slideMasters/slideMaster1.xml' },
+    { id: 'rId2', type: REL.notesMaster, target: 'notesMasters/notesMaster1.xml' },
+    { id: 'rId3', type: REL.theme, target: 'theme/theme1.xml' },
+    { id: 'rId4', type: REL.presProps, target: 'presProps.xml' },
+    { id: 'rId5', type: REL.viewProps, target: 'viewProps.xml' },
+    { id: 'rId6', type: REL.tableStyles, target: 'tableStyles.xml' },
+  ];
+  const slideIds: string[] = [];
+
+  if (options.embedAudio) {
+    add('ppt/media/narration-icon.png', audioIconPng());
+  }
+
+  slides.forEach((slide, index) => {
+    const number = index + 1;
+    const hasAudio = options.embedAudio && !!slide.audioData;
+    const slideRels: Relationship[] = [
+      { id: 'rId1', type: REL.slideLayout, target: '../slideLayouts/slideLayout1.xml' },
+    ];
+    const image = slide.imageUrl ? parseDataUrl(slide.imageUrl) : null;
+    if (image) {
+      const extension = imageExtension(image.mimeType);
+      imageExtensions.add(extension);
+      add(`ppt/media/image${number}.${extension}`, image.data);
+      slideRels.push({ id: 'rId2', type: REL.image, target: `../media/image${number}.${extension}` });
+    }
+    if (hasAudio) {
+      add(`ppt/media/narration${number}.wav`, pcmToWav(decode(slide.audioData), SAMPLE_RATE, 1));
+      slideRels.push(
+        { id: 'rId3', type: REL.audio, target: `../media/narration${number}.wav` },
+        { id: 'rId4', type: REL.media, target: `../media/narration${number}.wav` },
+        { id: 'rId5', type: REL.image, target: '../media/narration-icon.png' },
+      );
+    }
+    slideRels.push({ id: 'rId6', type: REL.notesSlide, target: `../notesSlides/notesSlide${number}.xml` });
+
+    add(`ppt/slides/slide${number}.xml`, slideXml(slide, image?.data ?? null, hasAudio, index === 0));
+    add(`ppt/slides/_rels/slide${number}.xml.rels`, relationshipsXml(slideRels));
+    add(`ppt/notesSlides/notesSlide${number}.xml`, notesSlideXml(notesText(slide)));
+    add(`ppt/notesSlides/_rels/notesSlide${number}.xml.rels`, relationshipsXml([
+      { id: 'rId1', type: REL.notesMaster, target: '../notesMasters/notesMaster1.xml' },
+      { id: 'rId2', type: REL.slide, target: `../slides/slide${number}.xml` },
+    ]));
+
+    const relId = `rId${100 + number}`;
+    presentationRels.push({ id: relId, type: REL.slide, target: `slides/slide${number}.xml` });
+    slideIds.push(`<p:sldId id="${255 + number}" r:id="${relId}"/>`);
+    slideOverrides.push(
+      `<Override PartName="/ppt/slides/slide${number}.xml" ContentType="${CONTENT_TYPE.slide}"/>`,
+      `<Override PartName="/ppt/notesSlides/notesSlide${number}.xml" ContentType="${CONTENT_TYPE.notesSlide}"/>`,
+    );
+  });
+
+  const imageDefaults = [...imageExtensions]
+    .map(extension => `<Default Extension="${extension}" ContentType="${extension === 'jpg' ? 'image/jpeg' : `image/${extension}`}"/>`)
+    .join('');
+  add('[Content_Types].xml', `${XML_HEADER}<Types xmlns="${NS.ct}">` +
+    '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+    '<Default Extension="xml" ContentType="application/xml"/>' +
+    '<Default Extension="wav" ContentType="audio/wav"/>' +
+    imageDefaults +
+    `<Override PartName="/ppt/presentation.xml" ContentType="${CONTENT_TYPE.presentation}"/>` +
+    `<Override PartName="/ppt/slideMasters/slideMaster1.xml" ContentType="${CONTENT_TYPE.slideMaster}"/>` +
+    `<Override PartName="/ppt/slideLayouts/slideLayout1.xml" ContentType="${CONTENT_TYPE.slideLayout}"/>` +
+    `<Override PartName="/ppt/notesMasters/notesMaster1.xml" ContentType="${CONTENT_TYPE.notesMaster}"/>` +
+    `<Override PartName="/ppt/theme/theme1.xml" ContentType="${CONTENT_TYPE.theme}"/>` +
+    `<Override PartName="/ppt/theme/theme2.xml" ContentType="${CONTENT_TYPE.theme}"/>` +
+    `<Override PartName="/ppt/presProps.xml" ContentType="${CONTENT_TYPE.presProps}"/>` +
+    `<Override PartName="/ppt/viewProps.xml" ContentType="${CONTENT_TYPE.viewProps}"/>` +
+    `<Override PartName="/ppt/tableStyles.xml" ContentType="${CONTENT_TYPE.tableStyles}"/>` +
+    `<Override PartName="/docProps/core.xml" ContentType="${CONTENT_TYPE.core}"/>` +
+    `<Override PartName="/docProps/app.xml" ContentType="${CONTENT_TYPE.app}"/>` +
+    (options.usage ? `<Override PartName="/docProps/custom.xml" ContentType="${CONTENT_TYPE.custom}"/>` : '') +
+    slideOverrides.join('') +
+    '</Types>');
+
+  add('_rels/.rels', relationshipsXml([
+    { id: 'rId1', type: REL.officeDocument, target: 'ppt/presentation.xml' },
+    { id: 'rId2', type: REL.coreProperties, target: 'docProps/core.xml' },
+    { id: 'rId3', type: REL.extendedProperties, target: 'docProps/app.xml' },
+    ...(options.usage ? [{ id: 'rId4', type: REL.customProperties, target: 'docProps/custom.xml' }] : []),
+  ]));
+
+  const now = new Date().toISOString().replace(/\.\d+Z$/, 'Z');
+  add('docProps/core.xml', `${XML_HEADER}<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" ` +
+    'xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">' +
+    `<dc:title>${escapeXml(options.title)}</dc:title><dc:creator>AI Presentation Generator</dc:creator>` +
+    `<dcterms:created xsi:type="dcterms:W3CDTF">${now}</dcterms:created><dcterms:modified xsi:type="dcterms:W3CDTF">${now}</dcterms:modified>` +
+    '</cp:coreProperties>');
+  add('docProps/app.xml', `${XML_HEADER}<Properties xmlns="http://schemas.openxmlformats.org/officeDocument/2006/extended-properties">` +
+    `<Application>AI Presentation Generator</Application><Slides>${slides.length}</Slides><Notes>${slides.length}</Notes></Properties>`);
+  if (options.usage) {
+    add('docProps/custom.xml', customPropertiesXml(options.usage));
+  }
+
+  add('ppt/presentation.xml', `${XML_HEADER}<p:presentation ${PML_NAMESPACES} saveSubsetFonts="1">` +
+    '<p:sldMasterIdLst><p:sldMasterId id="2147483648" r:id="rId1"/></p:sldMasterIdLst>' +
+    '<p:notesMasterIdLst><p:notesMasterId r:id="rId2"/></p:notesMasterIdLst>' +
+    `<p:sldIdLst>${slideIds.join('')}</p:sldIdLst>` +
+    `<p:sldSz cx="${SLIDE_WIDTH}" cy="${SLIDE_HEIGHT}"/><p:notesSz cx="${NOTES_WIDTH}" cy="${NOTES_HEIGHT}"/>` +
+    '</p:presentation>');
+  add('ppt/_rels/presentation.xml.rels', relationshipsXml(presentationRels));
+  add('ppt/presProps.xml', `${XML_HEADER}<p:presentationPr ${PML_NAMESPACES}/>`);
+  add('ppt/viewProps.xml', `${XML_HEADER}<p:viewPr ${PML_NAMESPACES}/>`);
+  add('ppt/tableStyles.xml', `${XML_HEADER}<a:tblStyleLst xmlns:a="${NS.a}" def="{5C22544A-7EE6-4342-B048-85BDC9FD1C3A}"/>`);
+
+  add('ppt/slideMasters/slideMaster1.xml', slideMasterXml());
+  add('ppt/slideMasters/_rels/slideMaster1.xml.rels', relationshipsXml([
+    { id: 'rId1', type: REL.slideLayout, target: '../slideLayouts/slideLayout1.xml' },
+    { id: 'rId2', type: REL.theme, target: '../theme/theme1.xml' },
+  ]));
+  add('ppt/slideLayouts/slideLayout1.xml', slideLayoutXml());
+  add('ppt/slideLayouts/_rels/slideLayout1.xml.rels', relationshipsXml([
+    { id: 'rId1', type: REL.slideMaster, target: '../slideMasters/slideMaster1.xml' },
+  ]));
+  add('ppt/notesMasters/notesMaster1.xml', notesMasterXml());
+  add('ppt/notesMasters/_rels/notesMaster1.xml.rels', relationshipsXml([
+    { id: 'rId1', type: REL.theme, target: '../theme/theme2.xml' },
+  ]));
+  add('ppt/theme/theme1.xml', themeXml('Presentation'));
+  add('ppt/theme/theme2.xml', themeXml('Notes'));
+
+  // [Content_Types].xml conventionally comes first in the archive
+  files.sort((a, b) => (a.name === '[Content_Types].xml' ? -1 : b.name === '[Content_Types].xml' ? 1 : 0));
+  return createZip(files);
+}
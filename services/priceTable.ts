@@ -0,0 +1,47 @@
+import { ModelPrice, PriceTable } from '../types';
+import { DEFAULT_PRICE_TABLE } from '../constants';
+
+const STORAGE_KEY = 'ai-presentation-prices';
+
+const isPrice = (value: unknown): value is ModelPrice => {
+  if (typeof value !== 'object' || value === null) return false;
+  const price = value as Record<string, unknown>;
+  const isRate = (rate: unknown, optional: boolean) =>
+    (optional && rate === undefined) || (typeof rate === 'number' && Number.isFinite(rate) && rate >= 0);
+  return isRate(price.inputPerMillionTokens, false)
+    && isRate(price.outputPerMillionTokens, false)
+    && isRate(price.perImage, true)
+    && isRate(price.perAudioMinute, true);
+};
+
+// The user's prices over the defaults, so models added to the defaults later still get one.
+// Outside the browser, or when nothing valid is stored, this is the default table.
+export function loadPriceTable(): PriceTable {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null');
+    if (typeof stored?.currency !== 'string' || typeof stored.models !== 'object' || stored.models === null) {
+      return DEFAULT_PRICE_TABLE;
+    }
+    const models = Object.fromEntries(Object.entries(stored.models).filter(([, price]) => isPrice(price))) as Record<string, ModelPrice>;
+    return { currency: stored.currency, models: { ...DEFAULT_PRICE_TABLE.models, ...models } };
+  } catch {
+    return DEFAULT_PRICE_TABLE;
+  }
+}
+
+export function savePriceTable(table: PriceTable): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(table));
+  } catch (err) {
+    console.warn('Could not save the price table', err);
+  }
+}
+
+export function resetPriceTable(): PriceTable {
+  try {
+    localStorage.removeItem(STORAGE_KEY);
+  } catch {
+    // Nothing stored to remove
+  }
+  return DEFAULT_PRICE_TABLE;
+}
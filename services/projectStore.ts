@@ -0,0 +1,109 @@
+import { GeneratedSlide, PresentationProject, ProjectSummary } from '../types';
+import { decode, encode, NARRATION_SAMPLE_RATE } from '../utils/audioUtils';
+import { openDatabase, promisifyRequest, transactionDone } from './indexedDb';
+
+const DB_NAME = 'ai-presentation-generator';
+const DB_VERSION = 1;
+const PROJECTS_STORE = 'projects';
+
+// Assets are kept as Blobs rather than base64 strings: they are stored more compactly
+// and are not read into memory until a project is actually opened.
+interface StoredSlide extends Omit<GeneratedSlide, 'imageUrl' | 'audioData'> {
+  // Null for slides that show a background instead of an image.
+  image: Blob | null;
+  audio: Blob;
+}
+
+interface StoredProject extends Omit<PresentationProject, 'slides'> {
+  slides: StoredSlide[];
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function getDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = openDatabase(DB_NAME, DB_VERSION, (db) => {
+      if (!db.objectStoreNames.contains(PROJECTS_STORE)) {
+        db.createObjectStore(PROJECTS_STORE, { keyPath: 'id' });
+      }
+    });
+  }
+  return dbPromise;
+}
+
+async function blobToBase64(blob: Blob): Promise<string> {
+  return encode(new Uint8Array(await blob.arrayBuffer()));
+}
+
+async function toStoredSlide(slide: GeneratedSlide): Promise<StoredSlide> {
+  const { imageUrl, audioData, ...rest } = slide;
+  const image = imageUrl ? await (await fetch(imageUrl)).blob() : null;
+  return {
+    ...rest,
+    image,
+    audio: new Blob([decode(audioData)], { type: `audio/L16;rate=${NARRATION_SAMPLE_RATE};channels=1` }),
+  };
+}
+
+async function fromStoredSlide(stored: StoredSlide): Promise<GeneratedSlide> {
+  const { image, audio, ...rest } = stored;
+  return {
+    ...rest,
+    imageUrl: image ? `data:${image.type || 'image/png'};base64,${await blobToBase64(image)}` : '',
+    audioData: await blobToBase64(audio),
+  };
+}
+
+const toSummary = (project: StoredProject): ProjectSummary => ({
+  id: project.id,
+  name: project.name,
+  topic: project.topic,
+  slideCount: project.slides.length,
+  createdAt: project.createdAt,
+  updatedAt: project.updatedAt,
+});
+
+export async function listProjects(): Promise<ProjectSummary[]> {
+  const db = await getDatabase();
+  const store = db.transaction(PROJECTS_STORE, 'readonly').objectStore(PROJECTS_STORE);
+  const projects = await promisifyRequest<StoredProject[]>(store.getAll());
+  return projects.map(toSummary).sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export async function saveProject(project: PresentationProject): Promise<void> {
+  // Convert assets before opening the transaction; it would auto-commit while we await.
+  const stored: StoredProject = { ...project, slides: await Promise.all(project.slides.map(toStoredSlide)) };
+  const db = await getDatabase();
+  const transaction = db.transaction(PROJECTS_STORE, 'readwrite');
+  transaction.objectStore(PROJECTS_STORE).put(stored);
+  await transactionDone(transaction);
+}
+
+export async function loadProject(id: string): Promise<PresentationProject> {
+  const db = await getDatabase();
+  const store = db.transaction(PROJECTS_STORE, 'readonly').objectStore(PROJECTS_STORE);
+  const stored = await promisifyRequest<StoredProject | undefined>(store.get(id));
+  if (!stored) {
+    throw new Error('That project no longer exists.');
+  }
+  return { ...stored, slides: await Promise.all(stored.slides.map(fromStoredSlide)) };
+}
+
+export async function renameProject(id: string, name: string): Promise<void> {
+  const db = await getDatabase();
+  const transaction = db.transaction(PROJECTS_STORE, 'readwrite');
+  const store = transaction.objectStore(PROJECTS_STORE);
+  const stored = await promisifyRequest<StoredProject | undefined>(store.get(id));
+  if (!stored) {
+    throw new Error('That project no longer exists.');
+  }
+  store.put({ ...stored, name, updatedAt: Date.now() });
+  await transactionDone(transaction);
+}
+
+export async function deleteProject(id: string): Promise<void> {
+  const db = await getDatabase();
+  const transaction = db.transaction(PROJECTS_STORE, 'readwrite');
+  transaction.objectStore(PROJECTS_STORE).delete(id);
+  await transactionDone(transaction);
+}
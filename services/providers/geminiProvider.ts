@@ -0,0 +1,250 @@
+import { GoogleGenAI, Type, Modality, Part, Content, GenerateContentResponse } from "@google/genai";
+import { GenerationOptions, Slide, SlideLayout, SourceDocument } from '../../types';
+import { SCRIPT_LIMITS, SLIDE_LAYOUTS } from '../../constants';
+import { ScriptValidationError } from '../../utils/scriptValidation';
+import { isDialogue, parseSpeakerTurns } from '../../utils/speakers';
+import { GenerationProvider, ProviderModels, ProviderResult, ScriptRepair, TokenUsage } from './types';
+
+export const DEFAULT_GEMINI_MODELS: ProviderModels = {
+  script: 'gemini-2.5-pro',
+  image: 'gemini-2.5-flash-image',
+  speech: 'gemini-2.5-flash-preview-tts',
+};
+
+export interface GeminiProviderConfig {
+  apiKey: string;
+  // Another endpoint speaking the Gemini API, e.g. a local stub.
+  baseUrl?: string;
+  models?: Partial<ProviderModels>;
+}
+
+function buildScriptPrompt(topic: string, options: GenerationOptions): string {
+  return `Create a script for a short, ${options.tone} video presentation about "${topic}" for ${options.audience}. 
+    The presentation should be engaging and easy to understand.
+    Write every title, bullet point, narration and image prompt in ${options.language}.
+    Generate exactly ${options.slideCount} slides.
+    For each slide, provide a "title" of at most ${SCRIPT_LIMITS.maxTitleLength} characters, a concise "narration" (around ${options.minWordsPerSlide}-${options.maxWordsPerSlide} words), 2-4 short "bullets" to show on the slide, and an "imagePrompt" for an AI image generator that visually represents the slide's content.
+    Optionally suggest a "layout" for a slide when its content suits one better than a full-screen image.`
+    + (isDialogue(options) ? buildDialogueInstructions(options) : '')
+    + (options.chapters ? CHAPTER_INSTRUCTIONS : '')
+    + (options.quizQuestions ? buildQuizInstructions(options.quizQuestions) : '');
+}
+
+const CHAPTER_INSTRUCTIONS = `
+    Group the slides into chapters of related slides. Give the first slide of each chapter a short "chapter" title; the first slide always starts one.`;
+
+function buildQuizInstructions(count: number): string {
+  return `
+    Add ${count === 1 ? 'exactly one multiple-choice question' : `exactly ${count} multiple-choice questions in total`} that check the viewer understood the material, as "quiz" on the slides after which they should be asked.
+    Each question has 3-4 "choices", the 0-based "answerIndex" of the one correct choice, and a one-sentence "explanation" of why it is correct.`;
+}
+
+function buildDialogueInstructions(options: GenerationOptions): string {
+  const names = options.speakers!.map(speaker => speaker.name);
+  return `
+    Write every narration as a natural conversation between ${names.join(' and ')}, who take turns explaining the topic.
+    Put each turn on its own line, starting with the speaker's name and a colon, e.g. "${names[0]}: ...". Use no other speaker names.`;
+}
+
+const GROUNDING_INSTRUCTIONS = `
+    Base the presentation only on the source documents provided above; do not add facts they do not contain.
+    For each slide, also provide "citations": the source passages that back the slide, each with the source's exact name in "source" and a short verbatim "quote" from it.`;
+
+function buildRepairRequest(repair: ScriptRepair): string {
+  return `That script has these problems:
+${repair.issues.map(issue => `- ${issue}`).join('\n')}
+Return the complete corrected script in the same JSON format, changing only what is needed to fix them.`;
+}
+
+// Thinking tokens are billed as output, so they are counted with it.
+function getTokenUsage(response: GenerateContentResponse): TokenUsage {
+  const metadata = response.usageMetadata;
+  return {
+    inputTokens: metadata?.promptTokenCount ?? 0,
+    outputTokens: (metadata?.candidatesTokenCount ?? 0) + (metadata?.thoughtsTokenCount ?? 0),
+  };
+}
+
+// Each source is labelled with its name so the model can cite it; PDFs are attached as they are.
+function buildSourceParts(sources: SourceDocument[]): Part[] {
+  return sources.flatMap((source): Part[] => source.data
+    ? [{ text: `Source "${source.name}" (attached PDF):` }, { inlineData: { mimeType: source.mimeType, data: source.data } }]
+    : [{ text: `Source "${source.name}":\n${source.text ?? ''}` }]);
+}
+
+export function createGeminiProvider(config: GeminiProviderConfig): GenerationProvider {
+  const models: ProviderModels = { ...DEFAULT_GEMINI_MODELS, ...config.models };
+
+  // The client is created on first use so that merely importing the provider never requires a key.
+  let client: GoogleGenAI | null = null;
+  const getClient = (): GoogleGenAI => {
+    if (!client) {
+      if (!config.apiKey) {
+        throw new Error("GEMINI_API_KEY is not set. Add it to .env.local or switch GENERATION_PROVIDER to 'mock'.");
+      }
+      client = new GoogleGenAI({ apiKey: config.apiKey, ...(config.baseUrl && { httpOptions: { baseUrl: config.baseUrl } }) });
+    }
+    return client;
+  };
+
+  return {
+    name: 'gemini',
+    models,
+
+    async generateScript(topic: string, options: GenerationOptions, sources: SourceDocument[] = [], repair?: ScriptRepair): Promise<ProviderResult<Slide[]>> {
+      const grounded = sources.length > 0;
+      const prompt = buildScriptPrompt(topic, options) + (grounded ? GROUNDING_INSTRUCTIONS : '');
+      const contents: Content[] = [{ role: 'user', parts: [...buildSourceParts(sources), { text: prompt }] }];
+      // A repair continues the conversation, so the model sees its own answer and what was wrong with it
+      if (repair) {
+        contents.push({ role: 'model', parts: [{ text: repair.previous }] }, { role: 'user', parts: [{ text: buildRepairRequest(repair) }] });
+      }
+      const response = await getClient().models.generateContent({
+        model: models.script,
+        contents,
+        config: {
+          responseMimeType: "application/json",
+          responseSchema: {
+            type: Type.OBJECT,
+            properties: {
+              slides: {
+                type: Type.ARRAY,
+                minItems: String(options.slideCount),
+                maxItems: String(options.slideCount),
+                items: {
+                  type: Type.OBJECT,
+                  properties: {
+                    title: {
+                      type: Type.STRING,
+                      description: "The title of the slide."
+                    },
+                    narration: {
+                      type: Type.STRING,
+                      description: `The narration script for this slide, ${options.minWordsPerSlide}-${options.maxWordsPerSlide} words in ${options.language}${isDialogue(options) ? ', as speaker turns one per line' : ''}.`
+                    },
+                    bullets: {
+                      type: Type.ARRAY,
+                      description: "2-4 short bullet points shown on the slide, a few words each.",
+                      items: { type: Type.STRING }
+                    },
+                    imagePrompt: {
+                      type: Type.STRING,
+                      description: "A descriptive prompt to generate an image for this slide."
+                    },
+                    layout: {
+                      type: Type.STRING,
+                      enum: Object.keys(SLIDE_LAYOUTS) as SlideLayout[],
+                      description: "How the slide is laid out: fullBleed (image behind the title), titleOnly (text only), imageLeft (image beside the bullets) or quote (a single highlighted statement)."
+                    },
+                    ...(options.chapters && {
+                      chapter: {
+                        type: Type.STRING,
+                        description: "The title of the chapter this slide starts, only on the first slide of each chapter."
+                      }
+                    }),
+                    ...(options.quizQuestions && {
+                      quiz: {
+                        type: Type.ARRAY,
+                        description: "Multiple-choice questions asked after this slide, if any.",
+                        items: {
+                          type: Type.OBJECT,
+                          properties: {
+                            question: { type: Type.STRING },
+                            choices: { type: Type.ARRAY, items: { type: Type.STRING } },
+                            answerIndex: { type: Type.INTEGER, description: "The 0-based index of the correct choice." },
+                            explanation: { type: Type.STRING, description: "Why the correct choice is right." }
+                          },
+                          required: ["question", "choices", "answerIndex", "explanation"]
+                        }
+                      }
+                    }),
+                    ...(grounded && {
+                      citations: {
+                        type: Type.ARRAY,
+                        description: "The source passages that back this slide.",
+                        items: {
+                          type: Type.OBJECT,
+                          properties: {
+                            source: { type: Type.STRING, description: "The exact name of the source document." },
+                            quote: { type: Type.STRING, description: "A short verbatim passage from that source." }
+                          },
+                          required: ["source", "quote"]
+                        }
+                      }
+                    })
+                  },
+                  required: grounded ? ["title", "narration", "bullets", "imagePrompt", "citations"] : ["title", "narration", "bullets", "imagePrompt"]
+                }
+              }
+            },
+            required: ["slides"]
+          }
+        }
+      });
+
+      const text = response.text ?? '';
+      let jsonResponse: { slides?: Slide[] };
+      try {
+        jsonResponse = JSON.parse(text);
+      } catch {
+        // Usually the output hit the token limit and was cut off
+        throw new ScriptValidationError([text ? 'The response is not valid JSON; it may have been cut off.' : 'The response was empty.'], 1, text);
+      }
+      return { value: jsonResponse?.slides, usage: getTokenUsage(response) };
+    },
+
+    async generateImage(prompt: string): Promise<ProviderResult<string>> {
+      const response = await getClient().models.generateContent({
+        model: models.image,
+        contents: {
+          parts: [{ text: prompt }],
+        },
+        config: {
+          responseModalities: [Modality.IMAGE],
+        },
+      });
+
+      const part = response.candidates?.[0]?.content?.parts?.[0];
+      if (part?.inlineData) {
+        return { value: part.inlineData.data, usage: getTokenUsage(response) };
+      }
+      throw new Error("Image generation failed or returned no data.");
+    },
+
+    async generateSpeech(text: string, options: GenerationOptions): Promise<ProviderResult<string>> {
+      // Dialogue is re-labelled from the parsed turns so every line names a configured speaker
+      const speakers = isDialogue(options) ? options.speakers! : null;
+      const prompt = speakers
+        ? `Read the following ${options.language} presentation dialogue between ${speakers.map(speaker => speaker.name).join(' and ')} in a clear, pleasant, and ${options.tone} way:\n`
+          + parseSpeakerTurns(text, speakers).map(turn => `${turn.speaker}: ${turn.text}`).join('\n')
+        : `Read the following ${options.language} presentation script in a clear, pleasant, and ${options.tone} voice: ${text}`;
+      const response = await getClient().models.generateContent({
+        model: models.speech,
+        contents: [{ parts: [{ text: prompt }] }],
+        config: {
+          responseModalities: [Modality.AUDIO],
+          speechConfig: speakers
+            ? {
+                multiSpeakerVoiceConfig: {
+                  speakerVoiceConfigs: speakers.map(speaker => ({
+                    speaker: speaker.name,
+                    voiceConfig: { prebuiltVoiceConfig: { voiceName: speaker.voiceName } },
+                  })),
+                },
+              }
+            : {
+                voiceConfig: {
+                  prebuiltVoiceConfig: { voiceName: options.voiceName },
+                },
+              },
+        },
+      });
+
+      const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+      if (!base64Audio) {
+        throw new Error("Audio generation failed.");
+      }
+      return { value: base64Audio, usage: getTokenUsage(response) };
+    },
+  };
+}
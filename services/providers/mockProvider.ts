@@ -0,0 +1,241 @@
+import { Citation, GenerationOptions, QuizQuestion, Slide, SourceDocument } from '../../types';
+import { SCRIPT_LIMITS } from '../../constants';
+import { concatBytes, encode, getPcmDuration, NARRATION_SAMPLE_RATE } from '../../utils/audioUtils';
+import { hashString } from '../../utils/binaryUtils';
+import { encodePng } from '../../utils/imageUtils';
+import { countWords } from '../../utils/scriptValidation';
+import { isDialogue, parseSpeakerTurns } from '../../utils/speakers';
+import { GenerationProvider, ProviderResult, ScriptRepair } from './types';
+
+const SAMPLE_RATE = NARRATION_SAMPLE_RATE;
+const WORDS_PER_SECOND = 2.5;
+const IMAGE_WIDTH = 320;
+const IMAGE_HEIGHT = 180;
+
+const SLIDE_TEMPLATES: { title: string; narration: string }[] = [
+  {
+    title: 'Introducing {topic}',
+    narration: 'Welcome! In this short presentation we take a first look at {topic}, why it matters, and what you will be able to explain by the end.',
+  },
+  {
+    title: 'Where {topic} Comes From',
+    narration: 'Every subject has a history. Here we trace how {topic} began, the people involved, and the ideas that shaped it along the way.',
+  },
+  {
+    title: 'How {topic} Works',
+    narration: 'Now for the core ideas. We break {topic} into a few simple building blocks and show how they fit together in practice.',
+  },
+  {
+    title: '{topic} in the Real World',
+    narration: 'Examples make ideas stick. This slide walks through everyday situations where {topic} shows up and the difference it makes.',
+  },
+  {
+    title: 'Key Takeaways',
+    narration: 'To wrap up, we recap the most important points about {topic} and suggest a few next steps if you want to keep learning.',
+  },
+];
+
+// Appended in turn when a template is shorter than the requested number of words. The short
+// ones fill the gap left under a small maximum.
+const FILLER_SENTENCES = [
+  'We will come back to this idea later on.',
+  'Take a moment to picture how this looks in practice.',
+  'It is worth keeping this in mind as we go.',
+  'Keep this in mind.',
+  'That matters.',
+];
+
+const splitSentences = (text: string) => text.split(/(?<=[.!?])\s+/);
+
+// Scripts must pass validation, so narration is fitted to the word limits and long topics are
+// cut short in titles and bullets. The template's sentences are kept while they fit under the
+// maximum, then filler sentences are added up to the minimum. An opening sentence that alone
+// is over the maximum is cut off there and closed with a full stop.
+function fitNarration(narration: string, minWords: number, maxWords: number): string {
+  const kept: string[] = [];
+  let words = 0;
+  const fits = (sentence: string) => words + countWords(sentence) <= maxWords;
+  const keep = (sentence: string) => {
+    kept.push(sentence);
+    words += countWords(sentence);
+  };
+
+  for (const sentence of splitSentences(narration)) {
+    if (!fits(sentence)) break;
+    keep(sentence);
+  }
+  if (kept.length === 0) {
+    return `${narration.split(/\s+/).slice(0, maxWords).join(' ').replace(/[,;:.!?]+$/, '')}.`;
+  }
+  for (let i = 0; words < minWords; i++) {
+    const start = i % FILLER_SENTENCES.length;
+    const filler = [...FILLER_SENTENCES.slice(start), ...FILLER_SENTENCES.slice(0, start)].find(fits);
+    if (!filler) break;
+    keep(filler);
+  }
+  return kept.join(' ');
+}
+
+const truncate = (text: string, max: number) => (text.length > max ? `${text.slice(0, max - 1).trimEnd()}…` : text);
+
+// The first and last templates open and close the deck; the ones in between repeat as needed.
+function pickTemplate(index: number, slideCount: number): number {
+  if (index === 0) return 0;
+  if (index === slideCount - 1) return SLIDE_TEMPLATES.length - 1;
+  return 1 + ((index - 1) % (SLIDE_TEMPLATES.length - 2));
+}
+
+function hslToRgb(h: number, s: number, l: number): [number, number, number] {
+  const a = s * Math.min(l, 1 - l);
+  const f = (n: number) => {
+    const k = (n + h / 30) % 12;
+    return Math.round(255 * (l - a * Math.max(-1, Math.min(k - 3, 9 - k, 1))));
+  };
+  return [f(0), f(8), f(4)];
+}
+
+// A diagonal two-colour gradient whose hues are derived from the prompt.
+function placeholderImage(prompt: string): Uint8Array {
+  const hash = hashString(prompt);
+  const from = hslToRgb(hash % 360, 0.55, 0.35);
+  const to = hslToRgb((hash >>> 9) % 360, 0.6, 0.55);
+  const rgb = new Uint8Array(IMAGE_WIDTH * IMAGE_HEIGHT * 3);
+  for (let y = 0; y < IMAGE_HEIGHT; y++) {
+    for (let x = 0; x < IMAGE_WIDTH; x++) {
+      const t = (x / IMAGE_WIDTH + y / IMAGE_HEIGHT) / 2;
+      const i = (y * IMAGE_WIDTH + x) * 3;
+      for (let c = 0; c < 3; c++) {
+        rgb[i + c] = Math.round(from[c] + (to[c] - from[c]) * t);
+      }
+    }
+  }
+  return encodePng(IMAGE_WIDTH, IMAGE_HEIGHT, rgb);
+}
+
+// A soft sine tone lasting roughly as long as the text would take to read aloud, pitched by voice.
+function placeholderSpeech(text: string, voiceName: string): Uint8Array {
+  const wordCount = text.trim().split(/\s+/).filter(Boolean).length;
+  const seconds = Math.max(1, wordCount / WORDS_PER_SECOND);
+  const frameCount = Math.round(seconds * SAMPLE_RATE);
+  const frequency = 220 + (hashString(voiceName) % 220);
+  const fadeFrames = Math.min(SAMPLE_RATE / 20, frameCount / 2);
+  const pcm = new Int16Array(frameCount);
+  for (let i = 0; i < frameCount; i++) {
+    const envelope = Math.min(1, i / fadeFrames, (frameCount - i) / fadeFrames);
+    pcm[i] = Math.round(Math.sin((2 * Math.PI * frequency * i) / SAMPLE_RATE) * envelope * 0.2 * 32767);
+  }
+  return new Uint8Array(pcm.buffer);
+}
+
+// Cites sentences from the text sources in turn; PDFs are cited by name only, as the mock cannot read them.
+function mockCitation(sources: SourceDocument[], index: number): Citation {
+  const source = sources[index % sources.length];
+  const sentences = splitSentences(source.text ?? '').map(sentence => sentence.trim()).filter(Boolean);
+  const quote = sentences.length > 0 ? sentences[Math.floor(index / sources.length) % sentences.length] : `(${source.name})`;
+  return { source: source.name, quote: quote.slice(0, 200) };
+}
+
+// The first few words of each narration sentence, as a stand-in for real bullet points.
+function mockBullets(narration: string): string[] {
+  return splitSentences(narration)
+    .map(sentence => truncate(sentence.replace(/[.!?]+$/, '').split(/\s+/).slice(0, 6).join(' '), SCRIPT_LIMITS.maxBulletLength))
+    .filter(Boolean)
+    .slice(0, 3);
+}
+
+// Hands the narration's sentences to the speakers in turn, one line each.
+function mockDialogue(narration: string, options: GenerationOptions): string {
+  const names = options.speakers!.map(speaker => speaker.name);
+  return splitSentences(narration)
+    .map((sentence, index) => `${names[index % names.length]}: ${sentence}`)
+    .join('\n');
+}
+
+const CHAPTER_TITLES = ['Getting Started', 'Going Deeper', 'Bringing It Together'];
+
+// Splits the deck into up to three chapters of about equal length; returns the title of the
+// chapter that starts at the slide, if one does.
+function mockChapter(index: number, slideCount: number): string | undefined {
+  const starts = CHAPTER_TITLES.map((_, chapter) => Math.ceil((chapter * slideCount) / CHAPTER_TITLES.length));
+  const chapter = starts.findIndex((start, i) => start === index && starts.indexOf(start) === i);
+  return chapter === -1 ? undefined : CHAPTER_TITLES[chapter];
+}
+
+const QUIZ_DISTRACTORS = ['The weather on Mars', 'A recipe for sourdough bread', 'The rules of chess'];
+
+// Asks which point the slide made, with the right answer in a different place each time.
+function mockQuestion(slide: Slide, number: number): QuizQuestion {
+  const answer = slide.bullets?.[0] ?? slide.title;
+  const answerIndex = number % (QUIZ_DISTRACTORS.length + 1);
+  const choices = [...QUIZ_DISTRACTORS];
+  choices.splice(answerIndex, 0, answer);
+  return {
+    question: `Which of these was covered in "${slide.title}"?`,
+    choices,
+    answerIndex,
+    explanation: `"${answer}" is one of the points made on that slide.`,
+  };
+}
+
+// Spreads the questions evenly, so the last one comes after the last slide.
+function addMockQuiz(slides: Slide[], count: number): Slide[] {
+  const quizzed = slides.map(slide => ({ ...slide, quiz: [] as QuizQuestion[] }));
+  for (let number = 0; number < count; number++) {
+    const slide = quizzed[Math.ceil(((number + 1) * slides.length) / count) - 1];
+    slide.quiz.push(mockQuestion(slide, number));
+  }
+  return quizzed.map(({ quiz, ...slide }) => (quiz.length > 0 ? { ...slide, quiz } : slide));
+}
+
+// Token counts are estimated the way Gemini would bill them, so usage summaries can be tried
+// out offline: about four characters of text per token, a fixed count per image and a fixed
+// rate per second of audio.
+const estimateTextTokens = (text: string) => Math.ceil(text.length / 4);
+const IMAGE_OUTPUT_TOKENS = 1290;
+const AUDIO_TOKENS_PER_SECOND = 25;
+
+// Deterministic, network-free backend for development, demos and automated tests.
+export function createMockProvider(): GenerationProvider {
+  return {
+    name: 'mock',
+    models: { script: 'mock-script', image: 'mock-image', speech: 'mock-speech' },
+
+    // Its scripts always validate, so a repair request gets the same script back, billed for the
+    // longer prompt that carries the previous attempt and its problems.
+    async generateScript(topic: string, options: GenerationOptions, sources: SourceDocument[] = [], repair?: ScriptRepair): Promise<ProviderResult<Slide[]>> {
+      let slides = Array.from({ length: options.slideCount }, (_, index): Slide => {
+        const template = SLIDE_TEMPLATES[pickTemplate(index, options.slideCount)];
+        const part = Math.floor(Math.max(0, index - 1) / (SLIDE_TEMPLATES.length - 2));
+        const title = truncate(template.title.replace('{topic}', topic) + (part > 0 && index < options.slideCount - 1 ? ` (Part ${part + 1})` : ''), SCRIPT_LIMITS.maxTitleLength);
+        const monologue = fitNarration(template.narration.replace('{topic}', topic), options.minWordsPerSlide, options.maxWordsPerSlide);
+        const narration = isDialogue(options) ? mockDialogue(monologue, options) : monologue;
+        const chapter = options.chapters ? mockChapter(index, options.slideCount) : undefined;
+        return {
+          title,
+          narration,
+          bullets: mockBullets(monologue),
+          imagePrompt: `An illustration for a slide titled "${title}".`,
+          ...(sources.length > 0 && { citations: [mockCitation(sources, index)] }),
+          ...(chapter && { chapter }),
+        };
+      });
+      if (options.quizQuestions) slides = addMockQuiz(slides, options.quizQuestions);
+      const input = [topic, ...sources.map(source => source.text ?? ''), ...(repair ? [repair.previous, ...repair.issues] : [])].join('\n');
+      return { value: slides, usage: { inputTokens: estimateTextTokens(input), outputTokens: estimateTextTokens(JSON.stringify(slides)) } };
+    },
+
+    async generateImage(prompt: string): Promise<ProviderResult<string>> {
+      return { value: encode(placeholderImage(prompt)), usage: { inputTokens: estimateTextTokens(prompt), outputTokens: IMAGE_OUTPUT_TOKENS } };
+    },
+
+    async generateSpeech(text: string, options: GenerationOptions): Promise<ProviderResult<string>> {
+      const speakers = isDialogue(options) ? options.speakers! : [];
+      const turns = speakers.length > 0 ? parseSpeakerTurns(text, speakers) : [];
+      const pcm = turns.length === 0
+        ? placeholderSpeech(text, options.voiceName)
+        : concatBytes(turns.map(turn => placeholderSpeech(turn.text, speakers.find(speaker => speaker.name === turn.speaker)!.voiceName)));
+      const seconds = getPcmDuration(pcm, SAMPLE_RATE, 1);
+      return { value: encode(pcm), usage: { inputTokens: estimateTextTokens(text), outputTokens: Math.round(seconds * AUDIO_TOKENS_PER_SECOND) } };
+    },
+  };
+}
@@ -0,0 +1,77 @@
+import { GenerationOptions, Slide, SourceDocument } from '../../types';
+import { ProviderModels, ScriptRepair, TokenUsage } from './types';
+
+// The JSON API between the browser's proxy provider and the server in server/. Every endpoint
+// takes and returns JSON; failures use ProxyErrorBody with a non-2xx status.
+
+export const PROXY_ROUTES = {
+  health: '/api/health',
+  script: '/api/script',
+  image: '/api/image',
+  speech: '/api/speech',
+} as const;
+
+// Sent by the browser so the server can rate limit per user rather than per network address.
+export const CLIENT_ID_HEADER = 'x-client-id';
+
+export interface HealthResponse {
+  provider: string;
+  models: ProviderModels;
+}
+
+export interface ScriptRequest {
+  topic: string;
+  options: GenerationOptions;
+  sources?: SourceDocument[];
+  repair?: ScriptRepair;
+}
+
+export interface ScriptResponse {
+  slides: Slide[];
+  usage: TokenUsage;
+}
+
+export interface ImageRequest {
+  prompt: string;
+}
+
+// Base64 PNG data, as GenerationProvider.generateImage returns it.
+export interface ImageResponse {
+  image: string;
+  usage: TokenUsage;
+}
+
+export interface SpeechRequest {
+  text: string;
+  options: GenerationOptions;
+}
+
+// Base64 24 kHz mono 16-bit PCM, as GenerationProvider.generateSpeech returns it.
+export interface SpeechResponse {
+  audio: string;
+  usage: TokenUsage;
+}
+
+export type ProxyErrorCode =
+  | 'bad_request'
+  | 'not_found'
+  | 'method_not_allowed'
+  | 'payload_too_large'
+  | 'rate_limited'
+  | 'upstream_rate_limited'
+  | 'upstream_error'
+  // The model's script output was not valid JSON; the client repairs it like any invalid script.
+  | 'invalid_script'
+  | 'internal_error';
+
+export interface ProxyErrorBody {
+  error: {
+    code: ProxyErrorCode;
+    message: string;
+    // Seconds until a rate-limited request may be repeated.
+    retryAfter?: number;
+    // For invalid_script: what was wrong, and the raw output.
+    issues?: string[];
+    output?: string;
+  };
+}
@@ -0,0 +1,97 @@
+import { GenerationOptions, Slide, SourceDocument } from '../../types';
+import { ScriptValidationError } from '../../utils/scriptValidation';
+import {
+  CLIENT_ID_HEADER,
+  ImageRequest,
+  ImageResponse,
+  PROXY_ROUTES,
+  ProxyErrorBody,
+  ProxyErrorCode,
+  ScriptRequest,
+  ScriptResponse,
+  SpeechRequest,
+  SpeechResponse,
+} from './proxyProtocol';
+import { GenerationProvider, ProviderModels, ProviderResult, ScriptRepair } from './types';
+
+export interface ProxyProviderConfig {
+  // Origin of the server in server/, or empty when it is reached through the app's own origin.
+  baseUrl: string;
+  // The models the server is configured with, used for cache keys and project metadata.
+  models: ProviderModels;
+}
+
+// A failed proxy request. `status` lets the generation pipeline decide whether to retry.
+export class ProxyError extends Error {
+  constructor(message: string, readonly status: number, readonly code: ProxyErrorCode | 'network_error') {
+    super(message);
+    this.name = 'ProxyError';
+  }
+}
+
+const CLIENT_ID_KEY = 'ai-presentation-client-id';
+
+// A random id kept per browser, so the server's rate limit applies to each user separately.
+function getClientId(): string {
+  try {
+    let id = localStorage.getItem(CLIENT_ID_KEY);
+    if (!id) {
+      id = crypto.randomUUID();
+      localStorage.setItem(CLIENT_ID_KEY, id);
+    }
+    return id;
+  } catch {
+    return '';
+  }
+}
+
+// Generates through the server in server/, which holds the API key; the browser never sees it.
+export function createProxyProvider(config: ProxyProviderConfig): GenerationProvider {
+  const baseUrl = config.baseUrl.replace(/\/+$/, '');
+
+  const post = async <Request, Response>(path: string, body: Request): Promise<Response> => {
+    const clientId = getClientId();
+    let response: globalThis.Response;
+    try {
+      response = await fetch(`${baseUrl}${path}`, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json', ...(clientId && { [CLIENT_ID_HEADER]: clientId }) },
+        body: JSON.stringify(body),
+      });
+    } catch {
+      throw new ProxyError(
+        `Could not reach the generation server at ${baseUrl || 'this site'}. Start it with "npm run server".`,
+        0,
+        'network_error',
+      );
+    }
+    if (response.ok) return response.json();
+
+    const failure = (await response.json().catch(() => null)) as ProxyErrorBody | null;
+    if (failure?.error?.code === 'invalid_script') {
+      throw new ScriptValidationError(failure.error.issues ?? [failure.error.message], 1, failure.error.output);
+    }
+    const message = failure?.error?.message ?? `The generation server answered with status ${response.status}.`;
+    throw new ProxyError(message, response.status, failure?.error?.code ?? 'internal_error');
+  };
+
+  return {
+    name: 'proxy',
+    models: config.models,
+
+    async generateScript(topic: string, options: GenerationOptions, sources: SourceDocument[] = [], repair?: ScriptRepair): Promise<ProviderResult<Slide[]>> {
+      const { slides, usage } = await post<ScriptRequest, ScriptResponse>(PROXY_ROUTES.script, { topic, options, sources, repair });
+      return { value: slides, usage };
+    },
+
+    async generateImage(prompt: string): Promise<ProviderResult<string>> {
+      const { image, usage } = await post<ImageRequest, ImageResponse>(PROXY_ROUTES.image, { prompt });
+      return { value: image, usage };
+    },
+
+    async generateSpeech(text: string, options: GenerationOptions): Promise<ProviderResult<string>> {
+      const { audio, usage } = await post<SpeechRequest, SpeechResponse>(PROXY_ROUTES.speech, { text, options });
+      return { value: audio, usage };
+    },
+  };
+}
@@ -0,0 +1,40 @@
+import { GenerationOptions, Slide, SourceDocument } from '../../types';
+
+export type ProviderName = 'gemini' | 'mock' | 'proxy';
+
+export interface ProviderModels {
+  script: string;
+  image: string;
+  speech: string;
+}
+
+// Asks for a corrected script: the provider's previous output and what was wrong with it.
+export interface ScriptRepair {
+  previous: string;
+  issues: string[];
+}
+
+// Tokens a request consumed, as the backend reports them; zero when it does not say.
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface ProviderResult<T> {
+  value: T;
+  usage: TokenUsage;
+}
+
+// A backend able to produce everything a presentation needs.
+// Images are returned as base64 PNG data and speech as base64 24 kHz mono 16-bit PCM, each
+// with the tokens the request used.
+// When sources are given, the script is based on them and every slide cites what backs it.
+// Script output that is not valid JSON is reported as a ScriptValidationError, so it can be
+// repaired like any other invalid script.
+export interface GenerationProvider {
+  readonly name: ProviderName;
+  readonly models: ProviderModels;
+  generateScript(topic: string, options: GenerationOptions, sources?: SourceDocument[], repair?: ScriptRepair): Promise<ProviderResult<Slide[]>>;
+  generateImage(prompt: string): Promise<ProviderResult<string>>;
+  generateSpeech(text: string, options: GenerationOptions): Promise<ProviderResult<string>>;
+}
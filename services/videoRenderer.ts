@@ -0,0 +1,212 @@
+import { Muxer as Mp4Muxer, ArrayBufferTarget as Mp4Target } from 'mp4-muxer';
+import { Muxer as WebMMuxer, ArrayBufferTarget as WebMTarget } from 'webm-muxer';
+import { GeneratedSlide, MusicBed, Theme } from '../types';
+import { DEFAULT_THEME } from '../constants';
+import { NARRATION_SAMPLE_RATE, resampleLinear } from '../utils/audioUtils';
+import { buildCaptionCues, findCueAt } from '../utils/captions';
+import { getChapters } from '../utils/chapters';
+import { getFrameLayers, getSlideIndexAt, isAnimating } from '../utils/slideMotion';
+import { drawCaption, drawSlideFrame, loadSlideImage } from '../utils/slideRenderer';
+import { addMp4Chapters, addWebMChapters } from '../utils/videoChapters';
+import { mixPresentationAudio } from './audioMixer';
+
+export type VideoFormat = 'mp4' | 'webm';
+export type VideoResolution = '720p' | '1080p' | 'vertical';
+
+export const VIDEO_RESOLUTIONS: Record<VideoResolution, { label: string; width: number; height: number }> = {
+  '720p': { label: '720p (16:9)', width: 1280, height: 720 },
+  '1080p': { label: '1080p (16:9)', width: 1920, height: 1080 },
+  vertical: { label: 'Vertical (9:16)', width: 1080, height: 1920 },
+};
+
+export interface RenderVideoOptions {
+  format: VideoFormat;
+  resolution: VideoResolution;
+  fps?: number;
+  burnInCaptions?: boolean;
+  theme?: Theme;
+  // Mixed under the narration exactly as the viewer plays it.
+  music?: MusicBed;
+  // Called with a value between 0 and 1 as frames are encoded.
+  onProgress?: (progress: number) => void;
+  signal?: AbortSignal;
+}
+
+const OUTPUT_SAMPLE_RATE = 48000;
+const AUDIO_CHUNK_FRAMES = 4800;
+const KEYFRAME_INTERVAL_SECONDS = 2;
+const MAX_QUEUED_FRAMES = 8;
+
+interface CodecChoice {
+  encoder: string;
+  muxer: string;
+}
+
+// Candidates in order of preference; the first one the browser can encode is used.
+const VIDEO_CODECS: Record<VideoFormat, CodecChoice[]> = {
+  mp4: [
+    { encoder: 'avc1.640028', muxer: 'avc' },
+    { encoder: 'avc1.4d0028', muxer: 'avc' },
+    { encoder: 'avc1.420028', muxer: 'avc' },
+  ],
+  webm: [
+    { encoder: 'vp09.00.40.08', muxer: 'V_VP9' },
+    { encoder: 'vp8', muxer: 'V_VP8' },
+  ],
+};
+
+const AUDIO_CODECS: Record<VideoFormat, CodecChoice[]> = {
+  mp4: [
+    { encoder: 'mp4a.40.2', muxer: 'aac' },
+    { encoder: 'opus', muxer: 'opus' },
+  ],
+  webm: [{ encoder: 'opus', muxer: 'A_OPUS' }],
+};
+
+async function pickVideoCodec(format: VideoFormat, config: Omit<VideoEncoderConfig, 'codec'>): Promise<CodecChoice> {
+  for (const choice of VIDEO_CODECS[format]) {
+    const { supported } = await VideoEncoder.isConfigSupported({ ...config, codec: choice.encoder });
+    if (supported) return choice;
+  }
+  throw new Error(`This browser cannot encode ${format.toUpperCase()} video at ${config.width}x${config.height}.`);
+}
+
+async function pickAudioCodec(format: VideoFormat, config: Omit<AudioEncoderConfig, 'codec'>): Promise<CodecChoice> {
+  for (const choice of AUDIO_CODECS[format]) {
+    const { supported } = await AudioEncoder.isConfigSupported({ ...config, codec: choice.encoder });
+    if (supported) return choice;
+  }
+  throw new Error(`This browser cannot encode audio for ${format.toUpperCase()} files.`);
+}
+
+function waitForQueue(encoder: VideoEncoder | AudioEncoder): Promise<void> {
+  if (encoder.encodeQueueSize <= MAX_QUEUED_FRAMES) return Promise.resolve();
+  return new Promise(resolve => encoder.addEventListener('dequeue', () => resolve(), { once: true }));
+}
+
+// Encodes the presentation frame by frame with WebCodecs, independent of wall-clock time,
+// so it runs as fast as the encoder allows and is unaffected by tab throttling.
+export async function renderVideo(slides: GeneratedSlide[], options: RenderVideoOptions): Promise<Blob> {
+  if (typeof VideoEncoder === 'undefined' || typeof AudioEncoder === 'undefined') {
+    throw new Error('Video export needs WebCodecs support. Please use a recent version of Chrome, Edge or Safari.');
+  }
+
+  const { format, resolution, signal, onProgress } = options;
+  const fps = options.fps ?? 30;
+  const { width, height } = VIDEO_RESOLUTIONS[resolution];
+  const videoConfig = { width, height, bitrate: width * height * fps * 0.1, framerate: fps };
+  const audioConfig = { sampleRate: OUTPUT_SAMPLE_RATE, numberOfChannels: 1, bitrate: 128000 };
+  const videoCodec = await pickVideoCodec(format, videoConfig);
+  const audioCodec = await pickAudioCodec(format, audioConfig);
+
+  const mp4Target = new Mp4Target();
+  const webmTarget = new WebMTarget();
+  const muxer = format === 'mp4'
+    ? new Mp4Muxer({
+        target: mp4Target,
+        video: { codec: videoCodec.muxer as 'avc', width, height, frameRate: fps },
+        audio: { codec: audioCodec.muxer as 'aac' | 'opus', sampleRate: OUTPUT_SAMPLE_RATE, numberOfChannels: 1 },
+        fastStart: 'in-memory',
+      })
+    : new WebMMuxer({
+        target: webmTarget,
+        video: { codec: videoCodec.muxer, width, height, frameRate: fps },
+        audio: { codec: audioCodec.muxer, sampleRate: OUTPUT_SAMPLE_RATE, numberOfChannels: 1 },
+      });
+
+  let encoderError: Error | null = null;
+  const onError = (err: DOMException) => {
+    encoderError = err;
+  };
+  const videoEncoder = new VideoEncoder({ output: (chunk, meta) => muxer.addVideoChunk(chunk, meta), error: onError });
+  const audioEncoder = new AudioEncoder({ output: (chunk, meta) => muxer.addAudioChunk(chunk, meta), error: onError });
+  videoEncoder.configure({ ...videoConfig, codec: videoCodec.encoder });
+  audioEncoder.configure({ ...audioConfig, codec: audioCodec.encoder });
+
+  const checkState = () => {
+    signal?.throwIfAborted();
+    if (encoderError) throw encoderError;
+  };
+
+  const theme = options.theme ?? DEFAULT_THEME;
+  let images: (ImageBitmap | null)[] = [];
+  let logo: ImageBitmap | null = null;
+  try {
+    images = await Promise.all(slides.map(slide => (slide.imageUrl ? loadSlideImage(slide.imageUrl) : null)));
+    logo = theme.logoUrl ? await loadSlideImage(theme.logoUrl) : null;
+    const scene = { slides, images, theme, logo };
+    const canvas = new OffscreenCanvas(width, height);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Could not get canvas context');
+
+    // Audio is tiny next to video, so encode it all up front
+    const narration = await mixPresentationAudio(slides, options.music);
+    const samples = resampleLinear(narration, NARRATION_SAMPLE_RATE, OUTPUT_SAMPLE_RATE);
+    for (let offset = 0; offset < samples.length; offset += AUDIO_CHUNK_FRAMES) {
+      checkState();
+      const chunk = samples.subarray(offset, offset + AUDIO_CHUNK_FRAMES);
+      const audioData = new AudioData({
+        format: 'f32-planar',
+        sampleRate: OUTPUT_SAMPLE_RATE,
+        numberOfFrames: chunk.length,
+        numberOfChannels: 1,
+        timestamp: Math.round((offset / OUTPUT_SAMPLE_RATE) * 1e6),
+        data: chunk,
+      });
+      audioEncoder.encode(audioData);
+      audioData.close();
+      await waitForQueue(audioEncoder);
+    }
+
+    const totalFrames = Math.max(1, Math.ceil((samples.length / OUTPUT_SAMPLE_RATE) * fps));
+    const keyframeInterval = fps * KEYFRAME_INTERVAL_SECONDS;
+    const cues = options.burnInCaptions ? buildCaptionCues(slides) : [];
+    let slideIndex = -1;
+    let currentCaption: string | null = null;
+    let framesSinceKeyframe = 0;
+
+    for (let frameIndex = 0; frameIndex < totalFrames; frameIndex++) {
+      checkState();
+      // Frames are timed exactly as the viewer times them, so motion lines up with the preview
+      const time = frameIndex / fps;
+      const frameSlideIndex = getSlideIndexAt(slides, time);
+      const slideChanged = frameSlideIndex !== slideIndex;
+      slideIndex = frameSlideIndex;
+      const caption = findCueAt(cues, time)?.text ?? null;
+      if (slideChanged || caption !== currentCaption || isAnimating(slides, time)) {
+        currentCaption = caption;
+        drawSlideFrame(ctx, getFrameLayers(slides, time), scene, width, height);
+        if (caption) {
+          drawCaption(ctx, caption, width, height);
+        }
+      }
+
+      const keyFrame = slideChanged || framesSinceKeyframe >= keyframeInterval;
+      framesSinceKeyframe = keyFrame ? 1 : framesSinceKeyframe + 1;
+      const frame = new VideoFrame(canvas, {
+        timestamp: Math.round((frameIndex * 1e6) / fps),
+        duration: Math.round(1e6 / fps),
+      });
+      videoEncoder.encode(frame, { keyFrame });
+      frame.close();
+      await waitForQueue(videoEncoder);
+      onProgress?.((frameIndex + 1) / totalFrames);
+    }
+
+    await Promise.all([videoEncoder.flush(), audioEncoder.flush()]);
+    checkState();
+    muxer.finalize();
+  } finally {
+    images.forEach(image => image?.close());
+    logo?.close();
+    if (videoEncoder.state !== 'closed') videoEncoder.close();
+    if (audioEncoder.state !== 'closed') audioEncoder.close();
+  }
+
+  // Chapters go into the container so players can list and jump to them
+  const chapters = getChapters(slides);
+  const video = format === 'mp4'
+    ? addMp4Chapters(new Uint8Array(mp4Target.buffer), chapters)
+    : addWebMChapters(new Uint8Array(webmTarget.buffer), chapters);
+  return new Blob([video], { type: format === 'mp4' ? 'video/mp4' : 'video/webm' });
+}
@@ -0,0 +1,159 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import {
+  concatBytes,
+  concatClips,
+  encode,
+  float32ToPcm16,
+  getNarrationDuration,
+  getPcmDuration,
+  getRms,
+  getWavDuration,
+  NARRATION_SAMPLE_RATE,
+  normalizeLoudness,
+  pcm16ToFloat32,
+  pcmToWav,
+  resampleLinear,
+  wavToPcm,
+} from '../utils/audioUtils';
+
+const pcm16 = (...values: number[]) => {
+  const data = new Uint8Array(values.length * 2);
+  const view = new DataView(data.buffer);
+  values.forEach((value, index) => view.setInt16(index * 2, value, true));
+  return data;
+};
+
+const chunk = (tag: string, body: Uint8Array) => {
+  const header = new Uint8Array(8);
+  header.set([...tag].map(char => char.charCodeAt(0)));
+  new DataView(header.buffer).setUint32(4, body.length, true);
+  return concatBytes([header, body, new Uint8Array(body.length % 2)]);
+};
+
+const assertClose = (actual: ArrayLike<number>, expected: number[], tolerance = 1e-6) => {
+  assert.equal(actual.length, expected.length);
+  expected.forEach((value, index) => assert.ok(Math.abs(actual[index] - value) <= tolerance, `sample ${index}: ${actual[index]} != ${value}`));
+};
+
+describe('pcmToWav and wavToPcm', () => {
+  it('round-trips samples, rate and channel count', () => {
+    const pcm = pcm16(0, 1000, -1000, 32767, -32768, 7);
+    const wav = pcmToWav(pcm, 44100, 2);
+    assert.equal(wav.length, 44 + pcm.length);
+    assert.deepEqual(wavToPcm(wav), { pcm, sampleRate: 44100, numChannels: 2 });
+  });
+
+  it('skips chunks other than fmt and data', () => {
+    const wav = pcmToWav(pcm16(1, 2, 3), 24000, 1);
+    const withList = concatBytes([wav.subarray(0, 36), chunk('LIST', new Uint8Array(5)), wav.subarray(36)]);
+    assert.deepEqual(wavToPcm(withList).pcm, pcm16(1, 2, 3));
+  });
+
+  it('rejects files that are not 16-bit PCM WAV', () => {
+    assert.throws(() => wavToPcm(new Uint8Array(44)), /Not a WAV file/);
+    const wav = pcmToWav(pcm16(1), 24000, 1);
+    new DataView(wav.buffer).setUint16(34, 24, true);
+    assert.throws(() => wavToPcm(wav), /Only 16-bit PCM/);
+  });
+});
+
+describe('pcm16ToFloat32 and float32ToPcm16', () => {
+  it('converts full-scale samples both ways', () => {
+    assertClose(pcm16ToFloat32(pcm16(0, 16384, -32768, 32767)), [0, 0.5, -1, 32767 / 32768]);
+    assert.deepEqual(float32ToPcm16(new Float32Array([0, 1, -1, -0.5])), pcm16(0, 32767, -32768, -16384));
+  });
+
+  it('clamps samples outside -1 to 1', () => {
+    assert.deepEqual(float32ToPcm16(new Float32Array([1.5, -3, Infinity, -Infinity])), pcm16(32767, -32768, 32767, -32768));
+  });
+
+  it('ignores a trailing odd byte', () => {
+    assert.equal(pcm16ToFloat32(new Uint8Array(5)).length, 2);
+  });
+});
+
+describe('resampleLinear', () => {
+  it('returns the input when the rates match', () => {
+    const samples = new Float32Array([0.1, 0.2]);
+    assert.equal(resampleLinear(samples, 24000, 24000), samples);
+  });
+
+  it('interpolates between samples when doubling the rate', () => {
+    assertClose(resampleLinear(new Float32Array([0, 1, 0, -1]), 24000, 48000), [0, 0.5, 1, 0.5, 0, -0.5, -1, -1]);
+  });
+
+  it('scales the length with the rate', () => {
+    assert.equal(resampleLinear(new Float32Array(24000), 24000, 48000).length, 48000);
+    assert.equal(resampleLinear(new Float32Array(441), 44100, 48000).length, 480);
+    assert.equal(resampleLinear(new Float32Array(48000), 48000, 24000).length, 24000);
+    assert.equal(resampleLinear(new Float32Array(4410), 44100, 16000).length, 1600);
+  });
+
+  describe('when lowering the rate', () => {
+    const tone = (frequency: number, rate: number) =>
+      new Float32Array(rate / 10).map((_sample, index) => Math.sin((2 * Math.PI * frequency * index) / rate));
+    // Leaves out the filter's ramp at either end
+    const middle = (samples: Float32Array) => samples.subarray(samples.length / 4, (samples.length * 3) / 4);
+
+    it('keeps frequencies the new rate can hold', () => {
+      const resampled = resampleLinear(tone(1000, 48000), 48000, 24000);
+      assert.ok(Math.abs(getRms(middle(resampled)) - Math.SQRT1_2) < 0.01);
+    });
+
+    it('filters out frequencies above the new Nyquist frequency instead of aliasing them', () => {
+      // An 18 kHz tone would fold back to 6 kHz at full volume without the filter
+      assert.ok(getRms(middle(resampleLinear(tone(18000, 48000), 48000, 24000))) < 0.01);
+      assert.ok(getRms(middle(resampleLinear(tone(15000, 44100), 44100, 24000))) < 0.01);
+    });
+  });
+});
+
+describe('concatClips', () => {
+  it('pads the gap between clips with silence', () => {
+    const joined = concatClips([new Float32Array([1, 1]), new Float32Array([2]), new Float32Array([3])], 4, 0.5);
+    assert.deepEqual([...joined], [1, 1, 0, 0, 2, 0, 0, 3]);
+  });
+
+  it('joins clips directly without a gap', () => {
+    assert.deepEqual([...concatClips([new Float32Array([1]), new Float32Array([2, 3])], 24000)], [1, 2, 3]);
+  });
+
+  it('handles no clips and negative gaps', () => {
+    assert.equal(concatClips([], 24000, 1).length, 0);
+    assert.equal(concatClips([new Float32Array(2), new Float32Array(2)], 24000, -1).length, 4);
+  });
+});
+
+describe('normalizeLoudness', () => {
+  it('brings the RMS level to the target', () => {
+    const quiet = new Float32Array(1000).map((_sample, index) => 0.01 * Math.sin(index / 10));
+    assert.ok(Math.abs(getRms(normalizeLoudness(quiet, 0.1, 1)) - 0.1) < 1e-6);
+  });
+
+  it('keeps the loudest sample at the peak limit', () => {
+    const spiky = new Float32Array(1000).fill(0.01);
+    spiky[0] = 0.5;
+    const normalized = normalizeLoudness(spiky, 0.5, 0.8);
+    assert.ok(Math.abs(normalized[0] - 0.8) < 1e-6);
+    assert.ok(getRms(normalized) < 0.5);
+  });
+
+  it('leaves near-silence alone', () => {
+    const silence = new Float32Array(100).fill(0.00001);
+    assert.equal(normalizeLoudness(silence), silence);
+  });
+});
+
+describe('durations', () => {
+  it('measures PCM by sample rate and channel count', () => {
+    assert.equal(getPcmDuration(new Uint8Array(96000), 24000, 1), 2);
+    assert.equal(getPcmDuration(new Uint8Array(96000), 24000, 2), 1);
+  });
+
+  it('measures narration and WAV files', () => {
+    const pcm = new Uint8Array(NARRATION_SAMPLE_RATE);
+    assert.equal(getNarrationDuration(encode(pcm)), 0.5);
+    assert.equal(getWavDuration(pcmToWav(pcm, NARRATION_SAMPLE_RATE, 1)), 0.5);
+  });
+});
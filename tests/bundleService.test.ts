@@ -0,0 +1,132 @@
+import assert from 'node:assert/strict';
+import { before, describe, it } from 'node:test';
+import { PresentationProject } from '../types';
+import { DEFAULT_GENERATION_OPTIONS, DEFAULT_MUSIC_BED, DEFAULT_PRICE_TABLE, THEMES } from '../constants';
+import { BUNDLE_VERSION, BundleError, createBundle, readBundle } from '../services/bundleService';
+import { setProvider } from '../services/geminiService';
+import { createPipelineSlides, generateScriptWithRetry, runAssetPipeline, toGeneratedSlides } from '../services/generationPipeline';
+import { createMockProvider } from '../services/providers/mockProvider';
+import { createZip, decodeText, encodeText, readZip } from '../utils/zipUtils';
+
+type Manifest = Record<string, any>;
+
+// Rewrites the manifest of a bundle, keeping its assets.
+async function editManifest(bundle: Uint8Array, edit: (manifest: Manifest) => void): Promise<Uint8Array> {
+  const files = await readZip(bundle);
+  const manifest = JSON.parse(decodeText(files.get('manifest.json')!));
+  edit(manifest);
+  files.set('manifest.json', encodeText(JSON.stringify(manifest)));
+  return createZip([...files].map(([name, data]) => ({ name, data })));
+}
+
+const rejectsWith = (bundle: Promise<Uint8Array>, pattern: RegExp) =>
+  assert.rejects(bundle.then(readBundle), (err: unknown) => {
+    assert.ok(err instanceof BundleError);
+    assert.match(err.message, pattern);
+    return true;
+  });
+
+describe('presentation bundles', () => {
+  let project: PresentationProject;
+  let bundle: Uint8Array;
+
+  before(async () => {
+    setProvider(createMockProvider());
+    const options = { ...DEFAULT_GENERATION_OPTIONS, slideCount: 3, chapters: true, quizQuestions: 2 };
+    const usage: PresentationProject['usage'] = [];
+    const script = await generateScriptWithRetry('Glaciers', options, [], { onUsage: record => usage.push(record) });
+    const pipeline = await runAssetPipeline(createPipelineSlides(script, options), options, { onUsage: record => usage.push(record) });
+    project = {
+      id: 'original',
+      name: 'Glaciers',
+      topic: 'Glaciers',
+      slides: toGeneratedSlides(pipeline),
+      options,
+      theme: THEMES[1],
+      music: DEFAULT_MUSIC_BED,
+      usage,
+      createdAt: 1,
+      updatedAt: 2,
+    };
+    bundle = createBundle(project, DEFAULT_PRICE_TABLE);
+  });
+
+  it('round-trips a project, quizzes and chapters included', async () => {
+    const { id, ...imported } = await readBundle(bundle);
+    const { id: _originalId, ...expected } = project;
+    assert.notEqual(id, project.id);
+    assert.deepEqual(imported, expected);
+    assert.ok(imported.slides.some(slide => slide.quiz && slide.quiz.length > 0));
+    assert.equal(imported.slides[0].chapter, 'Getting Started');
+  });
+
+  it('writes the current format version', async () => {
+    const files = await readZip(bundle);
+    assert.equal(JSON.parse(decodeText(files.get('manifest.json')!)).version, BUNDLE_VERSION);
+  });
+
+  it('reads a version 1 manifest with only the fields the first release wrote', async () => {
+    const files = await readZip(bundle);
+    const manifest = {
+      format: 'ai-presentation-bundle',
+      version: 1,
+      exportedAt: '2026-10-19T18:00:00.000Z',
+      project: { name: 'Glaciers', topic: 'Glaciers', createdAt: 1, updatedAt: 2 },
+      options: { slideCount: 1, minWordsPerSlide: 30, maxWordsPerSlide: 50, audience: 'a general audience', tone: 'educational', language: 'English', voiceName: 'Kore' },
+      slides: [{
+        title: 'Glaciers',
+        narration: 'Glaciers are rivers of ice.',
+        imagePrompt: 'A glacier',
+        duration: 2,
+        start: 0,
+        image: 'images/slide-01.png',
+        audio: 'audio/slide-01.wav',
+      }],
+    };
+    const imported = await readBundle(createZip([
+      { name: 'manifest.json', data: encodeText(JSON.stringify(manifest)) },
+      { name: 'images/slide-01.png', data: files.get('images/slide-01.png')! },
+      { name: 'audio/slide-01.wav', data: files.get('audio/slide-01.wav')! },
+    ]));
+    assert.equal(imported.slides.length, 1);
+    assert.equal(imported.slides[0].narration, 'Glaciers are rivers of ice.');
+    assert.match(imported.slides[0].imageUrl, /^data:image\/png;base64,/);
+    assert.deepEqual(imported.options, manifest.options);
+    assert.equal(imported.theme, undefined);
+    assert.equal(imported.usage, undefined);
+  });
+
+  it('rejects bundles from a newer version', async () => {
+    await rejectsWith(editManifest(bundle, manifest => { manifest.version = BUNDLE_VERSION + 1; }), new RegExp(`format version ${BUNDLE_VERSION + 1}.*Update the app`));
+  });
+
+  it('rejects invalid generation options', async () => {
+    const withOptions = (changes: Manifest) => editManifest(bundle, manifest => Object.assign(manifest.options, changes));
+    await rejectsWith(withOptions({ imageMode: 'photos' }), /options\.imageMode must be generate or background/);
+    await rejectsWith(withOptions({ background: { type: 'pattern' } }), /options\.background\.type must be solid or gradient/);
+    await rejectsWith(withOptions({ background: { type: 'gradient', from: '#000' } }), /options\.background\.to must be a string/);
+    await rejectsWith(withOptions({ quizQuestions: 2.5 }), /options\.quizQuestions must be a whole number from 0 to 10/);
+    await rejectsWith(withOptions({ quizQuestions: 11 }), /options\.quizQuestions/);
+    await rejectsWith(withOptions({ chapters: 'yes' }), /options\.chapters must be a boolean/);
+    await rejectsWith(withOptions({ slideCount: 0 }), /options\.slideCount/);
+  });
+
+  it('rejects malformed quizzes and chapters', async () => {
+    await rejectsWith(editManifest(bundle, manifest => { manifest.slides[0].chapter = 7; }), /slides\[0\]\.chapter must be a string/);
+    await rejectsWith(editManifest(bundle, manifest => {
+      manifest.slides[1].quiz = [{ question: 'Why?', choices: 'A or B', answerIndex: 0, explanation: '' }];
+    }), /slides\[1\]\.quiz\[0\]'s choices must be a list of non-empty strings/);
+  });
+
+  it('rejects quiz questions without a correct answer', async () => {
+    const withQuestion = (changes: Manifest) => editManifest(bundle, manifest => {
+      manifest.slides[1].quiz = [{ question: 'Why?', choices: ['A', 'B', 'C'], answerIndex: 0, explanation: 'Because.', ...changes }];
+    });
+    const noAnswer = /slides\[1\]\.quiz\[0\]'s answerIndex must be the 0-based index of one of its 3 choices/;
+    await rejectsWith(withQuestion({ answerIndex: 7 }), noAnswer);
+    await rejectsWith(withQuestion({ answerIndex: -1 }), noAnswer);
+    await rejectsWith(withQuestion({ answerIndex: 1.5 }), noAnswer);
+    await rejectsWith(withQuestion({ choices: [] }), /slides\[1\]\.quiz\[0\] has 0 choices/);
+    assert.equal((await readBundle(await withQuestion({ answerIndex: 2 }))).slides[1].quiz![0].answerIndex, 2);
+  });
+});
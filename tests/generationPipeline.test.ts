@@ -0,0 +1,75 @@
+import assert from 'node:assert/strict';
+import { before, describe, it } from 'node:test';
+import { GeneratedSlide, GenerationOptions, UsageRecord } from '../types';
+import { DEFAULT_GENERATION_OPTIONS } from '../constants';
+import { setProvider } from '../services/geminiService';
+import {
+  createPipelineSlides,
+  generateScriptWithRetry,
+  isPipelineComplete,
+  runAssetPipeline,
+  toGeneratedSlides,
+} from '../services/generationPipeline';
+import { createMockProvider } from '../services/providers/mockProvider';
+import { decode, getNarrationDuration } from '../utils/audioUtils';
+import { validateScript } from '../utils/scriptValidation';
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+async function generateDeck(topic: string, options: GenerationOptions, records: UsageRecord[] = []): Promise<GeneratedSlide[]> {
+  const onUsage = (record: UsageRecord) => records.push(record);
+  const script = await generateScriptWithRetry(topic, options, [], { onUsage });
+  const pipeline = await runAssetPipeline(createPipelineSlides(script, options), options, { onUsage });
+  assert.ok(isPipelineComplete(pipeline));
+  return toGeneratedSlides(pipeline);
+}
+
+describe('generating a deck offline with the mock provider', () => {
+  const options = { ...DEFAULT_GENERATION_OPTIONS, slideCount: 4 };
+  const records: UsageRecord[] = [];
+  let slides: GeneratedSlide[];
+
+  before(async () => {
+    setProvider(createMockProvider());
+    slides = await generateDeck('Black Holes', options, records);
+  });
+
+  it('returns a valid script about the topic', () => {
+    assert.equal(slides.length, 4);
+    assert.deepEqual(validateScript(slides, options), []);
+    assert.match(slides[0].title, /Black Holes/);
+  });
+
+  it('gives every slide a PNG image', () => {
+    for (const slide of slides) {
+      const [prefix, base64] = slide.imageUrl.split(',');
+      assert.equal(prefix, 'data:image/png;base64');
+      assert.deepEqual([...decode(base64).subarray(0, 8)], PNG_SIGNATURE);
+    }
+  });
+
+  it('gives every slide narration audio as long as its duration', () => {
+    for (const slide of slides) {
+      assert.ok(slide.duration >= 1);
+      assert.equal(slide.duration, getNarrationDuration(slide.audioData));
+      assert.ok(decode(slide.audioData).some(byte => byte !== 0));
+    }
+  });
+
+  it('records one request per script, image and narration', () => {
+    assert.deepEqual(records.map(record => record.kind).sort(), ['image', 'image', 'image', 'image', 'script', 'speech', 'speech', 'speech', 'speech']);
+    assert.ok(records.every(record => record.provider === 'mock' && !record.failed && !record.cached));
+  });
+
+  it('produces the same deck every time', async () => {
+    assert.deepEqual(await generateDeck('Black Holes', options), slides);
+  });
+
+  it('shows the background instead of generating images when asked to', async () => {
+    const background = { ...options, imageMode: 'background' as const };
+    const records: UsageRecord[] = [];
+    const plain = await generateDeck('Black Holes', background, records);
+    assert.ok(plain.every(slide => slide.imageUrl === '' && slide.background?.type === 'gradient'));
+    assert.ok(records.every(record => record.kind !== 'image'));
+  });
+});
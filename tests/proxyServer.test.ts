@@ -0,0 +1,260 @@
+import assert from 'node:assert/strict';
+import { createServer, IncomingMessage, Server } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { after, before, describe, it } from 'node:test';
+import { DEFAULT_GENERATION_OPTIONS } from '../constants';
+import { loadServiceConfig } from '../services/config';
+import { createProvider } from '../services/geminiService';
+import { DEFAULT_GEMINI_MODELS } from '../services/providers/geminiProvider';
+import { createMockProvider } from '../services/providers/mockProvider';
+import { CLIENT_ID_HEADER, PROXY_ROUTES, ProxyErrorBody } from '../services/providers/proxyProtocol';
+import { createProxyServer, RequestLogEntry } from '../server/app';
+import { createRateLimiter } from '../server/rateLimit';
+
+const CLIENT_LIMIT = 3;
+const MAX_BODY_BYTES = 64 * 1024;
+
+// Starts a server on a free port and returns its address.
+async function listen(server: Server): Promise<string> {
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+}
+
+const close = (server: Server) => new Promise<void>((resolve, reject) => server.close(err => (err ? reject(err) : resolve())));
+
+const expectError = async (response: Response, status: number, code: ProxyErrorBody['error']['code']) => {
+  assert.equal(response.status, status);
+  assert.match(response.headers.get('content-type') ?? '', /^application\/json/);
+  const body = await response.json() as ProxyErrorBody;
+  assert.equal(body.error.code, code);
+  assert.equal(typeof body.error.message, 'string');
+  return body;
+};
+
+const scriptRequest = { topic: 'Tides', options: { ...DEFAULT_GENERATION_OPTIONS, slideCount: 2 } };
+
+describe('proxy server', () => {
+  const logged: RequestLogEntry[] = [];
+  const server = createProxyServer({
+    provider: createMockProvider(),
+    clientLimiter: createRateLimiter({ limit: CLIENT_LIMIT, windowMs: 60_000 }),
+    log: entry => logged.push(entry),
+    maxBodyBytes: MAX_BODY_BYTES,
+  });
+  let baseUrl: string;
+  // Each test is its own client, so the rate limit of one does not spill into the next
+  let clients = 0;
+
+  before(async () => {
+    baseUrl = await listen(server);
+  });
+
+  after(() => close(server));
+
+  const newClient = () => `test-client-${++clients}`;
+
+  const request = (path: string, init: RequestInit & { client?: string } = {}) => {
+    const { client = newClient(), ...rest } = init;
+    return fetch(`${baseUrl}${path}`, { ...rest, headers: { 'content-type': 'application/json', [CLIENT_ID_HEADER]: client, ...rest.headers } });
+  };
+
+  const post = (path: string, body: unknown, client?: string) =>
+    request(path, { method: 'POST', body: typeof body === 'string' ? body : JSON.stringify(body), client });
+
+  it('generates through the provider behind it', async () => {
+    const response = await post(PROXY_ROUTES.script, scriptRequest);
+    assert.equal(response.status, 200);
+    const { slides } = await response.json();
+    assert.equal(slides.length, 2);
+
+    const health = await request(PROXY_ROUTES.health);
+    assert.deepEqual(await health.json(), { provider: 'mock', models: createMockProvider().models });
+  });
+
+  it('counts down the rate limit in a header and then answers 429', async () => {
+    const client = newClient();
+    for (let remaining = CLIENT_LIMIT - 1; remaining >= 0; remaining--) {
+      const response = await post(PROXY_ROUTES.image, { prompt: 'A lighthouse' }, client);
+      assert.equal(response.status, 200);
+      assert.equal(response.headers.get('x-ratelimit-remaining'), String(remaining));
+    }
+    const limited = await post(PROXY_ROUTES.image, { prompt: 'A lighthouse' }, client);
+    const body = await expectError(limited, 429, 'rate_limited');
+    assert.equal(limited.headers.get('x-ratelimit-remaining'), '0');
+    assert.equal(limited.headers.get('retry-after'), String(body.error.retryAfter));
+    assert.ok(body.error.retryAfter! > 0 && body.error.retryAfter! <= 60);
+
+    // Other clients and the health check are not affected
+    assert.equal((await post(PROXY_ROUTES.image, { prompt: 'A lighthouse' })).status, 200);
+    assert.equal((await request(PROXY_ROUTES.health, { client })).status, 200);
+  });
+
+  it('answers 400 for bodies that are not valid requests', async () => {
+    await expectError(await post(PROXY_ROUTES.script, '{"topic":'), 400, 'bad_request');
+    await expectError(await post(PROXY_ROUTES.script, '[]'), 400, 'bad_request');
+    await expectError(await post(PROXY_ROUTES.script, { options: scriptRequest.options }), 400, 'bad_request');
+    await expectError(await post(PROXY_ROUTES.script, { ...scriptRequest, options: { ...scriptRequest.options, slideCount: 0 } }), 400, 'bad_request');
+    await expectError(await post(PROXY_ROUTES.speech, { text: 'Hello' }), 400, 'bad_request');
+    await expectError(await post(PROXY_ROUTES.script, { ...scriptRequest, repair: { previous: 1 } }), 400, 'bad_request');
+  });
+
+  it('checks every option', async () => {
+    const send = (changes: Record<string, unknown>) => post(PROXY_ROUTES.script, { ...scriptRequest, options: { ...scriptRequest.options, ...changes } });
+    const expectBadOption = async (changes: Record<string, unknown>, field: string) => {
+      const body = await expectError(await send(changes), 400, 'bad_request');
+      assert.match(body.error.message, new RegExp(`options\\.${field}`));
+    };
+    const speakers = [{ name: 'Host', voiceName: 'Kore' }, { name: 'Expert', voiceName: 'Puck' }];
+
+    assert.equal((await send({ speakers, quizQuestions: 2, chapters: true })).status, 200);
+    await expectBadOption({ speakers: 'ab' }, 'speakers');
+    await expectBadOption({ speakers: [speakers[0]] }, 'speakers');
+    await expectBadOption({ speakers: [...speakers, speakers[0]] }, 'speakers');
+    await expectBadOption({ speakers: [speakers[0], { name: 'Expert' }] }, 'speakers');
+    await expectBadOption({ speakers: [speakers[0], { name: 'x'.repeat(41), voiceName: 'Puck' }] }, 'speakers');
+    await expectBadOption({ minWordsPerSlide: undefined }, 'minWordsPerSlide');
+    await expectBadOption({ minWordsPerSlide: 0 }, 'minWordsPerSlide');
+    await expectBadOption({ maxWordsPerSlide: 12.5 }, 'maxWordsPerSlide');
+    await expectBadOption({ minWordsPerSlide: 60, maxWordsPerSlide: 50 }, 'minWordsPerSlide');
+    await expectBadOption({ quizQuestions: -1 }, 'quizQuestions');
+    await expectBadOption({ quizQuestions: 11 }, 'quizQuestions');
+    await expectBadOption({ quizQuestions: '2' }, 'quizQuestions');
+    await expectBadOption({ chapters: 'yes' }, 'chapters');
+    await expectBadOption({ tone: 'x'.repeat(201) }, 'tone');
+    await expectBadOption({ audience: '' }, 'audience');
+    await expectBadOption({ language: 42 }, 'language');
+    await expectBadOption({ voiceName: undefined }, 'voiceName');
+  });
+
+  it('checks every source', async () => {
+    const send = (sources: unknown) => post(PROXY_ROUTES.script, { ...scriptRequest, sources });
+    const notes = { id: 'a', name: 'notes.md', mimeType: 'text/markdown', text: 'Tides follow the moon.', size: 22 };
+
+    assert.equal((await send([notes])).status, 200);
+    await expectError(await send({}), 400, 'bad_request');
+    await expectError(await send(['notes']), 400, 'bad_request');
+    await expectError(await send([{ ...notes, name: '' }]), 400, 'bad_request');
+    await expectError(await send([{ ...notes, name: 'x'.repeat(256) }]), 400, 'bad_request');
+    await expectError(await send([{ ...notes, mimeType: 'text/html' }]), 400, 'bad_request');
+    await expectError(await send([{ ...notes, text: 42 }]), 400, 'bad_request');
+    await expectError(await send([{ ...notes, data: 'AAAA' }]), 400, 'bad_request');
+    await expectError(await send([{ name: 'paper.pdf', mimeType: 'application/pdf', text: 'x' }]), 400, 'bad_request');
+    const body = await expectError(await send([{ name: 'paper.pdf', mimeType: 'application/pdf', data: 'not base64!' }]), 400, 'bad_request');
+    assert.match(body.error.message, /sources\[0\]\.data/);
+  });
+
+  it('answers 404 for unknown paths', async () => {
+    const body = await expectError(await request('/api/nothing'), 404, 'not_found');
+    assert.match(body.error.message, /\/api\/nothing/);
+  });
+
+  it('answers 405 with the allowed method', async () => {
+    const response = await request(PROXY_ROUTES.script);
+    await expectError(response, 405, 'method_not_allowed');
+    assert.equal(response.headers.get('allow'), 'POST');
+  });
+
+  it('answers 413 for oversized bodies', async () => {
+    const response = await post(PROXY_ROUTES.image, { prompt: 'x'.repeat(MAX_BODY_BYTES) });
+    await expectError(response, 413, 'payload_too_large');
+  });
+
+  it('logs every request with its outcome', () => {
+    const notFound = logged.find(entry => entry.path === '/api/nothing');
+    assert.equal(notFound?.status, 404);
+    assert.match(notFound?.error ?? '', /^not_found: /);
+    assert.ok(logged.some(entry => entry.path === PROXY_ROUTES.script && entry.status === 200 && entry.error === undefined));
+  });
+});
+
+describe('proxy server in front of a Gemini stub', () => {
+  interface UpstreamRequest {
+    path: string;
+    apiKey: string | undefined;
+    body: any;
+  }
+  interface CannedResponse {
+    status: number;
+    body: unknown;
+  }
+
+  // Answers every generateContent call with the next canned response, recording what it was sent.
+  const received: UpstreamRequest[] = [];
+  const responses: CannedResponse[] = [];
+  const stub = createServer(async (request: IncomingMessage, response) => {
+    let data = '';
+    for await (const chunk of request) data += chunk;
+    received.push({ path: request.url ?? '', apiKey: request.headers['x-goog-api-key'] as string | undefined, body: JSON.parse(data) });
+    const { status, body } = responses.shift() ?? { status: 500, body: { error: { code: 500, message: 'No canned response left.', status: 'INTERNAL' } } };
+    response.writeHead(status, { 'content-type': 'application/json' });
+    response.end(JSON.stringify(body));
+  });
+  const upstreamError = (code: number, status: string, message: string): CannedResponse => ({ status: code, body: { error: { code, message, status } } });
+
+  const slides = [1, 2].map(number => ({
+    title: `Tides ${number}`,
+    narration: 'The moon pulls on the oceans, and the water rises and falls twice a day.',
+    bullets: ['The moon', 'Two tides a day'],
+    imagePrompt: 'A harbour at low tide',
+  }));
+
+  let server: Server;
+  let baseUrl: string;
+
+  before(async () => {
+    const stubUrl = await listen(stub);
+    const environment = { GENERATION_PROVIDER: 'gemini', GEMINI_API_KEY: 'stub-key', GEMINI_BASE_URL: stubUrl };
+    const saved = Object.fromEntries(Object.keys(environment).map(name => [name, process.env[name]]));
+    Object.assign(process.env, environment);
+    try {
+      server = createProxyServer({ provider: createProvider(loadServiceConfig()), log: () => {} });
+    } finally {
+      for (const [name, value] of Object.entries(saved)) {
+        if (value === undefined) delete process.env[name];
+        else process.env[name] = value;
+      }
+    }
+    baseUrl = await listen(server);
+  });
+
+  after(async () => {
+    await close(server);
+    await close(stub);
+  });
+
+  const post = (path: string, body: unknown) =>
+    fetch(`${baseUrl}${path}`, { method: 'POST', headers: { 'content-type': 'application/json' }, body: JSON.stringify(body) });
+
+  it('sends the script request upstream and returns its slides and usage', async () => {
+    responses.push({
+      status: 200,
+      body: {
+        candidates: [{ content: { role: 'model', parts: [{ text: JSON.stringify({ slides }) }] }, finishReason: 'STOP' }],
+        usageMetadata: { promptTokenCount: 120, candidatesTokenCount: 300, thoughtsTokenCount: 80, totalTokenCount: 500 },
+      },
+    });
+    const response = await post(PROXY_ROUTES.script, { ...scriptRequest, options: { ...scriptRequest.options, chapters: true } });
+    assert.equal(response.status, 200);
+    assert.deepEqual(await response.json(), { slides, usage: { inputTokens: 120, outputTokens: 380 } });
+
+    const [upstream] = received;
+    assert.equal(upstream.path, `/v1beta/models/${DEFAULT_GEMINI_MODELS.script}:generateContent`);
+    assert.equal(upstream.apiKey, 'stub-key');
+    assert.match(upstream.body.contents[0].parts.at(-1).text, /about "Tides"[\s\S]*exactly 2 slides/);
+    const schema = upstream.body.generationConfig.responseSchema;
+    assert.equal(schema.properties.slides.minItems, '2');
+    assert.ok(schema.properties.slides.items.properties.chapter);
+  });
+
+  it('maps an upstream 429 to upstream_rate_limited', async () => {
+    responses.push(upstreamError(429, 'RESOURCE_EXHAUSTED', 'Quota exceeded.'));
+    await expectError(await post(PROXY_ROUTES.image, { prompt: 'A lighthouse' }), 429, 'upstream_rate_limited');
+  });
+
+  it('maps an upstream 500 to upstream_error with its message', async () => {
+    responses.push(upstreamError(500, 'INTERNAL', 'The model is overloaded.'));
+    const body = await expectError(await post(PROXY_ROUTES.image, { prompt: 'A lighthouse' }), 502, 'upstream_error');
+    assert.match(body.error.message, /The model is overloaded/);
+    assert.doesNotMatch(body.error.message, /stub-key/);
+  });
+});
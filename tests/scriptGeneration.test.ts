@@ -0,0 +1,87 @@
+import assert from 'node:assert/strict';
+import { beforeEach, describe, it } from 'node:test';
+import { GenerationOptions, UsageRecord } from '../types';
+import { DEFAULT_GENERATION_OPTIONS, SCRIPT_LIMITS } from '../constants';
+import { generatePresentationScript, setProvider } from '../services/geminiService';
+import { createMockProvider } from '../services/providers/mockProvider';
+import { GenerationProvider, ScriptRepair } from '../services/providers/types';
+import { countWords, ScriptValidationError, validateScript } from '../utils/scriptValidation';
+
+const DIALOGUE: Partial<GenerationOptions> = {
+  speakers: [{ name: 'Host', voiceName: 'Kore' }, { name: 'Expert', voiceName: 'Puck' }],
+};
+
+describe('generatePresentationScript with the mock provider', () => {
+  beforeEach(() => setProvider(createMockProvider()));
+
+  // The lowest and highest limits the options form allows, and a narrow range in between
+  const limits = [[5, 5], [5, 10], [300, 300], [40, 45]];
+
+  for (const [minWordsPerSlide, maxWordsPerSlide] of limits) {
+    for (const [mode, extra] of [['monologue', {}], ['dialogue', DIALOGUE]] as const) {
+      it(`writes a valid ${mode} script for ${minWordsPerSlide}-${maxWordsPerSlide} words per slide`, async () => {
+        const options = { ...DEFAULT_GENERATION_OPTIONS, ...extra, slideCount: 7, minWordsPerSlide, maxWordsPerSlide };
+        const records: UsageRecord[] = [];
+        const slides = await generatePresentationScript('The Water Cycle', options, [], 'use', record => records.push(record));
+
+        assert.equal(slides.length, 7);
+        assert.deepEqual(validateScript(slides, options), []);
+        // Valid on the first attempt, so no repair was needed
+        assert.equal(records.length, 1);
+        assert.equal(records[0].repair, undefined);
+        if (mode === 'monologue') {
+          for (const slide of slides) assert.ok(countWords(slide.narration) <= maxWordsPerSlide);
+        }
+      });
+    }
+  }
+
+  it('adds chapters and quiz questions that validate', async () => {
+    const options = { ...DEFAULT_GENERATION_OPTIONS, slideCount: 6, chapters: true, quizQuestions: 4 };
+    const slides = await generatePresentationScript('Volcanoes', options);
+    assert.deepEqual(validateScript(slides, options), []);
+    assert.equal(slides[0].chapter, 'Getting Started');
+    assert.equal(slides.reduce((sum, slide) => sum + (slide.quiz?.length ?? 0), 0), 4);
+  });
+});
+
+describe('script repair', () => {
+  const options = { ...DEFAULT_GENERATION_OPTIONS, slideCount: 3 };
+
+  // Returns a script with an empty narration until it has been asked to repair `failures` times.
+  const createFlakyProvider = (failures: number) => {
+    const mock = createMockProvider();
+    const repairs: ScriptRepair[] = [];
+    const provider: GenerationProvider = {
+      ...mock,
+      async generateScript(topic, scriptOptions, sources, repair) {
+        if (repair) repairs.push(repair);
+        const result = await mock.generateScript(topic, scriptOptions, sources, repair);
+        if (repairs.length >= failures) return result;
+        return { ...result, value: result.value.map((slide, index) => (index === 1 ? { ...slide, narration: '' } : slide)) };
+      },
+    };
+    return { provider, repairs };
+  };
+
+  it('sends the problems back and marks the repair request in its usage record', async () => {
+    const { provider, repairs } = createFlakyProvider(1);
+    setProvider(provider);
+    const records: UsageRecord[] = [];
+    const slides = await generatePresentationScript('Comets', options, [], 'refresh', record => records.push(record));
+
+    assert.deepEqual(validateScript(slides, options), []);
+    assert.deepEqual(repairs.map(repair => repair.issues), [['Slide 2 has no narration.']]);
+    assert.deepEqual(records.map(record => Boolean(record.repair)), [false, true]);
+  });
+
+  it('reports the number of attempts once repairs run out', async () => {
+    setProvider(createFlakyProvider(Infinity).provider);
+    await assert.rejects(generatePresentationScript('Comets', options), (err: unknown) => {
+      assert.ok(err instanceof ScriptValidationError);
+      assert.equal(err.attempts, SCRIPT_LIMITS.maxRepairs + 1);
+      assert.deepEqual(err.issues, ['Slide 2 has no narration.']);
+      return true;
+    });
+  });
+});
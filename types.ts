@@ -1,10 +1,223 @@
 
+// Material the user supplied for the script to be based on. Text and Markdown are kept as
+// text; PDFs are kept as base64 and passed to the model as they are.
+export interface SourceDocument {
+  id: string;
+  name: string;
+  mimeType: string;
+  text?: string;
+  data?: string;
+  size: number;
+}
+
+// The passage of a source document that backs a slide.
+export interface Citation {
+  source: string;
+  quote: string;
+}
+
+export type SlideLayout = 'fullBleed' | 'titleOnly' | 'imageLeft' | 'quote';
+
+// A multiple-choice knowledge check, asked when the slide it belongs to has finished.
+export interface QuizQuestion {
+  question: string;
+  choices: string[];
+  // Index into choices of the one correct answer.
+  answerIndex: number;
+  // Why that answer is right, shown once the question has been answered.
+  explanation: string;
+}
+
 export interface Slide {
   title: string;
   narration: string;
   imagePrompt: string;
+  citations?: Citation[];
+  // Short on-screen points; the narration is what gets spoken.
+  bullets?: string[];
+  // Falls back to the theme's default layout when absent.
+  layout?: SlideLayout;
+  // Starts a chapter with this title, which runs until the next slide that starts one.
+  chapter?: string;
+  quiz?: QuizQuestion[];
+}
+
+export type TransitionType = 'none' | 'fade' | 'slide' | 'zoom';
+
+export interface SlideTransition {
+  type: TransitionType;
+  // Seconds, starting when the slide's narration starts.
+  duration: number;
 }
 
+// A region of the slide's visible (cover-fitted) image, as fractions of its width and height.
+export interface MotionRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Ken Burns pan/zoom from one region of the image to another across the slide.
+export interface SlideMotion {
+  start: MotionRect;
+  end: MotionRect;
+}
+
+// Shown instead of an image. Gradient angles follow CSS linear-gradient: degrees clockwise
+// from pointing up, so 180 runs top to bottom.
+export type SlideBackground =
+  | { type: 'solid'; color: string }
+  | { type: 'gradient'; from: string; to: string; angle: number };
+
+export type ImageFit = 'cover' | 'contain';
+
 export interface GeneratedSlide extends Slide {
+  // Data URL of the slide's image, or empty when the slide shows its background instead.
   imageUrl: string;
+  // Uploaded images are the user's own media; absent means the image was generated.
+  imageSource?: 'generated' | 'upload';
+  // Part of the image to use, as fractions of its width and height. Defaults to all of it.
+  imageCrop?: MotionRect;
+  // Defaults to cover. Contained images are letterboxed on the slide's background.
+  imageFit?: ImageFit;
+  background?: SlideBackground;
+  // Base64-encoded 16-bit 24 kHz mono PCM narration for this slide, from TTS or a recording.
+  audioData: string;
+  // Recorded narration is the presenter's own voice; absent means it was synthesised.
+  narrationSource?: 'tts' | 'recording';
+  // Voices this slide is read in instead of the deck's, by speaker name (see utils/speakers).
+  voices?: Record<string, string>;
+  // Measured length of this slide's narration in seconds.
+  duration: number;
+  // How this slide enters; defaults to a short cross-fade when absent.
+  transition?: SlideTransition;
+  motion?: SlideMotion;
+}
+
+// A voice in a dialogue-style script, whose narration lines start with "<name>: ".
+export interface Speaker {
+  name: string;
+  voiceName: string;
+}
+
+export interface GenerationOptions {
+  slideCount: number;
+  minWordsPerSlide: number;
+  maxWordsPerSlide: number;
+  audience: string;
+  tone: string;
+  // Language the script is written and narrated in, e.g. "English" or "Brazilian Portuguese".
+  language: string;
+  // Gemini prebuilt TTS voice name.
+  voiceName: string;
+  // Two speakers turn the narration into a dialogue read in their voices instead of voiceName.
+  speakers?: Speaker[];
+  // 'background' skips image generation and gives every slide `background` instead.
+  imageMode?: 'generate' | 'background';
+  background?: SlideBackground;
+  // Quiz questions to spread over the deck; absent or 0 means no quiz.
+  quizQuestions?: number;
+  // Groups the slides into titled chapters.
+  chapters?: boolean;
+}
+
+// Which backend and models produced a presentation, kept with saves and exports.
+export interface GeneratorInfo {
+  provider: string;
+  scriptModel: string;
+  imageModel: string;
+  speechModel: string;
+}
+
+export type UsageKind = 'script' | 'image' | 'speech';
+
+// One request made while generating a presentation, successful or not.
+export interface UsageRecord {
+  kind: UsageKind;
+  provider: string;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  images: number;
+  audioSeconds: number;
+  // Wall-clock time of the request, including any wait for the cache.
+  latencyMs: number;
+  // Answered from the generation cache, so nothing was billed.
+  cached: boolean;
+  failed: boolean;
+  // A script request that sent back the previous attempt's problems to have them fixed.
+  repair?: boolean;
+  // When the request started, in milliseconds since the epoch.
+  startedAt: number;
+}
+
+// Prices in the table's currency. Gemini bills images and speech by output tokens; the per
+// image and per minute rates are for models that bill by unit instead.
+export interface ModelPrice {
+  inputPerMillionTokens: number;
+  outputPerMillionTokens: number;
+  perImage?: number;
+  perAudioMinute?: number;
+}
+
+export interface PriceTable {
+  currency: string;
+  models: Record<string, ModelPrice>;
+}
+
+// Colours are CSS colour strings and fonts are CSS font-family lists, so the same values
+// drive both the DOM and the canvas renderer.
+export interface Theme {
+  id: string;
+  name: string;
+  backgroundColor: string;
+  textColor: string;
+  accentColor: string;
+  titleFont: string;
+  bodyFont: string;
+  defaultLayout: SlideLayout;
+  // Watermark drawn in the top-right corner of every slide, as a data URL.
+  logoUrl?: string;
+}
+
+export type MusicSource =
+  | { type: 'loop'; loopId: string }
+  // The uploaded file as a data URL, decoded whenever the mix is built.
+  | { type: 'upload'; name: string; dataUrl: string };
+
+// A music track looped under the whole presentation and mixed into the narration track.
+export interface MusicBed {
+  source: MusicSource;
+  // Gain between 0 and 1 while nobody is speaking.
+  volume: number;
+  // Seconds at the start and end of the presentation.
+  fadeIn: number;
+  fadeOut: number;
+  // Fraction of the volume kept while narration is speaking, between 0 and 1.
+  duckLevel: number;
+}
+
+export interface PresentationProject {
+  id: string;
+  name: string;
+  topic: string;
+  slides: GeneratedSlide[];
+  options: GenerationOptions;
+  generator?: GeneratorInfo;
+  theme?: Theme;
+  music?: MusicBed;
+  // Every request made for this presentation, including regenerating single slides.
+  usage?: UsageRecord[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface ProjectSummary {
+  id: string;
+  name: string;
+  topic: string;
+  slideCount: number;
+  createdAt: number;
+  updatedAt: number;
 }
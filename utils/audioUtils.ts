@@ -1,3 +1,8 @@
+// Audio primitives shared by generation, recording, playback and every exporter. Everything
+// here except decodeAudioFile is plain computation and runs in Node as well as the browser.
+
+// Every narration clip, synthesised or recorded, is 16-bit little-endian mono PCM at this rate.
+export const NARRATION_SAMPLE_RATE = 24000;
 
 // Provided in Gemini API documentation for decoding raw PCM audio data.
 
@@ -11,21 +16,248 @@ export function decode(base64: string): Uint8Array {
   return bytes;
 }
 
-export async function decodeAudioData(
+export function encode(bytes: Uint8Array): string {
+  let binary = '';
+  const len = bytes.byteLength;
+  for (let i = 0; i < len; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+}
+
+export function getPcmDuration(
   data: Uint8Array,
-  ctx: AudioContext,
   sampleRate: number,
   numChannels: number,
-): Promise<AudioBuffer> {
-  const dataInt16 = new Int16Array(data.buffer);
-  const frameCount = dataInt16.length / numChannels;
-  const buffer = ctx.createBuffer(numChannels, frameCount, sampleRate);
-
-  for (let channel = 0; channel < numChannels; channel++) {
-    const channelData = buffer.getChannelData(channel);
-    for (let i = 0; i < frameCount; i++) {
-      channelData[i] = dataInt16[i * numChannels + channel] / 32768.0;
+): number {
+  return data.length / 2 / numChannels / sampleRate;
+}
+
+export function getNarrationDuration(audioData: string): number {
+  return getPcmDuration(decode(audioData), NARRATION_SAMPLE_RATE, 1);
+}
+
+export function getWavDuration(data: Uint8Array): number {
+  const { pcm, sampleRate, numChannels } = wavToPcm(data);
+  return getPcmDuration(pcm, sampleRate, numChannels);
+}
+
+export function concatBytes(chunks: Uint8Array[]): Uint8Array {
+  const totalLength = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
+  const result = new Uint8Array(totalLength);
+  let offset = 0;
+  for (const chunk of chunks) {
+    result.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return result;
+}
+
+// Wraps 16-bit little-endian PCM samples in a RIFF/WAVE container.
+export function pcmToWav(pcm: Uint8Array, sampleRate: number, numChannels: number): Uint8Array {
+  const wav = new Uint8Array(44 + pcm.length);
+  const view = new DataView(wav.buffer);
+  const writeTag = (offset: number, tag: string) => {
+    for (let i = 0; i < 4; i++) view.setUint8(offset + i, tag.charCodeAt(i));
+  };
+
+  writeTag(0, 'RIFF');
+  view.setUint32(4, 36 + pcm.length, true);
+  writeTag(8, 'WAVE');
+  writeTag(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM (uncompressed)
+  view.setUint16(22, numChannels, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * numChannels * 2, true); // avg. bytes/sec
+  view.setUint16(32, numChannels * 2, true); // block-align
+  view.setUint16(34, 16, true); // 16-bit
+  writeTag(36, 'data');
+  view.setUint32(40, pcm.length, true);
+  wav.set(pcm, 44);
+  return wav;
+}
+
+export interface WavPcm {
+  pcm: Uint8Array;
+  sampleRate: number;
+  numChannels: number;
+}
+
+// Extracts the samples from a 16-bit PCM WAV file, skipping any non-audio chunks.
+export function wavToPcm(data: Uint8Array): WavPcm {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const readTag = (offset: number) => String.fromCharCode(...data.subarray(offset, offset + 4));
+  if (data.length < 12 || readTag(0) !== 'RIFF' || readTag(8) !== 'WAVE') {
+    throw new Error('Not a WAV file.');
+  }
+
+  let sampleRate = 0;
+  let numChannels = 0;
+  let offset = 12;
+  while (offset + 8 <= data.length) {
+    const tag = readTag(offset);
+    const size = view.getUint32(offset + 4, true);
+    const body = offset + 8;
+    if (tag === 'fmt ') {
+      const format = view.getUint16(body, true);
+      const bitsPerSample = view.getUint16(body + 14, true);
+      if (format !== 1 || bitsPerSample !== 16) {
+        throw new Error('Only 16-bit PCM WAV files are supported.');
+      }
+      numChannels = view.getUint16(body + 2, true);
+      sampleRate = view.getUint32(body + 4, true);
+    } else if (tag === 'data') {
+      if (!sampleRate) {
+        throw new Error('WAV data chunk appears before its format chunk.');
+      }
+      return { pcm: data.slice(body, Math.min(body + size, data.length)), sampleRate, numChannels };
     }
+    offset = body + size + (size % 2);
+  }
+  throw new Error('WAV file has no data chunk.');
+}
+
+export function pcm16ToFloat32(data: Uint8Array): Float32Array {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const samples = new Float32Array(Math.floor(data.length / 2));
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] = view.getInt16(i * 2, true) / 32768.0;
+  }
+  return samples;
+}
+
+// Windowed-sinc (Blackman) low-pass filter. `cutoff` is the highest frequency kept, as a fraction
+// of the sample rate; samples beyond either end count as silence.
+function lowPass(samples: Float32Array, cutoff: number, halfWidth: number): Float32Array {
+  const taps = new Float32Array(halfWidth * 2 + 1);
+  let gain = 0;
+  for (let k = -halfWidth; k <= halfWidth; k++) {
+    const sinc = k === 0 ? 2 * cutoff : Math.sin(2 * Math.PI * cutoff * k) / (Math.PI * k);
+    const window = 0.42 + 0.5 * Math.cos((Math.PI * k) / halfWidth) + 0.08 * Math.cos((2 * Math.PI * k) / halfWidth);
+    taps[k + halfWidth] = sinc * window;
+    gain += taps[k + halfWidth];
   }
-  return buffer;
+  const result = new Float32Array(samples.length);
+  for (let i = 0; i < samples.length; i++) {
+    let sum = 0;
+    const first = Math.max(0, i - halfWidth);
+    const last = Math.min(samples.length - 1, i + halfWidth);
+    for (let j = first; j <= last; j++) sum += samples[j] * taps[j - i + halfWidth];
+    result[i] = sum / gain;
+  }
+  return result;
+}
+
+// Linear-interpolation resampler; plenty for speech going up to the 48 kHz codecs expect. When
+// lowering the rate it first filters out what the new rate cannot hold, which would otherwise
+// alias into the audible range.
+export function resampleLinear(samples: Float32Array, fromRate: number, toRate: number): Float32Array {
+  if (fromRate === toRate) return samples;
+  if (toRate < fromRate) {
+    // Wider filters for bigger steps down keep the transition band a fixed share of the new rate
+    const halfWidth = Math.ceil((32 * fromRate) / toRate);
+    const nyquist = toRate / fromRate / 2;
+    samples = lowPass(samples, nyquist - 2.75 / (halfWidth * 2 + 1), halfWidth);
+  }
+  const length = Math.round((samples.length * toRate) / fromRate);
+  const result = new Float32Array(length);
+  const ratio = fromRate / toRate;
+  for (let i = 0; i < length; i++) {
+    const position = i * ratio;
+    const index = Math.floor(position);
+    const next = Math.min(index + 1, samples.length - 1);
+    const fraction = position - index;
+    result[i] = samples[index] * (1 - fraction) + samples[next] * fraction;
+  }
+  return result;
+}
+
+export function float32ToPcm16(samples: Float32Array): Uint8Array {
+  const data = new Uint8Array(samples.length * 2);
+  const view = new DataView(data.buffer);
+  for (let i = 0; i < samples.length; i++) {
+    const sample = Math.max(-1, Math.min(1, samples[i]));
+    view.setInt16(i * 2, sample < 0 ? sample * 32768 : sample * 32767, true);
+  }
+  return data;
+}
+
+// Mono samples as a 16-bit PCM WAV file.
+export function float32ToWav(samples: Float32Array, sampleRate: number): Uint8Array {
+  return pcmToWav(float32ToPcm16(samples), sampleRate, 1);
+}
+
+// Joins mono clips with gapSeconds of silence between each pair.
+export function concatClips(clips: Float32Array[], sampleRate: number, gapSeconds = 0): Float32Array {
+  const gap = Math.max(0, Math.round(gapSeconds * sampleRate));
+  const totalLength = clips.reduce((sum, clip) => sum + clip.length, 0) + gap * Math.max(0, clips.length - 1);
+  const result = new Float32Array(totalLength);
+  let offset = 0;
+  clips.forEach((clip, index) => {
+    if (index > 0) offset += gap;
+    result.set(clip, offset);
+    offset += clip.length;
+  });
+  return result;
+}
+
+// Averages every channel into one, since narration is stored as mono.
+export function mixToMono(buffer: AudioBuffer): Float32Array {
+  if (buffer.numberOfChannels === 1) return buffer.getChannelData(0).slice();
+  const mono = new Float32Array(buffer.length);
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const data = buffer.getChannelData(channel);
+    for (let i = 0; i < mono.length; i++) mono[i] += data[i] / buffer.numberOfChannels;
+  }
+  return mono;
+}
+
+export function getPeak(samples: Float32Array): number {
+  let peak = 0;
+  for (let i = 0; i < samples.length; i++) peak = Math.max(peak, Math.abs(samples[i]));
+  return peak;
+}
+
+// Root mean square level between 0 and 1, for level meters.
+export function getRms(samples: Float32Array): number {
+  if (samples.length === 0) return 0;
+  let sum = 0;
+  for (let i = 0; i < samples.length; i++) sum += samples[i] * samples[i];
+  return Math.sqrt(sum / samples.length);
+}
+
+// Scales the samples so the loudest one reaches targetPeak (about -1 dBFS by default).
+// Near-silent input is left alone rather than amplifying noise to full scale.
+export function normalizePeak(samples: Float32Array, targetPeak = 0.89): Float32Array {
+  const peak = getPeak(samples);
+  if (peak < 0.001) return samples;
+  const gain = targetPeak / peak;
+  return samples.map(sample => sample * gain);
+}
+
+// Scales the samples to an average (RMS) level, so clips from different sources sound equally
+// loud, while keeping the loudest sample at or below peakLimit.
+export function normalizeLoudness(samples: Float32Array, targetRms = 0.1, peakLimit = 0.89): Float32Array {
+  const rms = getRms(samples);
+  const peak = getPeak(samples);
+  if (rms < 0.0001 || peak < 0.001) return samples;
+  const gain = Math.min(targetRms / rms, peakLimit / peak);
+  return samples.map(sample => sample * gain);
+}
+
+// Keeps the samples between two times in seconds.
+export function trimSamples(samples: Float32Array, sampleRate: number, start: number, end: number): Float32Array {
+  const from = Math.max(0, Math.round(start * sampleRate));
+  const to = Math.min(samples.length, Math.round(end * sampleRate));
+  return samples.slice(from, Math.max(from, to));
+}
+
+// Decodes a recorded or uploaded clip in any format the browser can play to mono samples at sampleRate.
+// decodeAudioData converts to the context's rate with the browser's own filtered resampler, so
+// 44.1 and 48 kHz files come down to sampleRate without aliasing.
+export async function decodeAudioFile(data: Blob | ArrayBuffer, sampleRate: number): Promise<Float32Array> {
+  const bytes = data instanceof Blob ? await data.arrayBuffer() : data;
+  const audioContext = new OfflineAudioContext(1, 1, sampleRate);
+  return mixToMono(await audioContext.decodeAudioData(bytes));
 }
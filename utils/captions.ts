@@ -0,0 +1,137 @@
+import { GeneratedSlide } from '../types';
+import { Chapter } from './chapters';
+
+export interface CaptionCue {
+  start: number;
+  end: number;
+  // May contain a single "\n" where the cue wraps onto a second line.
+  text: string;
+  slideIndex: number;
+}
+
+export interface CaptionOptions {
+  maxLineLength: number;
+  maxLines: number;
+}
+
+const DEFAULT_CAPTION_OPTIONS: CaptionOptions = { maxLineLength: 42, maxLines: 2 };
+
+// Splits on sentence-ending punctuation while keeping the punctuation with its sentence.
+function splitSentences(text: string): string[] {
+  return (text.match(/[^.!?…。！？]+(?:[.!?…。！？]+["'”’)\]]*|$)/g) ?? [])
+    .map(sentence => sentence.trim())
+    .filter(Boolean);
+}
+
+// Greedily fills lines up to maxLineLength; a single over-long word gets a line of its own.
+function wrapWords(words: string[], maxLineLength: number): string[] {
+  const lines: string[] = [];
+  let line = '';
+  for (const word of words) {
+    if (line && line.length + 1 + word.length > maxLineLength) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = line ? `${line} ${word}` : word;
+    }
+  }
+  if (line) lines.push(line);
+  return lines;
+}
+
+// Breaks narration into cue texts of at most maxLines lines. Short sentences share a cue when
+// they fit together; a sentence too long for one cue is chunked, carrying any pending short
+// sentence along so no cue flashes by with a single word.
+export function splitIntoCaptionTexts(narration: string, options: CaptionOptions = DEFAULT_CAPTION_OPTIONS): string[] {
+  const { maxLineLength, maxLines } = options;
+  const texts: string[] = [];
+  let pending: string[] = [];
+  const flush = () => {
+    if (pending.length > 0) {
+      texts.push(wrapWords(pending, maxLineLength).join('\n'));
+      pending = [];
+    }
+  };
+
+  for (const sentence of splitSentences(narration)) {
+    const words = sentence.split(/\s+/);
+    if (wrapWords([...pending, ...words], maxLineLength).length <= maxLines) {
+      pending = [...pending, ...words];
+    } else if (wrapWords(words, maxLineLength).length > maxLines) {
+      const lines = wrapWords([...pending, ...words], maxLineLength);
+      let i = 0;
+      for (; i + maxLines < lines.length; i += maxLines) {
+        texts.push(lines.slice(i, i + maxLines).join('\n'));
+      }
+      pending = lines.slice(i).join(' ').split(' ');
+    } else {
+      flush();
+      pending = words;
+    }
+  }
+  flush();
+  return texts;
+}
+
+// Times each cue within its slide in proportion to its length, since speech time tracks
+// character count far better than it tracks word count.
+export function buildCaptionCues(slides: GeneratedSlide[], options: CaptionOptions = DEFAULT_CAPTION_OPTIONS): CaptionCue[] {
+  const cues: CaptionCue[] = [];
+  let slideStart = 0;
+  slides.forEach((slide, slideIndex) => {
+    const texts = splitIntoCaptionTexts(slide.narration, options);
+    const totalChars = texts.reduce((sum, text) => sum + text.length, 0);
+    let start = slideStart;
+    for (const text of texts) {
+      const end = start + (slide.duration * text.length) / totalChars;
+      cues.push({ start, end, text, slideIndex });
+      start = end;
+    }
+    slideStart += slide.duration;
+  });
+  return cues;
+}
+
+export function findCueAt(cues: CaptionCue[], time: number): CaptionCue | null {
+  return cues.find(cue => time >= cue.start && time < cue.end) ?? null;
+}
+
+function formatTimestamp(seconds: number, decimalSeparator: '.' | ','): string {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const hours = Math.floor(totalMs / 3600000);
+  const minutes = Math.floor((totalMs % 3600000) / 60000);
+  const secs = Math.floor((totalMs % 60000) / 1000);
+  const ms = totalMs % 1000;
+  const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+  return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${decimalSeparator}${pad(ms, 3)}`;
+}
+
+// Cue text must not contain a blank line or the "-->" arrow in either format.
+const sanitizeCueText = (text: string) => text.replace(/-->/g, '→').replace(/\n\s*\n/g, '\n');
+
+// Chapters are marked with a NOTE before their first cue. Players ignore notes, so the
+// chapters also come as a separate chapters track from toWebVTTChapters.
+export function toWebVTT(cues: CaptionCue[], chapters: Chapter[] = []): string {
+  let nextChapter = 0;
+  const blocks = cues.flatMap((cue, index) => {
+    const notes: string[] = [];
+    for (; nextChapter < chapters.length && chapters[nextChapter].start <= cue.start; nextChapter++) {
+      notes.push(`NOTE Chapter ${nextChapter + 1}: ${sanitizeCueText(chapters[nextChapter].title).replace(/\n/g, ' ')}`);
+    }
+    return [...notes, `${index + 1}\n${formatTimestamp(cue.start, '.')} --> ${formatTimestamp(cue.end, '.')}\n${sanitizeCueText(cue.text)}`];
+  });
+  return `WEBVTT\n\n${blocks.join('\n\n')}\n`;
+}
+
+// A WebVTT file for a <track kind="chapters">, one cue per chapter.
+export function toWebVTTChapters(chapters: Chapter[]): string {
+  const blocks = chapters.map((chapter, index) =>
+    `chapter-${index + 1}\n${formatTimestamp(chapter.start, '.')} --> ${formatTimestamp(chapter.end, '.')}\n${sanitizeCueText(chapter.title)}`);
+  return `WEBVTT\n\n${blocks.join('\n\n')}\n`;
+}
+
+export function toSRT(cues: CaptionCue[]): string {
+  const blocks = cues.map((cue, index) =>
+    `${index + 1}\n${formatTimestamp(cue.start, ',')} --> ${formatTimestamp(cue.end, ',')}\n${sanitizeCueText(cue.text)}`);
+  return `${blocks.join('\n\n')}\n`;
+}
@@ -0,0 +1,38 @@
+import { GeneratedSlide } from '../types';
+
+export interface Chapter {
+  title: string;
+  // Seconds from the start of the presentation.
+  start: number;
+  end: number;
+  // The chapter's first slide.
+  slideIndex: number;
+}
+
+// The presentation's chapters in order, or none when no slide starts one. Slides before the
+// first chapter get a chapter named after their first slide, so chapters cover the whole
+// presentation without gaps, as video chapter lists expect.
+export function getChapters(slides: GeneratedSlide[]): Chapter[] {
+  if (!slides.some(slide => slide.chapter?.trim())) return [];
+  const chapters: Chapter[] = [];
+  let time = 0;
+  slides.forEach((slide, slideIndex) => {
+    const title = slide.chapter?.trim();
+    if (title || slideIndex === 0) {
+      const previous = chapters[chapters.length - 1];
+      if (previous) previous.end = time;
+      chapters.push({ title: title || slide.title, start: time, end: time, slideIndex });
+    }
+    time += slide.duration;
+  });
+  chapters[chapters.length - 1].end = time;
+  return chapters;
+}
+
+export function findChapterAt(chapters: Chapter[], time: number): Chapter | null {
+  let current: Chapter | null = null;
+  for (const chapter of chapters) {
+    if (time >= chapter.start) current = chapter;
+  }
+  return current;
+}
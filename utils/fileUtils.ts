@@ -0,0 +1,14 @@
+export function downloadBlob(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
+
+export function toFileBaseName(name: string): string {
+  return name.trim().replace(/\s+/g, '_') || 'presentation';
+}
@@ -0,0 +1,139 @@
+import { crc32 } from './binaryUtils';
+import { decode, encode } from './audioUtils';
+
+const PNG_SIGNATURE = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+const MAX_STORED_BLOCK = 0xffff;
+
+function adler32(data: Uint8Array): number {
+  let a = 1;
+  let b = 0;
+  for (let i = 0; i < data.length; i++) {
+    a = (a + data[i]) % 65521;
+    b = (b + a) % 65521;
+  }
+  return ((b << 16) | a) >>> 0;
+}
+
+// Wraps data in a zlib stream made of uncompressed ("stored") deflate blocks.
+function zlibStore(data: Uint8Array): Uint8Array {
+  const blockCount = Math.max(1, Math.ceil(data.length / MAX_STORED_BLOCK));
+  const out = new Uint8Array(2 + blockCount * 5 + data.length + 4);
+  const view = new DataView(out.buffer);
+  let pos = 0;
+  out[pos++] = 0x78;
+  out[pos++] = 0x01;
+  for (let block = 0; block < blockCount; block++) {
+    const start = block * MAX_STORED_BLOCK;
+    const chunk = data.subarray(start, start + MAX_STORED_BLOCK);
+    out[pos++] = block === blockCount - 1 ? 1 : 0;
+    view.setUint16(pos, chunk.length, true);
+    view.setUint16(pos + 2, ~chunk.length & 0xffff, true);
+    pos += 4;
+    out.set(chunk, pos);
+    pos += chunk.length;
+  }
+  view.setUint32(pos, adler32(data));
+  return out;
+}
+
+function pngChunk(type: string, data: Uint8Array): Uint8Array {
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  for (let i = 0; i < 4; i++) chunk[4 + i] = type.charCodeAt(i);
+  chunk.set(data, 8);
+  view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+  return chunk;
+}
+
+// Encodes 8-bit RGB pixels (row-major, no padding) as a PNG without needing a canvas.
+export function encodePng(width: number, height: number, rgb: Uint8Array): Uint8Array {
+  const header = new Uint8Array(13);
+  const headerView = new DataView(header.buffer);
+  headerView.setUint32(0, width);
+  headerView.setUint32(4, height);
+  header[8] = 8; // bit depth
+  header[9] = 2; // colour type: truecolour
+
+  const rowLength = width * 3;
+  const raw = new Uint8Array((rowLength + 1) * height);
+  for (let y = 0; y < height; y++) {
+    raw[y * (rowLength + 1)] = 0; // filter: none
+    raw.set(rgb.subarray(y * rowLength, (y + 1) * rowLength), y * (rowLength + 1) + 1);
+  }
+
+  const chunks = [
+    PNG_SIGNATURE,
+    pngChunk('IHDR', header),
+    pngChunk('IDAT', zlibStore(raw)),
+    pngChunk('IEND', new Uint8Array(0)),
+  ];
+  const png = new Uint8Array(chunks.reduce((sum, chunk) => sum + chunk.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    png.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return png;
+}
+
+export interface DataUrlParts {
+  mimeType: string;
+  data: Uint8Array;
+}
+
+export function parseDataUrl(url: string): DataUrlParts {
+  const match = /^data:([^;,]+)(?:;[^,]*)?;base64,(.*)$/s.exec(url);
+  if (!match) {
+    throw new Error('Expected a base64 data URL.');
+  }
+  return { mimeType: match[1], data: decode(match[2]) };
+}
+
+export function toDataUrl(mimeType: string, data: Uint8Array): string {
+  return `data:${mimeType};base64,${encode(data)}`;
+}
+
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+};
+
+export function imageExtension(mimeType: string): string {
+  return IMAGE_EXTENSIONS[mimeType] ?? 'bin';
+}
+
+export function imageMimeType(fileName: string): string | undefined {
+  const extension = fileName.split('.').pop()?.toLowerCase();
+  if (extension === 'jpeg') return 'image/jpeg';
+  return Object.keys(IMAGE_EXTENSIONS).find(mimeType => IMAGE_EXTENSIONS[mimeType] === extension);
+}
+
+export interface ImageSize {
+  width: number;
+  height: number;
+}
+
+// Reads pixel dimensions from PNG or JPEG headers without decoding the image.
+export function getImageSize(data: Uint8Array): ImageSize | null {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  if (data.length >= 24 && PNG_SIGNATURE.every((byte, i) => data[i] === byte)) {
+    return { width: view.getUint32(16), height: view.getUint32(20) };
+  }
+  if (data.length >= 4 && data[0] === 0xff && data[1] === 0xd8) {
+    let offset = 2;
+    while (offset + 9 < data.length) {
+      if (data[offset] !== 0xff) return null;
+      const marker = data[offset + 1];
+      const length = view.getUint16(offset + 2);
+      // SOF0-SOF15, excluding DHT (C4), JPG (C8) and DAC (CC)
+      if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+        return { width: view.getUint16(offset + 7), height: view.getUint16(offset + 5) };
+      }
+      offset += 2 + length;
+    }
+  }
+  return null;
+}
@@ -0,0 +1,99 @@
+// The bundled background loops, synthesised from a few sine tones. Every note that runs past
+// the end of a loop wraps round to its start, so the loops repeat without a click.
+
+type Envelope = (time: number, length: number) => number;
+
+const midiToHz = (note: number) => 440 * Math.pow(2, (note - 69) / 12);
+
+// I–vi–IV–V in C, root first, as MIDI notes
+const PROGRESSION = [
+  [48, 60, 64, 67],
+  [45, 57, 60, 64],
+  [41, 57, 60, 65],
+  [43, 55, 59, 62],
+];
+
+const swell: Envelope = (time, length) => Math.sin((Math.PI * time) / length);
+const pluck: Envelope = (time) => Math.min(1, time / 0.005) * Math.exp(-time * 6);
+const bell: Envelope = (time) => Math.min(1, time / 0.01) * Math.exp(-time * 1.5);
+
+function addTone(
+  out: Float32Array,
+  sampleRate: number,
+  start: number,
+  length: number,
+  frequency: number,
+  gain: number,
+  envelope: Envelope,
+) {
+  const first = Math.round(start * sampleRate);
+  const count = Math.round(length * sampleRate);
+  const step = (2 * Math.PI * frequency) / sampleRate;
+  for (let i = 0; i < count; i++) {
+    const time = i / sampleRate;
+    out[(first + i) % out.length] += gain * envelope(time, length) * Math.sin(step * i);
+  }
+}
+
+// Slow, overlapping chord swells with a slight chorus from detuned pairs.
+function renderPads(sampleRate: number): Float32Array {
+  const chordSeconds = 4;
+  const out = new Float32Array(chordSeconds * PROGRESSION.length * sampleRate);
+  PROGRESSION.forEach((chord, index) => {
+    for (const note of chord) {
+      for (const detune of [-0.08, 0.08]) {
+        addTone(out, sampleRate, index * chordSeconds, chordSeconds + 1.5, midiToHz(note + detune), 0.07, swell);
+      }
+    }
+  });
+  return out;
+}
+
+// An eighth-note arpeggio over a plucked bass at 100 bpm.
+function renderPulse(sampleRate: number): Float32Array {
+  const eighth = 0.3;
+  const pattern = [0, 1, 2, 3, 2, 1, 2, 3];
+  const out = new Float32Array(Math.round(eighth * pattern.length * PROGRESSION.length * sampleRate));
+  PROGRESSION.forEach((chord, index) => {
+    const barStart = index * eighth * pattern.length;
+    pattern.forEach((noteIndex, step) => {
+      const frequency = midiToHz(chord[noteIndex] + 12);
+      addTone(out, sampleRate, barStart + step * eighth, 0.8, frequency, 0.12, pluck);
+      addTone(out, sampleRate, barStart + step * eighth, 0.8, frequency * 2, 0.03, pluck);
+    });
+    for (let beat = 0; beat < pattern.length; beat += 2) {
+      addTone(out, sampleRate, barStart + beat * eighth, 0.6, midiToHz(chord[0] - 12), 0.2, pluck);
+    }
+  });
+  return out;
+}
+
+// A low open fifth that breathes slowly, with sparse pentatonic bells on top.
+function renderDrone(sampleRate: number): Float32Array {
+  const seconds = 20;
+  const out = new Float32Array(seconds * sampleRate);
+  // Whole cycles per loop keep the drone seamless
+  const loopFrequency = (note: number) => Math.round(midiToHz(note) * seconds) / seconds;
+  const breathe: Envelope = (time) => 0.75 + 0.25 * Math.sin((2 * Math.PI * time * 2) / seconds);
+  for (const note of [45, 52, 57]) {
+    addTone(out, sampleRate, 0, seconds, loopFrequency(note), 0.08, breathe);
+  }
+  const bells = [[0, 76], [3, 79], [5.5, 81], [9, 74], [12, 76], [14.5, 72], [17, 69]];
+  for (const [time, note] of bells) {
+    addTone(out, sampleRate, time, 4, midiToHz(note), 0.05, bell);
+  }
+  return out;
+}
+
+const LOOP_RENDERERS: Record<string, (sampleRate: number) => Float32Array> = {
+  calm: renderPads,
+  bright: renderPulse,
+  ambient: renderDrone,
+};
+
+// One cycle of a bundled loop as mono samples.
+export function renderMusicLoop(loopId: string, sampleRate: number): Float32Array {
+  const render = LOOP_RENDERERS[loopId];
+  if (!render) throw new Error(`Unknown music loop "${loopId}".`);
+  return render(sampleRate);
+}
@@ -0,0 +1,46 @@
+import { GeneratedSlide } from '../types';
+
+// A slide's questions are asked once its narration has finished.
+export interface QuizPoint {
+  slideIndex: number;
+  time: number;
+}
+
+// The choice made for each question, by slide index and then question index.
+export type QuizAnswers = Record<number, number[]>;
+
+export interface QuizScore {
+  correct: number;
+  answered: number;
+  total: number;
+}
+
+export function getQuizPoints(slides: GeneratedSlide[]): QuizPoint[] {
+  const points: QuizPoint[] = [];
+  let time = 0;
+  slides.forEach((slide, slideIndex) => {
+    time += slide.duration;
+    if (slide.quiz && slide.quiz.length > 0) points.push({ slideIndex, time });
+  });
+  return points;
+}
+
+export function isQuizAnswered(slides: GeneratedSlide[], slideIndex: number, answers: QuizAnswers): boolean {
+  const chosen = answers[slideIndex] ?? [];
+  return (slides[slideIndex].quiz ?? []).every((_question, index) => chosen[index] !== undefined);
+}
+
+// Only first answers count, so trying the other choices afterwards does not change the score.
+export function scoreQuiz(slides: GeneratedSlide[], answers: QuizAnswers): QuizScore {
+  const score: QuizScore = { correct: 0, answered: 0, total: 0 };
+  slides.forEach((slide, index) => {
+    (slide.quiz ?? []).forEach((question, questionIndex) => {
+      const choice = answers[index]?.[questionIndex];
+      score.total++;
+      if (choice === undefined) return;
+      score.answered++;
+      if (choice === question.answerIndex) score.correct++;
+    });
+  });
+  return score;
+}
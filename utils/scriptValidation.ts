@@ -0,0 +1,172 @@
+import { GenerationOptions, SourceDocument } from '../types';
+import { SCRIPT_LIMITS, SLIDE_LAYOUTS } from '../constants';
+import { getSpeakers, isDialogue, parseSpeakerTurns } from './speakers';
+
+// A generated script that could not be used. `issues` lists every problem found in the last
+// attempt; `output` is that attempt's raw output, when there was one.
+export class ScriptValidationError extends Error {
+  constructor(readonly issues: string[], readonly attempts = 1, readonly output?: string) {
+    super(
+      attempts > 1
+        ? `The generated script still had problems after ${attempts} attempts: ${summarizeIssues(issues)}`
+        : `The generated script has problems: ${summarizeIssues(issues)}`,
+    );
+    this.name = 'ScriptValidationError';
+  }
+}
+
+function summarizeIssues(issues: string[]): string {
+  const shown = issues.slice(0, 3).join(' ');
+  return issues.length > 3 ? `${shown} (and ${issues.length - 3} more)` : shown;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNonEmptyString = (value: unknown): value is string => typeof value === 'string' && value.trim() !== '';
+
+// Counts words the way the language writes them, so scripts in Chinese or Japanese, which do
+// not put spaces between words, are measured fairly.
+export function countWords(text: string): number {
+  let count = 0;
+  for (const segment of new Intl.Segmenter(undefined, { granularity: 'word' }).segment(text)) {
+    if (segment.isWordLike) count++;
+  }
+  return count;
+}
+
+// Sentence-ending punctuation, optionally followed by closing quotes or brackets. Narration
+// that ends any other way was most likely cut off.
+const COMPLETE_ENDING = /[.!?…。！？]["'”’»」』)\]]*\s*$/;
+
+// The last few words, to point at where narration stops.
+const tail = (text: string) => text.trim().split(/\s+/).slice(-5).join(' ');
+
+// Also checks quizzes in imported bundles, so every quiz the app shows has one correct answer.
+export function validateQuizQuestion(question: unknown, label: string): string[] {
+  if (!isRecord(question)) return [`${label} is not an object.`];
+  const issues: string[] = [];
+  if (!isNonEmptyString(question.question)) issues.push(`${label} has no question.`);
+  const { minQuizChoices, maxQuizChoices } = SCRIPT_LIMITS;
+  const choices = question.choices;
+  if (!Array.isArray(choices) || !choices.every(isNonEmptyString)) {
+    issues.push(`${label}'s choices must be a list of non-empty strings.`);
+  } else if (choices.length < minQuizChoices || choices.length > maxQuizChoices) {
+    issues.push(`${label} has ${choices.length} choices; give it ${minQuizChoices}-${maxQuizChoices}.`);
+  } else if (new Set(choices.map(choice => choice.trim().toLowerCase())).size < choices.length) {
+    issues.push(`${label} has the same choice twice.`);
+  } else if (!Number.isInteger(question.answerIndex) || (question.answerIndex as number) < 0 || (question.answerIndex as number) >= choices.length) {
+    issues.push(`${label}'s answerIndex must be the 0-based index of one of its ${choices.length} choices.`);
+  }
+  if (!isNonEmptyString(question.explanation)) issues.push(`${label} has no explanation.`);
+  return issues;
+}
+
+function validateSlide(slide: unknown, index: number, options: GenerationOptions, sourceNames: string[]): string[] {
+  const label = `Slide ${index + 1}`;
+  if (!isRecord(slide)) return [`${label} is not an object.`];
+  const issues: string[] = [];
+
+  if (!isNonEmptyString(slide.title)) {
+    issues.push(`${label} has no title.`);
+  } else if (slide.title.length > SCRIPT_LIMITS.maxTitleLength) {
+    issues.push(`${label}'s title is ${slide.title.length} characters long; keep it to ${SCRIPT_LIMITS.maxTitleLength}.`);
+  }
+
+  if (!isNonEmptyString(slide.narration)) {
+    issues.push(`${label} has no narration.`);
+  } else {
+    const dialogue = isDialogue(options);
+    const spoken = dialogue
+      ? parseSpeakerTurns(slide.narration, getSpeakers(options)).map(turn => turn.text).join(' ')
+      : slide.narration;
+    const words = countWords(spoken);
+    const { minWordsPerSlide, maxWordsPerSlide } = options;
+    const tolerance = SCRIPT_LIMITS.wordCountTolerance;
+    if (words < Math.floor(minWordsPerSlide * (1 - tolerance)) || words > Math.ceil(maxWordsPerSlide * (1 + tolerance))) {
+      issues.push(`${label}'s narration has ${words} words; it should have ${minWordsPerSlide}-${maxWordsPerSlide}.`);
+    }
+    if (!COMPLETE_ENDING.test(slide.narration)) {
+      issues.push(`${label}'s narration stops mid-sentence, after "${tail(slide.narration)}".`);
+    }
+    if (dialogue) {
+      const names = getSpeakers(options).map(speaker => speaker.name);
+      const firstLine = slide.narration.trim().split('\n')[0];
+      if (!names.some(name => firstLine.toLowerCase().startsWith(`${name.toLowerCase()}:`))) {
+        issues.push(`${label}'s narration must start with a speaker's name and a colon, e.g. "${names[0]}: ...".`);
+      }
+    }
+  }
+
+  if (!isNonEmptyString(slide.imagePrompt)) {
+    issues.push(`${label} has no imagePrompt.`);
+  }
+
+  if (slide.bullets !== undefined) {
+    if (!Array.isArray(slide.bullets) || !slide.bullets.every(isNonEmptyString)) {
+      issues.push(`${label}'s bullets must be a list of non-empty strings.`);
+    } else if (slide.bullets.length > SCRIPT_LIMITS.maxBullets) {
+      issues.push(`${label} has ${slide.bullets.length} bullets; use at most ${SCRIPT_LIMITS.maxBullets}.`);
+    } else if (slide.bullets.some(bullet => bullet.length > SCRIPT_LIMITS.maxBulletLength)) {
+      issues.push(`${label} has a bullet longer than ${SCRIPT_LIMITS.maxBulletLength} characters.`);
+    }
+  }
+
+  if (slide.layout !== undefined && !(typeof slide.layout === 'string' && Object.hasOwn(SLIDE_LAYOUTS, slide.layout))) {
+    issues.push(`${label}'s layout must be one of ${Object.keys(SLIDE_LAYOUTS).join(', ')}.`);
+  }
+
+  if (slide.chapter !== undefined) {
+    if (!isNonEmptyString(slide.chapter)) {
+      issues.push(`${label}'s chapter title is empty.`);
+    } else if (slide.chapter.length > SCRIPT_LIMITS.maxTitleLength) {
+      issues.push(`${label}'s chapter title is ${slide.chapter.length} characters long; keep it to ${SCRIPT_LIMITS.maxTitleLength}.`);
+    }
+  } else if (index === 0 && options.chapters) {
+    issues.push(`${label} must start a chapter.`);
+  }
+
+  if (slide.quiz !== undefined) {
+    if (!Array.isArray(slide.quiz)) {
+      issues.push(`${label}'s quiz must be a list of questions.`);
+    } else {
+      slide.quiz.forEach((question, questionIndex) => issues.push(...validateQuizQuestion(question, `${label}'s quiz question ${questionIndex + 1}`)));
+    }
+  }
+
+  if (sourceNames.length > 0) {
+    const citations = slide.citations;
+    if (!Array.isArray(citations) || citations.length === 0) {
+      issues.push(`${label} has no citations.`);
+    } else if (!citations.every(citation => isRecord(citation) && isNonEmptyString(citation.quote) && isNonEmptyString(citation.source))) {
+      issues.push(`${label}'s citations must each have a source and a quote.`);
+    } else {
+      const unknown = citations.map(citation => citation.source as string).filter(source => !sourceNames.includes(source));
+      if (unknown.length > 0) {
+        issues.push(`${label} cites "${unknown[0]}", which is not one of the sources (${sourceNames.map(name => `"${name}"`).join(', ')}).`);
+      }
+    }
+  }
+  return issues;
+}
+
+// Checks a provider's script against the shape the app relies on and the content limits the
+// prompt asks for. Returns the problems found, each a sentence that can be shown to the user
+// or sent back to the model; an empty list means the script can be used.
+export function validateScript(value: unknown, options: GenerationOptions, sources: SourceDocument[] = []): string[] {
+  if (!Array.isArray(value)) return ['The script has no list of slides.'];
+  const issues: string[] = [];
+  if (value.length !== options.slideCount) {
+    issues.push(`The script has ${value.length} slides instead of ${options.slideCount}.`);
+  }
+  const sourceNames = sources.map(source => source.name);
+  value.forEach((slide, index) => issues.push(...validateSlide(slide, index, options, sourceNames)));
+  const quizQuestions = options.quizQuestions ?? 0;
+  if (quizQuestions > 0) {
+    const asked = value.reduce((sum: number, slide) => sum + (isRecord(slide) && Array.isArray(slide.quiz) ? slide.quiz.length : 0), 0);
+    if (asked !== quizQuestions) {
+      issues.push(`The script has ${asked} quiz questions instead of ${quizQuestions}.`);
+    }
+  }
+  return issues;
+}
@@ -0,0 +1,64 @@
+import { MotionRect, SlideBackground } from '../types';
+import { toDataUrl } from './imageUtils';
+
+export const MAX_IMAGE_UPLOAD_BYTES = 25 * 1024 * 1024;
+
+export const IMAGE_FILE_ACCEPT = 'image/png,image/jpeg,image/webp,image/gif';
+
+// Uploads are scaled down to this on their longer side; it is enough for 1080p video.
+const MAX_IMAGE_DIMENSION = 2560;
+
+// Decodes an uploaded image and re-encodes it as PNG, or JPEG for photos, so every export can
+// embed it. Large images are scaled down to keep saved projects small.
+export async function readImageFile(file: File): Promise<string> {
+  if (file.size > MAX_IMAGE_UPLOAD_BYTES) {
+    throw new Error(`"${file.name}" is too large. Images can be at most ${MAX_IMAGE_UPLOAD_BYTES / (1024 * 1024)} MB.`);
+  }
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await createImageBitmap(file);
+  } catch {
+    throw new Error(`"${file.name}" is not an image this browser can read. Use PNG, JPEG, WebP or GIF files.`);
+  }
+  try {
+    const scale = Math.min(1, MAX_IMAGE_DIMENSION / Math.max(bitmap.width, bitmap.height));
+    const canvas = new OffscreenCanvas(Math.round(bitmap.width * scale), Math.round(bitmap.height * scale));
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Could not get canvas context');
+    ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    const type = file.type === 'image/jpeg' ? 'image/jpeg' : 'image/png';
+    const blob = await canvas.convertToBlob({ type, quality: 0.9 });
+    return toDataUrl(type, new Uint8Array(await blob.arrayBuffer()));
+  } finally {
+    bitmap.close();
+  }
+}
+
+export function toCssBackground(background: SlideBackground): string {
+  return background.type === 'solid'
+    ? background.color
+    : `linear-gradient(${background.angle}deg, ${background.from}, ${background.to})`;
+}
+
+// The crop controls are a zoom level plus a focus point; 0.5, 0.5 keeps the crop centred.
+export interface CropFocus {
+  zoom: number;
+  focusX: number;
+  focusY: number;
+}
+
+export function cropFromFocus({ zoom, focusX, focusY }: CropFocus): MotionRect {
+  const size = 1 / zoom;
+  return { x: (1 - size) * focusX, y: (1 - size) * focusY, width: size, height: size };
+}
+
+export function focusFromCrop(crop: MotionRect | undefined): CropFocus {
+  if (!crop) return { zoom: 1, focusX: 0.5, focusY: 0.5 };
+  const freeX = 1 - crop.width;
+  const freeY = 1 - crop.height;
+  return {
+    zoom: 1 / crop.width,
+    focusX: freeX > 0 ? crop.x / freeX : 0.5,
+    focusY: freeY > 0 ? crop.y / freeY : 0.5,
+  };
+}
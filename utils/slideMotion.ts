@@ -0,0 +1,135 @@
+import { GeneratedSlide, MotionRect, SlideMotion, SlideTransition, TransitionType } from '../types';
+
+// The single source of truth for what is on screen at a given time. The viewer and the
+// video renderer both draw exactly the layers returned here, so previews match exports.
+
+export const DEFAULT_TRANSITION: SlideTransition = { type: 'fade', duration: 0.7 };
+
+export const TRANSITION_LABELS: Record<TransitionType, string> = {
+  none: 'Cut',
+  fade: 'Fade',
+  slide: 'Slide',
+  zoom: 'Zoom',
+};
+
+export const FULL_FRAME: MotionRect = { x: 0, y: 0, width: 1, height: 1 };
+
+export const KEN_BURNS_PRESETS: Record<string, { label: string; motion: SlideMotion | undefined }> = {
+  none: { label: 'None', motion: undefined },
+  zoomIn: { label: 'Zoom in', motion: { start: FULL_FRAME, end: { x: 0.1, y: 0.1, width: 0.8, height: 0.8 } } },
+  zoomOut: { label: 'Zoom out', motion: { start: { x: 0.1, y: 0.1, width: 0.8, height: 0.8 }, end: FULL_FRAME } },
+  panLeft: { label: 'Pan left', motion: { start: { x: 0.15, y: 0.075, width: 0.85, height: 0.85 }, end: { x: 0, y: 0.075, width: 0.85, height: 0.85 } } },
+  panRight: { label: 'Pan right', motion: { start: { x: 0, y: 0.075, width: 0.85, height: 0.85 }, end: { x: 0.15, y: 0.075, width: 0.85, height: 0.85 } } },
+};
+
+// The preset key for a slide's motion, or null when it was set to something else.
+export function findKenBurnsPreset(motion: SlideMotion | undefined): string | null {
+  const serialized = JSON.stringify(motion);
+  return Object.keys(KEN_BURNS_PRESETS).find(key => JSON.stringify(KEN_BURNS_PRESETS[key].motion) === serialized) ?? null;
+}
+
+export interface SlideLayer {
+  slideIndex: number;
+  opacity: number;
+  // Horizontal offset as a fraction of the frame width.
+  offsetX: number;
+  // Uniform scale around the frame centre.
+  scale: number;
+  // Region of the cover-fitted image stretched to fill the frame.
+  crop: MotionRect;
+}
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+const easeInOutCubic = (t: number) => (t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2);
+
+const lerp = (from: number, to: number, t: number) => from + (to - from) * t;
+
+export function getSlideStarts(slides: GeneratedSlide[]): number[] {
+  let start = 0;
+  return slides.map(slide => {
+    const slideStart = start;
+    start += slide.duration;
+    return slideStart;
+  });
+}
+
+export function getSlideIndexAt(slides: GeneratedSlide[], time: number): number {
+  const starts = getSlideStarts(slides);
+  let index = 0;
+  while (index < slides.length - 1 && time >= starts[index + 1]) {
+    index++;
+  }
+  return index;
+}
+
+export function getTransition(slide: GeneratedSlide): SlideTransition {
+  return slide.transition ?? DEFAULT_TRANSITION;
+}
+
+function interpolateRect(from: MotionRect, to: MotionRect, t: number): MotionRect {
+  return {
+    x: lerp(from.x, to.x, t),
+    y: lerp(from.y, to.y, t),
+    width: lerp(from.width, to.width, t),
+    height: lerp(from.height, to.height, t),
+  };
+}
+
+// The Ken Burns move spans the slide's own narration plus the next slide's transition,
+// so the image keeps moving while it is being transitioned away from.
+function getCrop(slides: GeneratedSlide[], starts: number[], index: number, time: number): MotionRect {
+  const motion = slides[index].motion;
+  if (!motion) return FULL_FRAME;
+  const next = slides[index + 1];
+  const span = slides[index].duration + (next ? getTransition(next).duration : 0);
+  const progress = span > 0 ? clamp01((time - starts[index]) / span) : 1;
+  return interpolateRect(motion.start, motion.end, progress);
+}
+
+// Layers are ordered bottom to top.
+export function getFrameLayers(slides: GeneratedSlide[], time: number): SlideLayer[] {
+  if (slides.length === 0) return [];
+  const starts = getSlideStarts(slides);
+  const index = getSlideIndexAt(slides, time);
+  const layer = (slideIndex: number): SlideLayer => ({
+    slideIndex,
+    opacity: 1,
+    offsetX: 0,
+    scale: 1,
+    crop: getCrop(slides, starts, slideIndex, time),
+  });
+
+  const current = layer(index);
+  const transition = getTransition(slides[index]);
+  const elapsed = time - starts[index];
+  if (index === 0 || transition.type === 'none' || transition.duration <= 0 || elapsed >= transition.duration) {
+    return [current];
+  }
+
+  const progress = easeInOutCubic(clamp01(elapsed / transition.duration));
+  const previous = layer(index - 1);
+  switch (transition.type) {
+    case 'fade':
+      current.opacity = progress;
+      break;
+    case 'slide':
+      previous.offsetX = -progress;
+      current.offsetX = 1 - progress;
+      break;
+    case 'zoom':
+      current.opacity = progress;
+      current.scale = lerp(1.25, 1, progress);
+      break;
+  }
+  return [previous, current];
+}
+
+// True while anything on screen is changing, i.e. a frame differs from the one before it.
+export function isAnimating(slides: GeneratedSlide[], time: number): boolean {
+  const index = getSlideIndexAt(slides, time);
+  const starts = getSlideStarts(slides);
+  const transition = getTransition(slides[index]);
+  const inTransition = index > 0 && transition.type !== 'none' && time - starts[index] < transition.duration;
+  return inTransition || !!slides[index].motion;
+}
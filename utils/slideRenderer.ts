@@ -0,0 +1,378 @@
+import { GeneratedSlide, ImageFit, MotionRect, SlideBackground, Theme } from '../types';
+import { FULL_FRAME, SlideLayer } from './slideMotion';
+
+// Canvas drawing shared by every renderer that turns slides into pixels. The viewer and the
+// video exporter both draw through drawSlideFrame, so a theme looks the same in each.
+
+export type RenderContext = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+export type SlideImage = ImageBitmap | HTMLImageElement;
+
+export interface Box {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Everything needed to draw any moment of a presentation.
+export interface SlideScene {
+  slides: GeneratedSlide[];
+  images: (SlideImage | null)[];
+  theme: Theme;
+  logo: SlideImage | null;
+}
+
+// Draws the `source` part of the image (the user's crop) into the box like CSS object-fit.
+// The crop then selects part of that fitted result, which is how Ken Burns motion pans and zooms.
+export function drawImageFitted(
+  ctx: RenderContext,
+  image: SlideImage,
+  box: Box,
+  crop: MotionRect = FULL_FRAME,
+  source: MotionRect = FULL_FRAME,
+  fit: ImageFit = 'cover',
+): void {
+  const sourceX = source.x * image.width;
+  const sourceY = source.y * image.height;
+  const sourceWidth = source.width * image.width;
+  const sourceHeight = source.height * image.height;
+  if (fit === 'cover') {
+    const boxAspect = box.width / box.height;
+    let visibleWidth = sourceWidth;
+    let visibleHeight = sourceHeight;
+    if (sourceWidth / sourceHeight > boxAspect) {
+      visibleWidth = sourceHeight * boxAspect;
+    } else {
+      visibleHeight = sourceWidth / boxAspect;
+    }
+    const sx = sourceX + (sourceWidth - visibleWidth) / 2 + crop.x * visibleWidth;
+    const sy = sourceY + (sourceHeight - visibleHeight) / 2 + crop.y * visibleHeight;
+    ctx.drawImage(image, sx, sy, visibleWidth * crop.width, visibleHeight * crop.height, box.x, box.y, box.width, box.height);
+    return;
+  }
+
+  // Contained images are fitted whole, then the box as a whole is zoomed to the crop
+  const scale = Math.min(box.width / sourceWidth, box.height / sourceHeight);
+  const zoomX = 1 / crop.width;
+  const zoomY = 1 / crop.height;
+  const dx = box.x + ((box.width - sourceWidth * scale) / 2 - crop.x * box.width) * zoomX;
+  const dy = box.y + ((box.height - sourceHeight * scale) / 2 - crop.y * box.height) * zoomY;
+  ctx.save();
+  ctx.beginPath();
+  ctx.rect(box.x, box.y, box.width, box.height);
+  ctx.clip();
+  ctx.drawImage(image, sourceX, sourceY, sourceWidth, sourceHeight, dx, dy, sourceWidth * scale * zoomX, sourceHeight * scale * zoomY);
+  ctx.restore();
+}
+
+// Fills the box with a solid colour or a gradient laid out like CSS linear-gradient.
+export function drawBackground(ctx: RenderContext, background: SlideBackground, box: Box): void {
+  if (background.type === 'solid') {
+    ctx.fillStyle = background.color;
+  } else {
+    const angle = (background.angle * Math.PI) / 180;
+    const dx = Math.sin(angle);
+    const dy = -Math.cos(angle);
+    const halfLength = (Math.abs(box.width * dx) + Math.abs(box.height * dy)) / 2;
+    const cx = box.x + box.width / 2;
+    const cy = box.y + box.height / 2;
+    const gradient = ctx.createLinearGradient(cx - dx * halfLength, cy - dy * halfLength, cx + dx * halfLength, cy + dy * halfLength);
+    gradient.addColorStop(0, background.from);
+    gradient.addColorStop(1, background.to);
+    ctx.fillStyle = gradient;
+  }
+  ctx.fillRect(box.x, box.y, box.width, box.height);
+}
+
+// Every layout starts from the slide's own background, else the theme's.
+function fillSlideBackground(ctx: RenderContext, slide: GeneratedSlide, theme: Theme, width: number, height: number): void {
+  drawBackground(ctx, slide.background ?? { type: 'solid', color: theme.backgroundColor }, { x: 0, y: 0, width, height });
+}
+
+const font = (weight: number | string, size: number, family: string) => `${weight} ${Math.round(size)}px ${family}`;
+
+// Greedy word wrap using the context's current font. Text beyond maxLines is cut with an ellipsis.
+function wrapLines(ctx: RenderContext, text: string, maxWidth: number, maxLines: number): string[] {
+  const lines: string[] = [];
+  let line = '';
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (line && ctx.measureText(candidate).width > maxWidth) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = candidate;
+    }
+  }
+  if (line) lines.push(line);
+  if (lines.length > maxLines) {
+    const kept = lines.slice(0, maxLines);
+    kept[maxLines - 1] = `${kept[maxLines - 1].replace(/\s+\S*$/, '')}…`;
+    return kept;
+  }
+  return lines;
+}
+
+// Draws wrapped lines downwards from y and returns the y below the last line.
+function drawLines(ctx: RenderContext, lines: string[], x: number, y: number, lineHeight: number): number {
+  ctx.textBaseline = 'top';
+  lines.forEach((line, index) => ctx.fillText(line, x, y + index * lineHeight));
+  return y + lines.length * lineHeight;
+}
+
+function drawBullets(ctx: RenderContext, bullets: string[], box: Box, size: number, theme: Theme, color: string): number {
+  let y = box.y;
+  const indent = size * 1.2;
+  for (const bullet of bullets) {
+    if (y + size > box.y + box.height) break;
+    ctx.fillStyle = theme.accentColor;
+    ctx.beginPath();
+    ctx.arc(box.x + size * 0.35, y + size * 0.6, size * 0.18, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.font = font(400, size, theme.bodyFont);
+    ctx.fillStyle = color;
+    const lines = wrapLines(ctx, bullet, box.width - indent, 3);
+    y = drawLines(ctx, lines, box.x + indent, y, size * 1.3) + size * 0.5;
+  }
+  return y;
+}
+
+// Slides without an image show their background through the box, or a tint of the accent colour.
+function drawImageOrFill(ctx: RenderContext, slide: GeneratedSlide, image: SlideImage | null, box: Box, crop: MotionRect, theme: Theme): void {
+  if (image) {
+    ctx.save();
+    ctx.beginPath();
+    ctx.rect(box.x, box.y, box.width, box.height);
+    ctx.clip();
+    drawImageFitted(ctx, image, box, crop, slide.imageCrop, slide.imageFit);
+    ctx.restore();
+  } else if (!slide.background) {
+    ctx.save();
+    ctx.fillStyle = theme.accentColor;
+    ctx.globalAlpha *= 0.25;
+    ctx.fillRect(box.x, box.y, box.width, box.height);
+    ctx.restore();
+  }
+}
+
+// Text on full-bleed slides sits above the bottom band that captions use.
+function drawFullBleed(ctx: RenderContext, slide: GeneratedSlide, image: SlideImage | null, crop: MotionRect, theme: Theme, width: number, height: number): void {
+  const unit = Math.min(width, height);
+  const pad = unit * 0.06;
+  fillSlideBackground(ctx, slide, theme, width, height);
+  drawImageOrFill(ctx, slide, image, { x: 0, y: 0, width, height }, crop, theme);
+
+  const gradient = ctx.createLinearGradient(0, 0, 0, height);
+  gradient.addColorStop(0, 'rgba(0, 0, 0, 0)');
+  gradient.addColorStop(0.5, 'rgba(0, 0, 0, 0.2)');
+  gradient.addColorStop(1, 'rgba(0, 0, 0, 0.7)');
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, width, height);
+
+  const titleSize = unit * 0.06;
+  const bulletSize = unit * 0.035;
+  const maxWidth = width - pad * 2;
+  ctx.font = font(700, titleSize, theme.titleFont);
+  const titleLines = wrapLines(ctx, slide.title, maxWidth, 2);
+  const bullets = slide.bullets ?? [];
+  const blockHeight = titleLines.length * titleSize * 1.2 + bullets.length * bulletSize * 1.8;
+  const top = height * 0.8 - blockHeight;
+
+  ctx.save();
+  ctx.shadowColor = 'rgba(0, 0, 0, 0.6)';
+  ctx.shadowBlur = titleSize * 0.3;
+  ctx.fillStyle = '#ffffff';
+  const y = drawLines(ctx, titleLines, pad, top, titleSize * 1.2);
+  ctx.restore();
+  drawBullets(ctx, bullets, { x: pad, y: y + bulletSize * 0.5, width: maxWidth, height: height - y }, bulletSize, theme, '#ffffff');
+}
+
+function drawTitleOnly(ctx: RenderContext, slide: GeneratedSlide, theme: Theme, width: number, height: number): void {
+  const unit = Math.min(width, height);
+  const titleSize = unit * 0.09;
+  fillSlideBackground(ctx, slide, theme, width, height);
+
+  ctx.font = font(700, titleSize, theme.titleFont);
+  const lines = wrapLines(ctx, slide.title, width * 0.8, 3);
+  const blockHeight = lines.length * titleSize * 1.15;
+  const top = (height - blockHeight) / 2;
+  ctx.fillStyle = theme.accentColor;
+  ctx.fillRect((width - unit * 0.12) / 2, top - unit * 0.06, unit * 0.12, unit * 0.012);
+  ctx.fillStyle = theme.textColor;
+  ctx.textAlign = 'center';
+  drawLines(ctx, lines, width / 2, top, titleSize * 1.15);
+  ctx.textAlign = 'left';
+}
+
+// Image beside the text on landscape frames, above it on portrait ones.
+function drawImageLeft(ctx: RenderContext, slide: GeneratedSlide, image: SlideImage | null, crop: MotionRect, theme: Theme, width: number, height: number): void {
+  const unit = Math.min(width, height);
+  const pad = unit * 0.07;
+  const portrait = height > width;
+  fillSlideBackground(ctx, slide, theme, width, height);
+
+  const imageBox: Box = portrait ? { x: 0, y: 0, width, height: height * 0.42 } : { x: 0, y: 0, width: width * 0.48, height };
+  const textBox: Box = portrait
+    ? { x: pad, y: imageBox.height + pad, width: width - pad * 2, height: height - imageBox.height - pad * 2 }
+    : { x: imageBox.width + pad, y: pad * 1.5, width: width - imageBox.width - pad * 2, height: height - pad * 3 };
+  drawImageOrFill(ctx, slide, image, imageBox, crop, theme);
+
+  const titleSize = unit * 0.065;
+  ctx.fillStyle = theme.accentColor;
+  ctx.fillRect(textBox.x, textBox.y, unit * 0.08, unit * 0.01);
+  ctx.font = font(700, titleSize, theme.titleFont);
+  ctx.fillStyle = theme.textColor;
+  const titleLines = wrapLines(ctx, slide.title, textBox.width, 3);
+  const y = drawLines(ctx, titleLines, textBox.x, textBox.y + unit * 0.04, titleSize * 1.15);
+  const bulletTop = y + unit * 0.04;
+  drawBullets(ctx, slide.bullets ?? [], { ...textBox, y: bulletTop, height: textBox.y + textBox.height - bulletTop }, unit * 0.04, theme, theme.textColor);
+}
+
+// The quote is the first bullet, else the first cited passage, with the image as a faint backdrop.
+function drawQuote(ctx: RenderContext, slide: GeneratedSlide, image: SlideImage | null, crop: MotionRect, theme: Theme, width: number, height: number): void {
+  const unit = Math.min(width, height);
+  fillSlideBackground(ctx, slide, theme, width, height);
+  if (image) {
+    ctx.save();
+    ctx.globalAlpha *= 0.18;
+    drawImageFitted(ctx, image, { x: 0, y: 0, width, height }, crop, slide.imageCrop, slide.imageFit);
+    ctx.restore();
+  }
+
+  const citation = slide.citations?.[0];
+  const quote = slide.bullets?.[0] ?? citation?.quote ?? slide.title;
+  const attribution = slide.bullets?.[0] ? slide.title : citation ? citation.source : '';
+  const quoteSize = unit * 0.065;
+
+  ctx.font = font('italic 400', quoteSize, theme.titleFont);
+  const lines = wrapLines(ctx, quote, width * 0.76, 5);
+  const blockHeight = lines.length * quoteSize * 1.3;
+  const top = (height - blockHeight) / 2 - unit * 0.04;
+
+  ctx.textAlign = 'center';
+  ctx.fillStyle = theme.accentColor;
+  ctx.font = font(700, unit * 0.2, theme.titleFont);
+  ctx.textBaseline = 'top';
+  ctx.fillText('“', width / 2, top - unit * 0.2);
+  ctx.font = font('italic 400', quoteSize, theme.titleFont);
+  ctx.fillStyle = theme.textColor;
+  const y = drawLines(ctx, lines, width / 2, top, quoteSize * 1.3);
+  if (attribution) {
+    ctx.font = font(600, unit * 0.035, theme.bodyFont);
+    ctx.fillStyle = theme.accentColor;
+    drawLines(ctx, wrapLines(ctx, `— ${attribution}`, width * 0.7, 1), width / 2, y + unit * 0.04, unit * 0.045);
+  }
+  ctx.textAlign = 'left';
+}
+
+export function drawSlide(
+  ctx: RenderContext,
+  slide: GeneratedSlide,
+  image: SlideImage | null,
+  theme: Theme,
+  crop: MotionRect,
+  width: number,
+  height: number,
+): void {
+  switch (slide.layout ?? theme.defaultLayout) {
+    case 'titleOnly':
+      return drawTitleOnly(ctx, slide, theme, width, height);
+    case 'imageLeft':
+      return drawImageLeft(ctx, slide, image, crop, theme, width, height);
+    case 'quote':
+      return drawQuote(ctx, slide, image, crop, theme, width, height);
+    default:
+      return drawFullBleed(ctx, slide, image, crop, theme, width, height);
+  }
+}
+
+function drawLogo(ctx: RenderContext, logo: SlideImage, width: number, height: number): void {
+  const unit = Math.min(width, height);
+  const logoHeight = unit * 0.08;
+  const logoWidth = Math.min(width * 0.25, (logo.width / logo.height) * logoHeight);
+  const margin = unit * 0.04;
+  ctx.save();
+  ctx.globalAlpha = 0.85;
+  ctx.drawImage(logo, width - logoWidth - margin, margin, logoWidth, logoWidth * (logo.height / logo.width));
+  ctx.restore();
+}
+
+let scratch: OffscreenCanvas | null = null;
+
+// A slide is made of several overlapping shapes, so fading it shape by shape would let its own
+// background show through its image. Translucent slides are drawn opaquely here first instead.
+function getScratchContext(width: number, height: number): OffscreenCanvasRenderingContext2D {
+  if (!scratch || scratch.width !== width || scratch.height !== height) {
+    scratch = new OffscreenCanvas(width, height);
+  }
+  const ctx = scratch.getContext('2d');
+  if (!ctx) throw new Error('Could not get canvas context');
+  return ctx;
+}
+
+// Draws one moment of the presentation from the layers computed by getFrameLayers. The logo
+// stays put on top while slides transition beneath it.
+export function drawSlideFrame(ctx: RenderContext, layers: SlideLayer[], scene: SlideScene, width: number, height: number): void {
+  ctx.fillStyle = scene.theme.backgroundColor;
+  ctx.fillRect(0, 0, width, height);
+  for (const layer of layers) {
+    if (layer.opacity <= 0) continue;
+    const slide = scene.slides[layer.slideIndex];
+    const image = scene.images[layer.slideIndex] ?? null;
+    ctx.save();
+    ctx.translate(layer.offsetX * width + width / 2, height / 2);
+    ctx.scale(layer.scale, layer.scale);
+    ctx.translate(-width / 2, -height / 2);
+    if (layer.opacity < 1) {
+      const scratchCtx = getScratchContext(width, height);
+      drawSlide(scratchCtx, slide, image, scene.theme, layer.crop, width, height);
+      ctx.globalAlpha = layer.opacity;
+      ctx.drawImage(scratchCtx.canvas, 0, 0);
+    } else {
+      ctx.beginPath();
+      ctx.rect(0, 0, width, height);
+      ctx.clip();
+      drawSlide(ctx, slide, image, scene.theme, layer.crop, width, height);
+    }
+    ctx.restore();
+  }
+  if (scene.logo) {
+    drawLogo(ctx, scene.logo, width, height);
+  }
+}
+
+export async function loadSlideImage(url: string): Promise<ImageBitmap> {
+  const blob = await (await fetch(url)).blob();
+  return createImageBitmap(blob);
+}
+
+// Burned-in caption: centred near the bottom on a translucent box, one canvas line per cue line.
+export function drawCaption(ctx: RenderContext, text: string, width: number, height: number): void {
+  const lines = text.split('\n');
+  const fontSize = Math.round(Math.min(width, height) * 0.045);
+  const lineHeight = fontSize * 1.3;
+  const paddingX = fontSize * 0.6;
+  const paddingY = fontSize * 0.3;
+
+  ctx.save();
+  ctx.font = `600 ${fontSize}px system-ui, -apple-system, "Segoe UI", Roboto, sans-serif`;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+
+  const boxWidth = Math.min(width * 0.94, Math.max(...lines.map(line => ctx.measureText(line).width)) + paddingX * 2);
+  const boxHeight = lines.length * lineHeight + paddingY * 2;
+  const boxX = (width - boxWidth) / 2;
+  const boxY = height - height * 0.06 - boxHeight;
+
+  ctx.fillStyle = 'rgba(0, 0, 0, 0.7)';
+  ctx.beginPath();
+  ctx.roundRect(boxX, boxY, boxWidth, boxHeight, fontSize * 0.25);
+  ctx.fill();
+
+  ctx.fillStyle = 'white';
+  lines.forEach((line, index) => {
+    ctx.fillText(line, width / 2, boxY + paddingY + lineHeight * (index + 0.5), width * 0.9);
+  });
+  ctx.restore();
+}
@@ -0,0 +1,54 @@
+import { Citation, SourceDocument } from '../types';
+import { encode } from './audioUtils';
+
+// Inline request data is capped at 20 MB by the Gemini API, base64 overhead included.
+export const MAX_SOURCE_BYTES = 14 * 1024 * 1024;
+
+export const SOURCE_FILE_ACCEPT = '.txt,.md,.markdown,.pdf,text/plain,text/markdown,application/pdf';
+
+const isPdf = (file: File) => file.type === 'application/pdf' || /\.pdf$/i.test(file.name);
+
+const isText = (file: File) => file.type.startsWith('text/') || /\.(txt|md|markdown)$/i.test(file.name);
+
+export async function readSourceFile(file: File): Promise<SourceDocument> {
+  if (file.size > MAX_SOURCE_BYTES) {
+    throw new Error(`"${file.name}" is too large. Source files can be at most ${MAX_SOURCE_BYTES / (1024 * 1024)} MB.`);
+  }
+  if (isPdf(file)) {
+    return {
+      id: crypto.randomUUID(),
+      name: file.name,
+      mimeType: 'application/pdf',
+      data: encode(new Uint8Array(await file.arrayBuffer())),
+      size: file.size,
+    };
+  }
+  if (isText(file)) {
+    return {
+      id: crypto.randomUUID(),
+      name: file.name,
+      mimeType: /\.(md|markdown)$/i.test(file.name) ? 'text/markdown' : 'text/plain',
+      text: await file.text(),
+      size: file.size,
+    };
+  }
+  throw new Error(`"${file.name}" is not a supported source. Use text, Markdown or PDF files.`);
+}
+
+export function createNoteSource(text: string, index: number): SourceDocument {
+  return {
+    id: crypto.randomUUID(),
+    name: `Notes ${index}`,
+    mimeType: 'text/plain',
+    text,
+    size: new TextEncoder().encode(text).length,
+  };
+}
+
+export function getTotalSourceSize(sources: SourceDocument[]): number {
+  return sources.reduce((sum, source) => sum + source.size, 0);
+}
+
+export function formatCitation(citation: Citation): string {
+  return `${citation.source}: “${citation.quote}”`;
+}
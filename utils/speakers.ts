@@ -0,0 +1,47 @@
+import { GenerationOptions, Speaker } from '../types';
+
+// The speaker name a single-voice deck's narrator is keyed by in per-slide voice choices.
+export const NARRATOR = 'Narrator';
+
+export interface SpeakerTurn {
+  speaker: string;
+  text: string;
+}
+
+export function isDialogue(options: GenerationOptions): boolean {
+  return (options.speakers?.length ?? 0) >= 2;
+}
+
+// Everyone who reads the deck: its two dialogue speakers, or the one narrator.
+export function getSpeakers(options: GenerationOptions): Speaker[] {
+  return isDialogue(options) ? options.speakers! : [{ name: NARRATOR, voiceName: options.voiceName }];
+}
+
+// The deck's options with a slide's own voices swapped in, for generating that slide's speech.
+export function withSlideVoices(options: GenerationOptions, voices?: Record<string, string>): GenerationOptions {
+  if (!voices) return options;
+  if (isDialogue(options)) {
+    return { ...options, speakers: options.speakers!.map(speaker => ({ ...speaker, voiceName: voices[speaker.name] ?? speaker.voiceName })) };
+  }
+  return { ...options, voiceName: voices[NARRATOR] ?? options.voiceName };
+}
+
+// Splits "Name: line" narration into turns. Lines without a known speaker continue the
+// previous turn, and text before the first label goes to the first speaker.
+export function parseSpeakerTurns(narration: string, speakers: Speaker[]): SpeakerTurn[] {
+  const turns: SpeakerTurn[] = [];
+  for (const line of narration.split('\n')) {
+    const match = /^\s*([^:]{1,40}):\s*(.*)$/.exec(line);
+    const speaker = match && speakers.find(candidate => candidate.name.toLowerCase() === match[1].trim().toLowerCase());
+    const text = (speaker ? match[2] : line).trim();
+    const previous = turns[turns.length - 1];
+    if (speaker) {
+      turns.push({ speaker: speaker.name, text });
+    } else if (previous) {
+      if (text) previous.text = previous.text ? `${previous.text} ${text}` : text;
+    } else if (text) {
+      turns.push({ speaker: speakers[0].name, text });
+    }
+  }
+  return turns.filter(turn => turn.text);
+}
@@ -0,0 +1,123 @@
+import { PriceTable, UsageKind, UsageRecord } from '../types';
+
+export const USAGE_KINDS: UsageKind[] = ['script', 'image', 'speech'];
+
+export interface UsageTotals {
+  calls: number;
+  cachedCalls: number;
+  failedCalls: number;
+  repairCalls: number;
+  inputTokens: number;
+  outputTokens: number;
+  images: number;
+  audioSeconds: number;
+  // Summed over calls, so with calls in parallel this exceeds the run's elapsed time.
+  latencyMs: number;
+  slowestMs: number;
+  // Estimated from the price table; calls to models without a price count as free.
+  cost: number;
+  unpricedModels: string[];
+}
+
+export interface UsageSummary {
+  byKind: Record<UsageKind, UsageTotals>;
+  total: UsageTotals;
+  currency: string;
+}
+
+const emptyTotals = (): UsageTotals => ({
+  calls: 0,
+  cachedCalls: 0,
+  failedCalls: 0,
+  repairCalls: 0,
+  inputTokens: 0,
+  outputTokens: 0,
+  images: 0,
+  audioSeconds: 0,
+  latencyMs: 0,
+  slowestMs: 0,
+  cost: 0,
+  unpricedModels: [],
+});
+
+// Null when the model has no price. Cached answers cost nothing.
+export function getRecordCost(record: UsageRecord, prices: PriceTable): number | null {
+  if (record.cached) return 0;
+  const price = prices.models[record.model];
+  if (!price) return null;
+  return (record.inputTokens * price.inputPerMillionTokens + record.outputTokens * price.outputPerMillionTokens) / 1_000_000
+    + record.images * (price.perImage ?? 0)
+    + (record.audioSeconds / 60) * (price.perAudioMinute ?? 0);
+}
+
+function addRecord(totals: UsageTotals, record: UsageRecord, cost: number | null) {
+  totals.calls++;
+  if (record.cached) totals.cachedCalls++;
+  if (record.failed) totals.failedCalls++;
+  if (record.repair) totals.repairCalls++;
+  totals.inputTokens += record.inputTokens;
+  totals.outputTokens += record.outputTokens;
+  totals.images += record.images;
+  totals.audioSeconds += record.audioSeconds;
+  totals.latencyMs += record.latencyMs;
+  totals.slowestMs = Math.max(totals.slowestMs, record.latencyMs);
+  if (cost === null) {
+    if (!totals.unpricedModels.includes(record.model)) totals.unpricedModels.push(record.model);
+  } else {
+    totals.cost += cost;
+  }
+}
+
+// Rolls a presentation's requests up by step and overall, pricing them with the given table.
+export function summarizeUsage(records: UsageRecord[], prices: PriceTable): UsageSummary {
+  const byKind = { script: emptyTotals(), image: emptyTotals(), speech: emptyTotals() };
+  const total = emptyTotals();
+  for (const record of records) {
+    const cost = getRecordCost(record, prices);
+    addRecord(byKind[record.kind], record, cost);
+    addRecord(total, record, cost);
+  }
+  return { byKind, total, currency: prices.currency };
+}
+
+export function formatCost(amount: number, currency: string): string {
+  // Small per-call amounts need more than two decimals to show anything at all
+  const digits = amount > 0 && amount < 1 ? 4 : 2;
+  try {
+    return new Intl.NumberFormat('en-US', { style: 'currency', currency, minimumFractionDigits: digits, maximumFractionDigits: digits }).format(amount);
+  } catch {
+    // Not an ISO currency code, e.g. "credits"
+    return `${amount.toFixed(digits)} ${currency}`;
+  }
+}
+
+export function formatLatency(ms: number): string {
+  return ms < 1000 ? `${Math.round(ms)} ms` : `${(ms / 1000).toFixed(1)} s`;
+}
+
+// The overall figures written into exports, so other tools can read them without summing records.
+export interface UsageMetadata {
+  currency: string;
+  cost: number;
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  images: number;
+  audioSeconds: number;
+  latencyMs: number;
+}
+
+export function toUsageMetadata(records: UsageRecord[], prices: PriceTable): UsageMetadata {
+  const { total, currency } = summarizeUsage(records, prices);
+  return {
+    currency,
+    // Rounded to a hundredth of a cent, like formatCost shows small amounts
+    cost: Math.round(total.cost * 10_000) / 10_000,
+    requests: total.calls,
+    inputTokens: total.inputTokens,
+    outputTokens: total.outputTokens,
+    images: total.images,
+    audioSeconds: Math.round(total.audioSeconds * 100) / 100,
+    latencyMs: Math.round(total.latencyMs),
+  };
+}
@@ -0,0 +1,274 @@
+import { Chapter } from './chapters';
+import { concatBytes } from './audioUtils';
+import { encodeText } from './zipUtils';
+
+// Neither muxer writes chapters, so they are added to the finished file. MP4 gets a Nero
+// "chpl" box in moov/udta, which VLC, mpv and ffmpeg-based tools read; WebM gets a Matroska
+// Chapters element, listed in the SeekHead so players find it.
+
+// Titles are stored with a one-byte length in chpl, and players show short names anyway.
+const MAX_TITLE_BYTES = 255;
+
+function encodeTitle(title: string): Uint8Array {
+  let bytes = encodeText(title);
+  for (let length = title.length; bytes.length > MAX_TITLE_BYTES; length--) {
+    bytes = encodeText(title.slice(0, length));
+  }
+  return bytes;
+}
+
+// ---- MP4 ----
+
+interface Box {
+  type: string;
+  start: number;
+  headerSize: number;
+  end: number;
+}
+
+function readBoxes(data: Uint8Array, start: number, end: number): Box[] {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const boxes: Box[] = [];
+  for (let offset = start; offset + 8 <= end;) {
+    let size = view.getUint32(offset);
+    let headerSize = 8;
+    if (size === 1) {
+      size = Number(view.getBigUint64(offset + 8));
+      headerSize = 16;
+    } else if (size === 0) {
+      size = end - offset;
+    }
+    if (size < headerSize || offset + size > end) throw new Error('The MP4 file is malformed.');
+    boxes.push({ type: String.fromCharCode(...data.subarray(offset + 4, offset + 8)), start: offset, headerSize, end: offset + size });
+    offset += size;
+  }
+  return boxes;
+}
+
+function mp4Box(type: string, ...payload: Uint8Array[]): Uint8Array {
+  const body = concatBytes(payload);
+  const box = new Uint8Array(8 + body.length);
+  new DataView(box.buffer).setUint32(0, box.length);
+  box.set(encodeText(type), 4);
+  box.set(body, 8);
+  return box;
+}
+
+function chplBox(chapters: Chapter[]): Uint8Array {
+  const entries = chapters.slice(0, 255).map(chapter => {
+    const title = encodeTitle(chapter.title);
+    const entry = new Uint8Array(9 + title.length);
+    // Start times are in 100 ns units
+    new DataView(entry.buffer).setBigUint64(0, BigInt(Math.round(chapter.start * 1e7)));
+    entry[8] = title.length;
+    entry.set(title, 9);
+    return entry;
+  });
+  // Version 1, no flags, four reserved bytes, then the chapter count
+  const header = new Uint8Array([1, 0, 0, 0, 0, 0, 0, 0, entries.length]);
+  return mp4Box('chpl', header, ...entries);
+}
+
+// Chunk offsets are absolute, so moving mdat means moving every offset that points into it.
+function shiftChunkOffsets(data: Uint8Array, moov: Box, after: number, delta: number) {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const visit = (box: Box) => {
+    if (['trak', 'mdia', 'minf', 'stbl'].includes(box.type)) {
+      readBoxes(data, box.start + box.headerSize, box.end).forEach(visit);
+    } else if (box.type === 'stco' || box.type === 'co64') {
+      const count = view.getUint32(box.start + box.headerSize + 4);
+      const first = box.start + box.headerSize + 8;
+      for (let i = 0; i < count; i++) {
+        if (box.type === 'stco') {
+          const offset = view.getUint32(first + i * 4);
+          if (offset >= after) view.setUint32(first + i * 4, offset + delta);
+        } else {
+          const offset = view.getBigUint64(first + i * 8);
+          if (offset >= BigInt(after)) view.setBigUint64(first + i * 8, offset + BigInt(delta));
+        }
+      }
+    }
+  };
+  readBoxes(data, moov.start + moov.headerSize, moov.end).forEach(visit);
+}
+
+export function addMp4Chapters(data: Uint8Array, chapters: Chapter[]): Uint8Array {
+  if (chapters.length === 0) return data;
+  const moov = readBoxes(data, 0, data.length).find(box => box.type === 'moov');
+  if (!moov) throw new Error('The MP4 file has no moov box.');
+  const udta = mp4Box('udta', chplBox(chapters));
+
+  const output = concatBytes([data.subarray(0, moov.end), udta, data.subarray(moov.end)]);
+  const view = new DataView(output.buffer, output.byteOffset, output.byteLength);
+  if (moov.headerSize === 16) {
+    view.setBigUint64(moov.start + 8, BigInt(moov.end - moov.start + udta.length));
+  } else {
+    view.setUint32(moov.start, moov.end - moov.start + udta.length);
+  }
+  shiftChunkOffsets(output, moov, moov.end, udta.length);
+  return output;
+}
+
+// ---- WebM ----
+
+const EBML_ID = {
+  segment: 0x18538067,
+  seekHead: 0x114d9b74,
+  seek: 0x4dbb,
+  seekId: 0x53ab,
+  seekPosition: 0x53ac,
+  info: 0x1549a966,
+  tracks: 0x1654ae6b,
+  chapters: 0x1043a770,
+  editionEntry: 0x45b9,
+  chapterAtom: 0xb6,
+  chapterUid: 0x73c4,
+  chapterTimeStart: 0x91,
+  chapterTimeEnd: 0x92,
+  chapterDisplay: 0x80,
+  chapString: 0x85,
+  chapLanguage: 0x437c,
+  cues: 0x1c53bb6b,
+  cuePoint: 0xbb,
+  cueTrackPositions: 0xb7,
+  cueClusterPosition: 0xf1,
+};
+
+// Sizes of unknown length, as written by streaming muxers, are all ones.
+const UNKNOWN_SIZE = -1;
+
+interface EbmlElement {
+  id: number;
+  start: number;
+  dataStart: number;
+  end: number;
+}
+
+function readVint(data: Uint8Array, offset: number, keepMarker: boolean): { value: number; length: number } {
+  const first = data[offset];
+  const length = first === 0 ? 9 : Math.clz32(first) - 23;
+  if (length > 8 || offset + length > data.length) throw new Error('The WebM file is malformed.');
+  let value = keepMarker ? first : first & (0xff >> length);
+  let allOnes = value === 0xff >> length;
+  for (let i = 1; i < length; i++) {
+    value = value * 256 + data[offset + i];
+    allOnes &&= data[offset + i] === 0xff;
+  }
+  return { value: !keepMarker && allOnes ? UNKNOWN_SIZE : value, length };
+}
+
+function readElements(data: Uint8Array, start: number, end: number): EbmlElement[] {
+  const elements: EbmlElement[] = [];
+  for (let offset = start; offset < end;) {
+    const id = readVint(data, offset, true);
+    const size = readVint(data, offset + id.length, false);
+    const dataStart = offset + id.length + size.length;
+    const elementEnd = size.value === UNKNOWN_SIZE ? end : dataStart + size.value;
+    if (elementEnd > end) throw new Error('The WebM file is malformed.');
+    elements.push({ id: id.value, start: offset, dataStart, end: elementEnd });
+    offset = elementEnd;
+  }
+  return elements;
+}
+
+function encodeUint(value: number, width?: number): Uint8Array {
+  const bytes: number[] = [];
+  for (let rest = value; rest > 0 || bytes.length === 0; rest = Math.floor(rest / 256)) {
+    bytes.unshift(rest % 256);
+  }
+  while (width !== undefined && bytes.length < width) bytes.unshift(0);
+  return new Uint8Array(bytes);
+}
+
+function encodeSize(size: number, width?: number): Uint8Array {
+  let length = width ?? 1;
+  while (size >= 2 ** (7 * length) - 1) length++;
+  const bytes = encodeUint(size, length);
+  bytes[0] |= 0x80 >> (length - 1);
+  return bytes;
+}
+
+function ebml(id: number, ...payload: Uint8Array[]): Uint8Array {
+  const body = concatBytes(payload);
+  return concatBytes([encodeUint(id), encodeSize(body.length), body]);
+}
+
+function chaptersElement(chapters: Chapter[]): Uint8Array {
+  const atoms = chapters.map((chapter, index) => ebml(EBML_ID.chapterAtom,
+    ebml(EBML_ID.chapterUid, encodeUint(index + 1)),
+    // Times are in nanoseconds, whatever the file's timestamp scale
+    ebml(EBML_ID.chapterTimeStart, encodeUint(Math.round(chapter.start * 1e9))),
+    ebml(EBML_ID.chapterTimeEnd, encodeUint(Math.round(chapter.end * 1e9))),
+    ebml(EBML_ID.chapterDisplay, ebml(EBML_ID.chapString, encodeTitle(chapter.title)), ebml(EBML_ID.chapLanguage, encodeText('und'))),
+  ));
+  return ebml(EBML_ID.chapters, ebml(EBML_ID.editionEntry, ...atoms));
+}
+
+// Positions are written at a fixed width, so the SeekHead's size does not depend on them.
+function seekHeadElement(positions: [number, number][]): Uint8Array {
+  return ebml(EBML_ID.seekHead, ...positions.map(([id, position]) => ebml(EBML_ID.seek,
+    ebml(EBML_ID.seekId, encodeUint(id)),
+    ebml(EBML_ID.seekPosition, encodeUint(position, 8)),
+  )));
+}
+
+// Cue positions point at clusters, relative to the segment's data, so they move with them.
+function shiftCues(data: Uint8Array, cues: EbmlElement, delta: number): Uint8Array {
+  const rewrite = (element: EbmlElement): Uint8Array => {
+    if (element.id === EBML_ID.cues || element.id === EBML_ID.cuePoint || element.id === EBML_ID.cueTrackPositions) {
+      return ebml(element.id, ...readElements(data, element.dataStart, element.end).map(rewrite));
+    }
+    if (element.id === EBML_ID.cueClusterPosition) {
+      const position = data.subarray(element.dataStart, element.end).reduce((value, byte) => value * 256 + byte, 0);
+      return ebml(element.id, encodeUint(position + delta));
+    }
+    return data.subarray(element.start, element.end);
+  };
+  return rewrite(cues);
+}
+
+export function addWebMChapters(data: Uint8Array, chapters: Chapter[]): Uint8Array {
+  if (chapters.length === 0) return data;
+  const segment = readElements(data, 0, data.length).find(element => element.id === EBML_ID.segment);
+  if (!segment) throw new Error('The WebM file has no segment.');
+  const children = readElements(data, segment.dataStart, segment.end)
+    .filter(child => child.id !== EBML_ID.seekHead && child.id !== EBML_ID.chapters);
+  const tracksIndex = children.findIndex(child => child.id === EBML_ID.tracks);
+  if (tracksIndex === -1) throw new Error('The WebM file has no tracks.');
+
+  // New layout: SeekHead, the header elements up to Tracks, Chapters, then clusters and cues
+  const indexed = [EBML_ID.info, EBML_ID.tracks, EBML_ID.chapters, EBML_ID.cues];
+  const seekHeadLength = seekHeadElement(indexed.map(id => [id, 0])).length;
+  const chaptersBytes = chaptersElement(chapters);
+  const header = children.slice(0, tracksIndex + 1);
+  const body = children.slice(tracksIndex + 1);
+  const headerLength = header.reduce((sum, child) => sum + child.end - child.start, 0);
+  const oldBodyStart = body.length > 0 ? body[0].start - segment.dataStart : 0;
+  const bodyDelta = seekHeadLength + headerLength + chaptersBytes.length - oldBodyStart;
+
+  const parts: Uint8Array[] = [];
+  const positions = new Map<number, number>();
+  let position = seekHeadLength;
+  const add = (id: number, bytes: Uint8Array) => {
+    if (!positions.has(id)) positions.set(id, position);
+    parts.push(bytes);
+    position += bytes.length;
+  };
+  header.forEach(child => add(child.id, data.subarray(child.start, child.end)));
+  add(EBML_ID.chapters, chaptersBytes);
+  body.forEach(child => add(child.id, child.id === EBML_ID.cues ? shiftCues(data, child, bodyDelta) : data.subarray(child.start, child.end)));
+
+  const seekHead = seekHeadElement(indexed.filter(id => positions.has(id)).map(id => [id, positions.get(id)!]));
+  // The SeekHead was measured with all four entries; a Void element fills in for a missing one
+  const padding = seekHeadLength - seekHead.length;
+  const voidElement = padding > 0 ? concatBytes([new Uint8Array([0xec]), encodeSize(padding - 2, 1), new Uint8Array(padding - 2)]) : new Uint8Array(0);
+  return concatBytes([
+    data.subarray(0, segment.start),
+    encodeUint(EBML_ID.segment),
+    encodeSize(position, 8),
+    seekHead,
+    voidElement,
+    ...parts,
+    data.subarray(segment.end),
+  ]);
+}
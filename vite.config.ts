@@ -4,15 +4,27 @@ import react from '@vitejs/plugin-react';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    // Without PROXY_URL the app reaches the server in server/ through these dev and preview proxies
+    const proxy = { '/api': `http://localhost:${env.PROXY_PORT || 8787}` };
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        proxy,
+      },
+      preview: {
+        proxy,
       },
       plugins: [react()],
+      // Only public settings are injected. GEMINI_API_KEY stays with the proxy server, so the
+      // browser generates through it unless the offline mock provider is chosen.
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GENERATION_PROVIDER': JSON.stringify(env.GENERATION_PROVIDER === 'mock' ? 'mock' : 'proxy'),
+        'process.env.PROXY_URL': JSON.stringify(env.PROXY_URL || ''),
+        'process.env.GEMINI_SCRIPT_MODEL': JSON.stringify(env.GEMINI_SCRIPT_MODEL || ''),
+        'process.env.GEMINI_IMAGE_MODEL': JSON.stringify(env.GEMINI_IMAGE_MODEL || ''),
+        'process.env.GEMINI_TTS_MODEL': JSON.stringify(env.GEMINI_TTS_MODEL || ''),
+        'process.env.GEMINI_BASE_URL': JSON.stringify(''),
       },
       resolve: {
         alias: {